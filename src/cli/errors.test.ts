@@ -282,6 +282,28 @@ describe("fromDomainError with typed ScannerService errors", () => {
   })
 })
 
+describe("fromDomainError with typed ScanCacheService errors", () => {
+  test("converts ScanCacheReadFailed to scanCacheFailed", () => {
+    const error = { _tag: "ScanCacheReadFailed", path: "/config/scan-cache.db", reason: "database disk image is malformed" }
+    const appError = fromDomainError(error)
+
+    expect(appError.title).toBe("Scan cache error")
+    expect(appError.detail).toContain("/config/scan-cache.db")
+    expect(appError.suggestion).toContain("cache clear")
+  })
+})
+
+describe("fromDomainError with typed ShareConfigService errors", () => {
+  test("converts ShareConfigInvalid to shareConfigFailed", () => {
+    const error = { _tag: "ShareConfigInvalid", path: "/boot/config/shares/Movies.cfg", reason: `Invalid shareSplitLevel "x"` }
+    const appError = fromDomainError(error)
+
+    expect(appError.title).toBe("Cannot read share settings")
+    expect(appError.detail).toContain("Movies.cfg")
+    expect(appError.suggestion).toContain("--shares-dir")
+  })
+})
+
 describe("fromDomainError with typed TransferService errors", () => {
   test("converts TransferSourceNotFound to sourceNotFound", () => {
     const error = { _tag: "TransferSourceNotFound", path: "/mnt/source/file.mkv" }
@@ -388,3 +410,37 @@ describe("fromDomainError with typed PlanStorageService errors", () => {
     expect(appError.detail).toContain("file locked")
   })
 })
+
+describe("fromDomainError with planning errors", () => {
+  test("converts EvacuationIncomplete to evacuationIncomplete", () => {
+    const error = {
+      _tag: "EvacuationIncomplete",
+      diskPath: "/mnt/disk7",
+      unplaced: [
+        {
+          path: "/mnt/disk7/Movies/Film (2020)",
+          sizeBytes: 40 * 1024 * 1024 * 1024,
+          isFolder: true,
+          reason: "no room on any other disk (largest room left: 28.00 GB)",
+        },
+      ],
+      extraBytesNeeded: 12 * 1024 * 1024 * 1024,
+    }
+    const appError = fromDomainError(error)
+
+    expect(appError.title).toBe("Cannot evacuate disk")
+    expect(appError.detail).toContain("/mnt/disk7/Movies/Film (2020)/")
+    expect(appError.detail).toContain("12.00 GB")
+    expect(appError.detail).toContain("no room on any other disk")
+    expect(appError.suggestion).toContain("No plan was saved")
+  })
+
+  test("converts GoalUnreachable to goalUnreachable", () => {
+    const error = { _tag: "GoalUnreachable", goal: "every disk at most 90% full", reason: "No disk has room" }
+    const appError = fromDomainError(error)
+
+    expect(appError.title).toBe("Goal cannot be reached")
+    expect(appError.detail).toContain("90%")
+    expect(appError.detail).toContain("No disk has room")
+  })
+})
@@ -10,6 +10,7 @@
  */
 
 import { Match } from "effect"
+import { formatSize } from "../lib/parseSize"
 
 // Import all domain error types for exhaustive matching
 import type {
@@ -35,6 +36,11 @@ import type {
   PlanLoadFailed,
 } from "../infra/PlanStorageService"
 
+import type {
+  ScanCacheReadFailed,
+  ScanCacheWriteFailed,
+} from "../infra/ScanCacheService"
+
 import type {
   TransferSourceNotFound,
   TransferSourcePermissionDenied,
@@ -44,6 +50,14 @@ import type {
   TransferFailed,
 } from "../services/TransferService"
 
+import type {
+  ShareConfigReadFailed,
+  ShareConfigInvalid,
+} from "../services/ShareConfigService"
+
+import type { EvacuationIncomplete, UnplacedItem } from "../services/Evacuator"
+import type { GoalUnreachable } from "../services/GoalPlanner"
+
 // =============================================================================
 // Domain error union - all typed errors from services
 // =============================================================================
@@ -68,6 +82,10 @@ type PlanStorageError =
   | PlanSaveFailed
   | PlanLoadFailed
 
+type ScanCacheError =
+  | ScanCacheReadFailed
+  | ScanCacheWriteFailed
+
 type TransferError =
   | TransferSourceNotFound
   | TransferSourcePermissionDenied
@@ -76,7 +94,13 @@ type TransferError =
   | TransferBackendUnavailable
   | TransferFailed
 
-type DomainError = DiskError | ScannerError | PlanStorageError | TransferError
+type ShareConfigError =
+  | ShareConfigReadFailed
+  | ShareConfigInvalid
+
+type PlanningError = EvacuationIncomplete | GoalUnreachable
+
+type DomainError = DiskError | ScannerError | PlanStorageError | ScanCacheError | ShareConfigError | TransferError | PlanningError
 
 // =============================================================================
 // AppError - formatted user-facing errors
@@ -191,6 +215,22 @@ const errors = {
         : `Check that you have read permission to the plan file.`
     ),
 
+  // Scan cache errors
+  scanCacheFailed: (path: string, reason: string) =>
+    new AppError(
+      "Scan cache error",
+      `Could not use the scan cache at "${path}": ${reason}`,
+      `Run 'unraid-bin-pack cache clear' to delete it, or point --cache-file at a writable location.`
+    ),
+
+  // Share settings errors
+  shareConfigFailed: (path: string, reason: string) =>
+    new AppError(
+      "Cannot read share settings",
+      `Could not read Unraid share settings at "${path}": ${reason}`,
+      `Fix the setting in the Unraid share page, or point --shares-dir at another directory.`
+    ),
+
   // Transfer errors
   transferFailed: (source: string, destination: string, reason: string) =>
     new AppError(
@@ -234,6 +274,30 @@ const errors = {
       `Free up space on the target disk or run 'unraid-bin-pack plan' to recompute with current disk states.`
     ),
 
+  // Planning errors
+  evacuationIncomplete: (diskPath: string, unplaced: ReadonlyArray<UnplacedItem>, extraBytesNeeded: number) =>
+    new AppError(
+      "Cannot evacuate disk",
+      [
+        `${unplaced.length} item(s) on "${diskPath}" could not be placed on the other disks:`,
+        ...unplaced
+          .slice(0, 20)
+          .map((item) => `     ${item.path}${item.isFolder ? "/" : ""} (${formatSize(item.sizeBytes)}): ${item.reason}`),
+        ...(unplaced.length > 20 ? [`     ... and ${unplaced.length - 20} more`] : []),
+        ...(extraBytesNeeded > 0
+          ? [`   Extra space needed: ${formatSize(extraBytesNeeded)} more free on one destination disk.`]
+          : []),
+      ].join("\n"),
+      `Free up space on another disk, add a disk, lower --min-space, or widen the share settings named above. No plan was saved.`
+    ),
+
+  goalUnreachable: (goal: string, reason: string) =>
+    new AppError(
+      "Goal cannot be reached",
+      `Cannot plan for "${goal}": ${reason}`,
+      `Free up space, relax the goal (e.g. a higher max-fill), or lower --min-space. No plan was saved.`
+    ),
+
   // Generic
   unexpected: (message: string) =>
     new AppError(
@@ -275,6 +339,14 @@ const matchDomainError = Match.typeTags<DomainError>()({
   PlanSaveFailed: (e) => errors.planSaveFailed(e.path, e.reason),
   PlanLoadFailed: (e) => errors.planCorrupted(e.path, e.reason),
 
+  // Scan cache errors
+  ScanCacheReadFailed: (e) => errors.scanCacheFailed(e.path, e.reason),
+  ScanCacheWriteFailed: (e) => errors.scanCacheFailed(e.path, e.reason),
+
+  // Share settings errors
+  ShareConfigReadFailed: (e) => errors.shareConfigFailed(e.path, e.reason),
+  ShareConfigInvalid: (e) => errors.shareConfigFailed(e.path, e.reason),
+
   // Transfer errors
   TransferSourceNotFound: (e) => errors.sourceNotFound(e.path),
   TransferSourcePermissionDenied: (e) => errors.sourcePermissionDenied(e.path),
@@ -282,6 +354,10 @@ const matchDomainError = Match.typeTags<DomainError>()({
   TransferDiskFull: (e) => errors.diskFull(e.path),
   TransferBackendUnavailable: (e) => errors.backendUnavailable(e.reason),
   TransferFailed: (e) => errors.transferFailed(e.source, e.destination, e.reason),
+
+  // Planning errors
+  EvacuationIncomplete: (e) => errors.evacuationIncomplete(e.diskPath, e.unplaced, e.extraBytesNeeded),
+  GoalUnreachable: (e) => errors.goalUnreachable(e.goal, e.reason),
 })
 
 // =============================================================================
@@ -348,12 +424,16 @@ export const {
   planCorrupted,
   planSaveFailed,
   planPermissionDenied,
+  scanCacheFailed,
+  shareConfigFailed,
   transferFailed,
   backendUnavailable,
   sourceNotFound,
   sourcePermissionDenied,
   destinationPermissionDenied,
   diskFull,
+  evacuationIncomplete,
+  goalUnreachable,
   unexpected,
   permissionDenied,
 } = errors
@@ -2,26 +2,43 @@
  * CLI handlers - orchestrate services for plan and apply commands.
  */
 
-import { Effect, Either, pipe, Layer, Logger, LogLevel } from "effect"
+import { Effect, Either, Fiber, pipe, Layer, Logger, LogLevel } from "effect"
 import { Console } from "effect"
 import { BunContext } from "@effect/platform-bun"
 import { FileSystem } from "@effect/platform"
 
-import type { PlanOptions, ApplyOptions } from "./options"
-import { parseSize, formatSize } from "../lib/parseSize"
-import { createMovePlan, type FileMove } from "../domain/MovePlan"
+import type { PlanOptions, AnalyzeOptions, ApplyOptions, CacheOptions, ExportOptions, PlanMode } from "./options"
+import { parseSize, parsePercent, parseReservation, formatSize } from "../lib/parseSize"
+import { createFileMove, createMovePlan, type FileMove, type MovePlan } from "../domain/MovePlan"
 import type { WorldView } from "../domain/WorldView"
-import type { Disk } from "../domain/Disk"
-import { consolidateSimple } from "../services/SimpleConsolidator"
+import { isArrayDisk, reservedBytes, type Disk } from "../domain/Disk"
+import { hardlinkKey, type FileEntry } from "../domain/FileEntry"
+import type { ShareConfig } from "../domain/ShareConfig"
+import { parseGroupingRules, type GroupingRule } from "../domain/FolderGroup"
+import { DEFAULT_STRATEGY, packingStrategies, type StrategyName } from "../services/PackingStrategy"
+import { balanceDisks, fillSpread } from "../services/Balancer"
+import { gatherFolders } from "../services/Gatherer"
+import { analyzeArray } from "../services/Analyzer"
+import { findChangedSources, validatePlan } from "../services/PlanValidator"
+import { evacuateDisk } from "../services/Evacuator"
+import { planUndo } from "../services/UndoPlanner"
+import { pruneEmptyDirectories, snapshotDirectories } from "../services/DirectoryPruner"
+import { describeGoal, parseGoal, planForGoal, type Goal } from "../services/GoalPlanner"
 import { DiskServiceTag, DiskServiceFullLive } from "../services/DiskService"
-import { ScannerServiceTag, ScannerServiceLive } from "../services/ScannerService"
-import { TransferServiceTag, RsyncTransferService } from "../services/TransferService"
+import { ScannerServiceTag, ScannerServiceLive, DEFAULT_STAT_CONCURRENCY } from "../services/ScannerService"
+import { TransferServiceTag, RsyncTransferService, type TransferResult } from "../services/TransferService"
 import { LoggerServiceTag, LoggerServiceLive } from "../services/LoggerService"
-import { PlanStorageServiceTag, type SerializedPlan } from "../infra/PlanStorageService"
+import { ShareConfigServiceTag, ShareConfigServiceLive, DEFAULT_SHARES_DIR } from "../services/ShareConfigService"
+import { PlanStorageServiceTag, type MoveStatusUpdate, type SerializedPlan } from "../infra/PlanStorageService"
 import { SqlitePlanStorageService } from "../infra/SqlitePlanStorageService"
+import { ScanCacheServiceTag } from "../infra/ScanCacheService"
+import { SqliteScanCacheService } from "../infra/SqliteScanCacheService"
 import { GlobServiceLive } from "../infra/GlobService"
 import { FileStatServiceLive } from "../infra/FileStatService"
 import { ShellServiceLive } from "../infra/ShellService"
+import { ChecksumServiceLive } from "../infra/ChecksumService"
+import { TerminalUIServiceTag, TerminalUIServiceLive } from "../infra/TerminalUIService"
+import { createTransferProgressTracker } from "../lib/transferProgress"
 import { fromDomainError } from "./errors"
 import { interactivePlanPrompts } from "./interactive"
 import { PlanScriptGenerator } from "../services/PlanScriptGenerator"
@@ -94,6 +111,43 @@ const optimizeMoveChains = (
   return finalMoves
 }
 
+// =============================================================================
+// Helper: Scanning
+// =============================================================================
+
+/**
+ * Stream each disk into a single file list, reporting progress and what the
+ * exclude rules dropped unless quiet.
+ */
+const scanDisks = (
+  disks: ReadonlyArray<Disk>,
+  options: {
+    excludePatterns: string[]
+    scanCache?: { path: string; refresh: boolean }
+    quiet?: boolean
+  }
+) =>
+  Effect.gen(function* () {
+    const scannerService = yield* ScannerServiceTag
+    const logger = yield* LoggerServiceTag
+
+    const allFiles: FileEntry[] = []
+    yield* Effect.forEach(disks, (disk) =>
+      Effect.gen(function* () {
+        const { files, summary } = yield* scannerService.scanDiskWithSummary(disk.path, {
+          excludePatterns: options.excludePatterns,
+          cache: options.scanCache,
+          onProgress: (progress) =>
+            progress.done || options.quiet ? Effect.void : logger.plan.scanProgress(progress),
+        })
+        for (const file of files) allFiles.push(file)
+        if (!options.quiet) yield* logger.plan.scanSummary(summary)
+      }),
+      { discard: true }
+    )
+    return allFiles
+  })
+
 // =============================================================================
 // Helper: Iterative disk emptying
 // =============================================================================
@@ -106,27 +160,30 @@ const buildWorldViewAndPlan = (
   allDisks: Disk[],
   options: {
     excludePatterns: string[]
-    minSpaceBytes: number
+    includePatterns: string[]
+    reservedBytesByDisk: ReadonlyMap<string, number>
+    shares: ReadonlyMap<string, ShareConfig>
     minFileSizeBytes: number
     pathPrefixes: string[]
     minSplitSizeBytes: number
     moveAsFolderThresholdPct: number
+    groupingRules?: GroupingRule[]
     srcDiskPaths?: string[]
+    solverTimeBudgetMs?: number
+    strategy?: StrategyName
+    mode?: PlanMode
+    tolerancePct?: number
+    evacuateDiskPath?: string
+    goal?: Goal
+    scanCache?: { path: string; refresh: boolean }
     debug?: boolean
   }
 ) =>
   Effect.gen(function* () {
-    const scannerService = yield* ScannerServiceTag
-
-    // Scan all disks to get all files
-    const allFiles = yield* Effect.flatMap(
-      Effect.forEach(allDisks, (disk) =>
-        scannerService.scanDisk(disk.path, {
-          excludePatterns: options.excludePatterns,
-        })
-      ),
-      (fileArrays) => Effect.succeed(fileArrays.flat())
-    )
+    const allFiles = yield* scanDisks(allDisks, {
+      excludePatterns: options.excludePatterns,
+      scanCache: options.scanCache,
+    })
 
     // Debug: log file scan results
     yield* Effect.forEach(allDisks, (disk) => {
@@ -148,20 +205,43 @@ const buildWorldViewAndPlan = (
 
     // Debug: log WorldView state
     yield* Effect.forEach(initialWorldView.disks, (disk) =>
-      Effect.logDebug(`WorldView: ${disk.path} - ${(disk.freeBytes / 1024 / 1024).toFixed(1)} MB free (will reserve ${(options.minSpaceBytes / 1024 / 1024).toFixed(1)} MB for min-space)`)
+      Effect.logDebug(`WorldView: ${disk.path} - ${(disk.freeBytes / 1024 / 1024).toFixed(1)} MB free (will reserve ${((options.reservedBytesByDisk.get(disk.path) ?? 0) / 1024 / 1024).toFixed(1)} MB for min-space)`)
     , { discard: true })
 
-    // Simple consolidation: work through disks from least full to most full
-    // Find best combinations of files that fill destination disks efficiently
-    const result = yield* consolidateSimple(
-      initialWorldView,
-      {
-        minSpaceBytes: options.minSpaceBytes,
-        minFileSizeBytes: options.minFileSizeBytes,
-        pathPrefixes: options.pathPrefixes,
-        srcDiskPaths: options.srcDiskPaths,
-      }
+    const consolidationOptions = {
+      // Every disk has its own reservation, so there is no shared min-space
+      minSpaceBytes: 0,
+      reservedBytesByDisk: options.reservedBytesByDisk,
+      minFileSizeBytes: options.minFileSizeBytes,
+      pathPrefixes: options.pathPrefixes,
+      srcDiskPaths: options.srcDiskPaths,
+      minSplitSizeBytes: options.minSplitSizeBytes,
+      folderThreshold: options.moveAsFolderThresholdPct,
+      groupingRules: options.groupingRules,
+      includePatterns: options.includePatterns,
+      solverTimeBudgetMs: options.solverTimeBudgetMs,
+      shares: options.shares,
+    }
+
+    // Gather re-unites folders spread over several disks; balance levels
+    // every disk around the average fill; evacuation empties one disk or
+    // fails; a goal is reached moving as little as possible; otherwise work
+    // through disks from least full to most full and let the strategy decide
+    // which destination each file or folder goes to
+    const strategy = packingStrategies[options.strategy ?? DEFAULT_STRATEGY]
+    yield* Effect.logDebug(
+      options.mode === "balance" || options.mode === "gather" ? `Plan mode: ${options.mode}` : `Packing strategy: ${strategy.name}`
     )
+    const gathered = options.mode === "gather" ? yield* gatherFolders(initialWorldView, consolidationOptions) : undefined
+    const result = gathered
+      ? gathered
+      : options.mode === "balance"
+      ? yield* balanceDisks(initialWorldView, { ...consolidationOptions, tolerancePct: options.tolerancePct ?? 5 })
+      : options.evacuateDiskPath !== undefined
+        ? yield* evacuateDisk(initialWorldView, options.evacuateDiskPath, consolidationOptions, strategy.consolidate)
+        : options.goal !== undefined
+          ? yield* planForGoal(initialWorldView, options.goal, consolidationOptions, strategy.consolidate)
+          : yield* strategy.consolidate(initialWorldView, consolidationOptions)
 
     yield* Effect.logDebug(`Consolidation complete: ${result.moves.length} moves, ${(result.bytesConsolidated / 1024 / 1024).toFixed(1)} MB consolidated`)
 
@@ -176,7 +256,15 @@ const buildWorldViewAndPlan = (
     }))
 
     const diskFreeChanges = new Map<string, number>()
+    const countedLinks = new Set<string>()
     for (const move of optimizedMoves) {
+      // Hardlinked paths share their data - only count it once
+      const linkKey = hardlinkKey(move.file)
+      if (linkKey !== undefined) {
+        if (countedLinks.has(linkKey)) continue
+        countedLinks.add(linkKey)
+      }
+
       const sourceDisk = move.file.diskPath
       const targetDisk = move.targetDiskPath
       // Source gains free space, target loses free space
@@ -189,13 +277,11 @@ const buildWorldViewAndPlan = (
       freeBytes: d.freeBytes + (diskFreeChanges.get(d.path) ?? 0),
     }))
 
-    // Count how many disks were completely evacuated
-    const disksEvacuated = initialDiskStats.filter((initial) => {
-      const final = finalDiskStats.find((f) => f.path === initial.path)
-      if (!final) return false
-      const initialUsed = initial.totalBytes - initial.freeBytes
-      const finalUsed = final.totalBytes - final.freeBytes
-      return initialUsed > 0 && finalUsed === 0
+    // Count the disks every scanned file is moving off of
+    const movedPaths = new Set(optimizedMoves.map((m) => m.file.absolutePath))
+    const disksEvacuated = initialDiskStats.filter((disk) => {
+      const filesOnDisk = allFiles.filter((f) => f.diskPath === disk.path)
+      return filesOnDisk.length > 0 && filesOnDisk.every((f) => movedPaths.has(f.absolutePath))
     }).length
 
     return {
@@ -203,6 +289,11 @@ const buildWorldViewAndPlan = (
       finalDiskStats,
       moves: optimizedMoves,
       disksEvacuated,
+      foldersPlaced: result.foldersPlaced,
+      foldersExploded: result.foldersExploded,
+      destinations: result.destinations,
+      solverTimeouts: result.solverTimeouts,
+      scatteredFolders: gathered?.scatteredFolders,
     }
   })
 
@@ -357,7 +448,8 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
     const diskService = yield* DiskServiceTag
     const scannerService = yield* ScannerServiceTag
     const planStorage = yield* PlanStorageServiceTag
-    const transferService = yield* TransferServiceTag
+    const scanCache = yield* ScanCacheServiceTag
+    const shareConfigService = yield* ShareConfigServiceTag
     const logger = yield* LoggerServiceTag
 
     // Interactive mode: discover disks first, then prompt for options
@@ -381,7 +473,7 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
     }
 
     const excludePatterns = finalOptions.exclude?.split(",").map((s) => s.trim()) ?? []
-    const _includePatterns = finalOptions.include?.split(",").map((s) => s.trim()) ?? []
+    const includePatterns = finalOptions.include?.split(",").map((s) => s.trim()).filter((s) => s.length > 0) ?? []
     const planPath = finalOptions.planFile ?? planStorage.defaultPath
 
     // Check for existing partial plan (conflict detection)
@@ -415,25 +507,65 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
       }
     }
 
+    if (finalOptions.undo) {
+      if (finalOptions.src || finalOptions.mode || finalOptions.evacuate || finalOptions.goal) {
+        yield* Console.error(`\nERROR: --undo cannot be combined with --src, --mode, --evacuate or --goal.`)
+        yield* Console.error(`   Undo moves files back to the disks the earlier plan took them from.\n`)
+        return
+      }
+      yield* planUndoOf(finalOptions.undo, finalOptions, planPath, planExists)
+      return
+    }
+
+    const otherMode = finalOptions.mode !== undefined && finalOptions.mode !== "consolidate"
+
+    if (finalOptions.evacuate && (finalOptions.src || otherMode || finalOptions.goal)) {
+      yield* Console.error(`\nERROR: --evacuate cannot be combined with --src, --goal or --mode ${finalOptions.mode ?? "balance"}.`)
+      yield* Console.error(`   Evacuation moves files off the one disk it names.\n`)
+      return
+    }
+
+    if (finalOptions.goal && (finalOptions.src || otherMode)) {
+      yield* Console.error(`\nERROR: --goal cannot be combined with --src or --mode ${finalOptions.mode ?? "balance"}.`)
+      yield* Console.error(`   The goal decides which disks files move off.\n`)
+      return
+    }
+
+    const goal = finalOptions.goal ? parseGoal(finalOptions.goal) : undefined
+
     // Parse size options (provide defaults if not specified)
-    const minSpaceBytes = parseSize(finalOptions.minSpace ?? "50MB")
+    const reservation = parseReservation(finalOptions.minSpace ?? "50MB")
+    const maxFillPct = finalOptions.maxFill ? parsePercent(finalOptions.maxFill) : undefined
     const minFileSizeBytes = parseSize(finalOptions.minFileSize ?? "1MB")
     const minSplitSizeBytes = parseSize(finalOptions.minSplitSize ?? "1GB")
     const moveAsFolderThresholdPct = parseFloat(finalOptions.moveAsFolderThreshold ?? "0.9")
+    const tolerancePct = parsePercent(finalOptions.tolerance ?? "5%")
 
     // Parse path filter (comma-separated list of path prefixes)
     const pathPrefixes = finalOptions.pathFilter
       ? finalOptions.pathFilter.split(",").map((s) => s.trim()).filter((s) => s.length > 0)
       : []
 
+    // --group-depth keeps whole folders (e.g. a show) together below the path filters
+    const groupingRules = finalOptions.groupDepth ? parseGroupingRules(finalOptions.groupDepth, pathPrefixes) : undefined
+
     yield* logger.plan.header
 
     // Step 1: Discover disks (auto-discover at /mnt/disk* if not specified)
     yield* logger.plan.discoveringDisks
 
-    const diskPaths = finalOptions.dest
+    // --evacuate takes a disk name or path; a disk being emptied is always scanned
+    const evacuateDiskPath = finalOptions.evacuate
+      ? finalOptions.evacuate.startsWith("/") ? finalOptions.evacuate : `/mnt/${finalOptions.evacuate}`
+      : undefined
+
+    const requestedDiskPaths = finalOptions.dest
       ? finalOptions.dest.split(",").map((s) => s.trim())
       : yield* diskService.autoDiscover()
+    const diskToEmpty = evacuateDiskPath ?? (goal?.kind === "free-disk" ? goal.diskPath : undefined)
+    const diskPaths = diskToEmpty && !requestedDiskPaths.includes(diskToEmpty)
+      ? [...requestedDiskPaths, diskToEmpty]
+      : requestedDiskPaths
 
     if (diskPaths.length === 0) {
       yield* logger.plan.noDisksFound
@@ -442,10 +574,26 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
 
     const allDisks = yield* diskService.discover(diskPaths)
 
-    yield* Effect.forEach(allDisks, (disk) => logger.plan.diskInfo(disk, false), {
+    // Min-space per disk: percentages resolve against each disk's size,
+    // overrides replace the default, and --max-fill raises the floor
+    const reservedBytesByDisk = new Map(
+      allDisks.map((disk) => [disk.path, reservedBytes(disk, reservation, maxFillPct)])
+    )
+
+    yield* Effect.forEach(allDisks, (disk) => logger.plan.diskInfo(disk, false, reservedBytesByDisk.get(disk.path)), {
       discard: true,
     })
 
+    // Unraid share settings limit which disks each share's files may go to
+    const sharesDir = finalOptions.sharesDir ?? DEFAULT_SHARES_DIR
+    const shares = yield* shareConfigService.load(sharesDir)
+    yield* logger.plan.shareSettings(sharesDir, [...shares.values()])
+
+    // Excluded files are never scanned, so emptying a disk cannot move them
+    if (diskToEmpty && excludePatterns.length > 0) {
+      yield* logger.plan.excludedStay(diskToEmpty, excludePatterns)
+    }
+
     // Parse --src as comma-separated list if provided
     const srcDiskPaths = finalOptions.src
       ? finalOptions.src.split(",").map((s) => s.trim())
@@ -454,19 +602,44 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
     // Run backtracking evacuation with WorldView (single code path)
     const iterativeResult = yield* buildWorldViewAndPlan(allDisks, {
       excludePatterns,
-      minSpaceBytes,
+      includePatterns,
+      reservedBytesByDisk,
+      shares,
       minFileSizeBytes,
       pathPrefixes,
       minSplitSizeBytes,
       moveAsFolderThresholdPct,
+      groupingRules,
       srcDiskPaths,
+      solverTimeBudgetMs: finalOptions.solverTimeBudget,
+      strategy: finalOptions.strategy,
+      mode: finalOptions.mode,
+      tolerancePct,
+      evacuateDiskPath,
+      goal,
+      scanCache: {
+        path: finalOptions.cacheFile ?? scanCache.defaultPath,
+        refresh: finalOptions.rescan ?? false,
+      },
       debug: finalOptions.debug,
     })
 
-    const { moves } = iterativeResult
+    const { moves, foldersPlaced, foldersExploded, disksEvacuated, destinations, solverTimeouts } = iterativeResult
     const pendingMoves = moves.filter((m) => m.status === "pending")
     const skippedMoves = moves.filter((m) => m.status === "skipped")
 
+    if (finalOptions.mode === "balance") {
+      yield* logger.plan.fillSpread(
+        fillSpread(iterativeResult.initialDiskStats),
+        fillSpread(iterativeResult.finalDiskStats),
+        tolerancePct
+      )
+    }
+
+    if (iterativeResult.scatteredFolders !== undefined) {
+      yield* logger.plan.gatherSummary(iterativeResult.scatteredFolders, foldersPlaced)
+    }
+
     if (moves.length === 0) {
       yield* logger.plan.noMovesNeeded
       return
@@ -476,18 +649,59 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
     const plan = createMovePlan(moves)
 
     yield* logger.plan.planStats({
-      foldersPlaced: 0, // TODO: Track folder stats in WorldView
-      foldersExploded: undefined,
+      foldersPlaced,
+      foldersExploded,
+      disksEvacuated,
       movesPlanned: pendingMoves.length,
       skipped: skippedMoves.length,
       totalBytes: plan.summary.totalBytes,
     })
+    yield* logger.plan.packingEfficiency(destinations, solverTimeouts)
+    if (goal) {
+      yield* logger.plan.goalCost({
+        goal: describeGoal(goal),
+        bytesMoved: plan.summary.totalBytes,
+        filesMoved: pendingMoves.length,
+        arrayUsedBytes: iterativeResult.initialDiskStats
+          .filter(isArrayDisk)
+          .reduce((sum, d) => sum + d.totalBytes - d.freeBytes, 0),
+      })
+    }
 
     if (pendingMoves.length === 0) {
       yield* logger.plan.noMovesNeeded
       return
     }
 
+    const primarySourceDisk = evacuateDiskPath ?? srcDiskPaths?.[0] ?? moves[0]?.file.diskPath ?? "auto"
+    yield* validateAndSavePlan(plan, {
+      disks: allDisks,
+      reservedBytesByDisk,
+      sourceDisk: primarySourceDisk,
+      planPath,
+      replace: finalOptions.force && planExists,
+    })
+  })
+
+/**
+ * Check a new plan with rsync --dry-run and save it with the stats of the
+ * disks it moves files to. `replace` deletes the plan already at planPath.
+ */
+const validateAndSavePlan = (
+  plan: MovePlan,
+  options: {
+    readonly disks: ReadonlyArray<Disk>
+    readonly reservedBytesByDisk: ReadonlyMap<string, number>
+    readonly sourceDisk: string
+    readonly planPath: string
+    readonly replace: boolean
+  }
+) =>
+  Effect.gen(function* () {
+    const planStorage = yield* PlanStorageServiceTag
+    const transferService = yield* TransferServiceTag
+    const logger = yield* LoggerServiceTag
+
     // Validate with rsync --dry-run
     yield* logger.plan.validating
     const dryRunReport = yield* transferService.executeAll(plan, {
@@ -499,12 +713,12 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
     yield* logger.plan.validationComplete(dryRunReport.successful)
 
     // Save plan
-    yield* logger.plan.savingPlan(planPath)
+    yield* logger.plan.savingPlan(options.planPath)
 
     // Compute disk stats - include all destination disks
-    const allDestDiskPaths = new Set(moves.map((m) => m.targetDiskPath))
+    const allDestDiskPaths = new Set(plan.moves.map((m) => m.targetDiskPath))
     const diskStats = Object.fromEntries(
-      allDisks
+      options.disks
         .filter((disk) => allDestDiskPaths.has(disk.path))
         .map((disk) => [
           disk.path,
@@ -512,97 +726,450 @@ export const runPlan = (options: PlanOptions, isInteractive: boolean = false) =>
             totalBytes: disk.totalBytes,
             freeBytes: disk.freeBytes,
             bytesToMove: plan.summary.bytesPerDisk.get(disk.path) ?? 0,
+            reservedBytes: options.reservedBytesByDisk.get(disk.path) ?? 0,
           },
         ])
     )
 
     // If --force and plan exists, delete it first
-    if (finalOptions.force && planExists) {
+    if (options.replace) {
       yield* pipe(
-        planStorage.delete(planPath),
+        planStorage.delete(options.planPath),
         Effect.catchAll(() => Effect.void)
       )
     }
 
-    // Generate bash script
-    const fs = yield* FileSystem.FileSystem
+    yield* planStorage.save(plan, options.sourceDisk, diskStats, options.planPath)
 
-    const primarySourceDisk = srcDiskPaths?.[0] ?? moves[0]?.file.diskPath ?? "auto"
-    const scriptContent = yield* PlanScriptGenerator.generate({
-      moves: plan.moves,
-      sourceDisk: primarySourceDisk,
-      diskStats,
-      concurrency: 4, // Default concurrency
+    yield* logger.plan.planSaved
+    yield* Console.log(`\n✓ Plan saved to ${options.planPath}`)
+    yield* Console.log(`\nTo execute the plan:`)
+    yield* Console.log(`  ./unraid-bin-pack apply`)
+    yield* Console.log(`  or ./unraid-bin-pack export to write it out as an rsync script\n`)
+  })
+
+/**
+ * Plan moving the completed moves of an earlier plan back to their original
+ * disks, saved at planPath like any other plan.
+ */
+const planUndoOf = (undoPath: string, options: PlanOptions, planPath: string, planExists: boolean) =>
+  Effect.gen(function* () {
+    const diskService = yield* DiskServiceTag
+    const planStorage = yield* PlanStorageServiceTag
+    const logger = yield* LoggerServiceTag
+
+    yield* logger.plan.header
+
+    const exists = yield* planStorage.exists(undoPath)
+    if (!exists) {
+      yield* Console.error(`\n❌ No plan file found at ${undoPath}\n`)
+      return
+    }
+    const earlier = yield* planStorage.load(undoPath)
+    yield* logger.plan.undoing(undoPath, earlier.createdAt)
+
+    const originalDiskPaths = [
+      ...new Set(Object.values(earlier.moves).filter((m) => m.status === "completed").map((m) => m.sourceDisk)),
+    ]
+    if (originalDiskPaths.length === 0) {
+      yield* logger.plan.nothingToUndo
+      return
+    }
+
+    yield* logger.plan.discoveringDisks
+    const disks = yield* diskService.discover(originalDiskPaths)
+    const reservation = parseReservation(options.minSpace ?? "50MB")
+    const maxFillPct = options.maxFill ? parsePercent(options.maxFill) : undefined
+    const reservedBytesByDisk = new Map(disks.map((disk) => [disk.path, reservedBytes(disk, reservation, maxFillPct)]))
+    yield* Effect.forEach(disks, (disk) => logger.plan.diskInfo(disk, false, reservedBytesByDisk.get(disk.path)), {
+      discard: true,
     })
 
-    // Write script to file (convert .db to .sh for backward compatibility)
-    const scriptPath = planPath.endsWith('.db') ? planPath.replace('.db', '.sh') : planPath
-    yield* fs.writeFileString(scriptPath, scriptContent)
+    const { moves, completedMoves } = yield* planUndo(earlier, disks, reservedBytesByDisk)
+    const pendingMoves = moves.filter((m) => m.status === "pending")
+    const skippedMoves = moves.filter((m) => m.status === "skipped")
+    yield* logger.plan.undoSummary(
+      completedMoves,
+      skippedMoves.map((m) => `${m.file.absolutePath}: ${m.reason ?? "skipped"}`)
+    )
 
-    // Make script executable (ignore errors in test/mock environment)
-    yield* pipe(
-      Effect.tryPromise({
-        try: () => Bun.$`chmod +x ${scriptPath}`.quiet(),
-        catch: () => null,
-      }),
-      Effect.catchAll(() => Effect.void)
+    if (pendingMoves.length === 0) {
+      yield* logger.plan.nothingToUndo
+      return
+    }
+
+    const plan = createMovePlan(moves)
+    yield* logger.plan.planStats({
+      movesPlanned: pendingMoves.length,
+      skipped: skippedMoves.length,
+      totalBytes: plan.summary.totalBytes,
+    })
+
+    yield* validateAndSavePlan(plan, {
+      disks,
+      reservedBytesByDisk,
+      sourceDisk: pendingMoves[0]?.file.diskPath ?? "auto",
+      planPath,
+      replace: options.force && planExists,
+    })
+  })
+
+// =============================================================================
+// Analyze command handler
+// =============================================================================
+
+/**
+ * Scan the array and report how fragmented it is. Read-only: nothing is
+ * planned, saved or moved.
+ */
+export const runAnalyze = (options: AnalyzeOptions) =>
+  Effect.gen(function* () {
+    const diskService = yield* DiskServiceTag
+    const scanCache = yield* ScanCacheServiceTag
+    const logger = yield* LoggerServiceTag
+
+    const excludePatterns = options.exclude?.split(",").map((s) => s.trim()) ?? []
+    const includePatterns = options.include?.split(",").map((s) => s.trim()).filter((s) => s.length > 0) ?? []
+    const reservation = parseReservation(options.minSpace ?? "50MB")
+    const maxFillPct = options.maxFill ? parsePercent(options.maxFill) : undefined
+    const minFileSizeBytes = parseSize(options.minFileSize ?? "1MB")
+    const pathPrefixes = options.pathFilter
+      ? options.pathFilter.split(",").map((s) => s.trim()).filter((s) => s.length > 0)
+      : []
+    const groupingRules = options.groupDepth ? parseGroupingRules(options.groupDepth, pathPrefixes) : undefined
+
+    // JSON goes to stdout on its own, so progress is only shown for tables
+    if (!options.json) yield* logger.analyze.header
+
+    const diskPaths = options.dest
+      ? options.dest.split(",").map((s) => s.trim())
+      : yield* diskService.autoDiscover()
+
+    if (diskPaths.length === 0) {
+      yield* logger.plan.noDisksFound
+      return
+    }
+
+    const disks = yield* diskService.discover(diskPaths)
+    const files = yield* scanDisks(disks, {
+      excludePatterns,
+      scanCache: { path: options.cacheFile ?? scanCache.defaultPath, refresh: options.rescan },
+      quiet: options.json,
+    })
+
+    const report = yield* analyzeArray(
+      {
+        disks: disks.map((disk) => ({ path: disk.path, totalBytes: disk.totalBytes, freeBytes: disk.freeBytes })),
+        files,
+      },
+      {
+        minSpaceBytes: 0,
+        reservedBytesByDisk: new Map(disks.map((disk) => [disk.path, reservedBytes(disk, reservation, maxFillPct)])),
+        minFileSizeBytes,
+        pathPrefixes,
+        includePatterns,
+        groupingRules,
+      }
     )
 
-    yield* logger.plan.planSaved
-    yield* Console.log(`\n✓ Plan script saved to ${scriptPath}`)
-    yield* Console.log(`\nTo execute the plan:`)
-    yield* Console.log(`  ${scriptPath}`)
-    yield* Console.log(`  or: ./unraid-bin-pack apply\n`)
+    if (options.json) {
+      yield* Console.log(JSON.stringify(report, null, 2))
+      return
+    }
+    yield* logger.analyze.report(report)
   })
 
 // =============================================================================
 // Apply command handler
 // =============================================================================
 
+/**
+ * Moves from a saved plan that still need to run. Failed and interrupted
+ * moves are retried; completed and skipped moves are left alone.
+ */
+const movesToResume = (savedPlan: SerializedPlan): FileMove[] =>
+  Object.entries(savedPlan.moves)
+    .filter(([_, m]) => m.status === "pending" || m.status === "failed" || m.status === "in_progress")
+    .map(([sourceAbsPath, m]) =>
+      createFileMove(
+        {
+          absolutePath: sourceAbsPath,
+          relativePath: m.sourceRelPath,
+          sizeBytes: m.sizeBytes,
+          diskPath: m.sourceDisk,
+          mtimeMs: m.mtimeMs,
+        },
+        m.targetDisk,
+        m.unitId
+      )
+    )
+
 export const runApply = (options: ApplyOptions) =>
   Effect.gen(function* () {
     const logger = yield* LoggerServiceTag
+    const transferService = yield* TransferServiceTag
+    const planStorage = yield* PlanStorageServiceTag
+    const diskService = yield* DiskServiceTag
+    const ui = yield* TerminalUIServiceTag
     const fs = yield* FileSystem.FileSystem
 
-    // Determine script path
-    const defaultPath = "/config/plan.sh"
-    let scriptPath = options.planFile ?? defaultPath
+    const planPath = options.planFile ?? planStorage.defaultPath
+
+    yield* logger.apply.header(options.dryRun)
+
+    /**
+     * With --remove-source-files a source only disappears once rsync has
+     * copied it, so a missing source with the destination in place means a
+     * move that ran finished - even when its batch failed or a crash lost the
+     * status. Moves skipped because their source changed keep the reason.
+     */
+    const settle = (move: FileMove, success: boolean, error?: string) =>
+      success
+        ? Effect.succeed<MoveStatusUpdate>({ sourceAbsPath: move.file.absolutePath, status: "completed" })
+        : move.status === "skipped"
+        ? Effect.succeed<MoveStatusUpdate>({ sourceAbsPath: move.file.absolutePath, status: "skipped", error })
+        : pipe(
+            Effect.all([fs.exists(move.file.absolutePath), fs.exists(move.destinationPath)]),
+            Effect.map(([sourceExists, destExists]): MoveStatusUpdate =>
+              !sourceExists && destExists
+                ? { sourceAbsPath: move.file.absolutePath, status: "completed" }
+                : { sourceAbsPath: move.file.absolutePath, status: "failed", error }
+            ),
+            Effect.orElseSucceed((): MoveStatusUpdate => ({ sourceAbsPath: move.file.absolutePath, status: "failed", error }))
+          )
 
-    // Convert .db paths to .sh for backward compatibility
-    if (scriptPath.endsWith('.db')) {
-      scriptPath = scriptPath.replace('.db', '.sh')
+    const exists = yield* planStorage.exists(planPath)
+    if (!exists) {
+      yield* logger.apply.noPlanFound(planPath)
+      return
     }
 
-    yield* logger.apply.header(options.dryRun)
+    yield* logger.apply.loadingPlan(planPath)
+    const savedPlan = yield* planStorage.load(planPath)
+    const candidates = movesToResume(savedPlan)
+
+    // Moves that failed or were interrupted. Pending moves never ran, so
+    // what is at their destinations is not theirs: validation reports them
+    const started = new Set(
+      candidates
+        .map((m) => m.file.absolutePath)
+        .filter((path) => savedPlan.moves[path]?.status === "failed" || savedPlan.moves[path]?.status === "in_progress")
+    )
 
-    // Check if plan script exists
-    const scriptExists = yield* pipe(
-      fs.access(scriptPath),
-      Effect.map(() => true),
-      Effect.catchAll(() => Effect.succeed(false))
+    // Pick up moves that finished after the last recorded status
+    const settled = yield* Effect.forEach(
+      candidates.filter((m) => started.has(m.file.absolutePath)),
+      (move) => settle(move, false),
+      { concurrency: DEFAULT_STAT_CONCURRENCY }
     )
+    const finished = settled.filter((u) => u.status === "completed")
+    if (finished.length > 0 && !options.dryRun) {
+      yield* planStorage.updateMoveStatuses(planPath, finished)
+    }
+
+    const finishedPaths = new Set(finished.map((u) => u.sourceAbsPath))
+    const unfinished = candidates.filter((m) => !finishedPaths.has(m.file.absolutePath))
 
-    if (!scriptExists) {
-      yield* Console.log(`\n❌ No plan script found at ${scriptPath}`)
-      yield* Console.log(`   Run 'plan' command first.\n`)
+    const remaining = unfinished.map((m) => savedPlan.moves[m.file.absolutePath]?.status)
+    const failed = remaining.filter((status) => status === "failed").length
+    yield* logger.apply.planInfo({
+      createdAt: savedPlan.createdAt,
+      pending: remaining.length - failed,
+      completed: Object.values(savedPlan.moves).filter((m) => m.status === "completed").length + finished.length,
+      failed,
+    })
+
+    if (unfinished.length === 0) {
+      yield* logger.apply.noMovesRemaining
+      if (!options.dryRun) {
+        yield* retirePlan(planPath)
+      }
       return
     }
 
-    // Execute the plan script
-    yield* Console.log(`\n📂 Executing plan script: ${scriptPath}\n`)
+    // Check the plan still matches the filesystem before moving anything
+    yield* logger.apply.validatingPlan
+    const targetDisks = yield* diskService.discover([...new Set(unfinished.map((m) => m.targetDiskPath))])
+    const validation = yield* validatePlan(unfinished, savedPlan.diskStats, targetDisks, started)
 
-    if (options.dryRun) {
-      yield* Console.log(`🧪 DRY RUN MODE - showing what would be executed:\n`)
-      const scriptContent = yield* fs.readFileString(scriptPath)
-      yield* Console.log(scriptContent)
-      yield* Console.log(`\n✓ Dry run complete\n`)
+    if (validation.missingSources.length > 0) {
+      yield* logger.apply.missingSourceFiles(validation.missingSources)
+    } else {
+      yield* logger.apply.allSourceFilesExist(unfinished.length)
+    }
+    if (validation.conflicts.length > 0) {
+      yield* logger.apply.conflicts(validation.conflicts)
+    } else {
+      yield* logger.apply.noConflicts
+    }
+    if (validation.insufficientSpace.length > 0) {
+      yield* logger.apply.insufficientSpace(validation.insufficientSpace)
+    } else {
+      yield* logger.apply.sufficientSpace
+    }
+    if (validation.diskStatsChanges.length > 0) {
+      yield* logger.apply.diskStatsChanged
+      yield* logger.apply.diskStatsChangedWarning(validation.diskStatsChanges)
+    }
+
+    if (validation.stale.size > 0 && options.onStale === "abort") {
+      yield* logger.apply.staleAborted(validation.stale.size)
+      return
+    }
+    if (validation.stale.size > 0) {
+      yield* logger.apply.staleSkipped(validation.stale.size)
+      if (!options.dryRun) {
+        yield* planStorage.updateMoveStatuses(
+          planPath,
+          [...validation.stale].map(([sourceAbsPath, reason]): MoveStatusUpdate => ({
+            sourceAbsPath,
+            status: "skipped",
+            error: reason,
+          }))
+        )
+      }
+    } else {
+      yield* logger.apply.planValidated
+    }
+
+    const moves = unfinished.filter((m) => !validation.stale.has(m.file.absolutePath))
+
+    const plan = createMovePlan(moves)
+
+    if (plan.moves.length === 0) {
+      yield* logger.apply.noMovesRemaining
+      if (!options.dryRun) {
+        yield* retirePlan(planPath)
+      }
       return
     }
 
-    // Execute the script
-    const result = yield* Effect.promise(() => Bun.$`bash ${scriptPath}`.quiet())
+    if (options.dryRun) {
+      yield* logger.apply.dryRunMode
+      const pairs = new Map<string, number>()
+      for (const move of plan.moves) {
+        const pair = `${move.file.diskPath} → ${move.targetDiskPath}`
+        pairs.set(pair, (pairs.get(pair) ?? 0) + 1)
+      }
+      yield* Effect.forEach(pairs, ([pair, count]) => Console.log(`   ${pair} (${count} files)`), { discard: true })
+    }
+
+    yield* logger.apply.executing(plan.moves.length, options.concurrency)
+
+    // Directory attributes are gone once the files leave, so record them first
+    const directories = options.pruneEmptyDirs && !options.dryRun ? yield* snapshotDirectories(plan.moves) : undefined
+
+    // Live progress per target disk: redrawn in place on a terminal,
+    // periodic plain lines when output goes to a log
+    const tracker = createTransferProgressTracker(plan.summary.bytesPerDisk)
+    const interactive = process.stdout.isTTY === true
+    const render = Effect.suspend(() =>
+      interactive ? ui.updateProgress(tracker.snapshot()) : ui.logProgress(tracker.snapshot())
+    )
+    const showProgress = !options.dryRun
+
+    if (showProgress && interactive) {
+      yield* ui.startProgress(plan.summary.bytesPerDisk.size)
+    }
+    const renderer = yield* Effect.fork(
+      showProgress
+        ? Effect.forever(Effect.delay(render, interactive ? "1 second" : "30 seconds"))
+        : Effect.void
+    )
+
+    // Statuses are written as each batch finishes, so a crash loses at most
+    // the batches still running
+    const outcomes: MoveStatusUpdate[] = []
+    const recordBatch = (results: readonly TransferResult[]) =>
+      pipe(
+        Effect.forEach(results, (r) => settle(r.move, r.success, r.error)),
+        Effect.tap((updates) => Effect.sync(() => outcomes.push(...updates))),
+        Effect.flatMap((updates) => planStorage.updateMoveStatuses(planPath, updates)),
+        Effect.catchAll((e) => Effect.logWarning(`Could not record move status in ${planPath}: ${e._tag}`))
+      )
+
+    const report = yield* pipe(
+      transferService.executeAll(plan, {
+        dryRun: options.dryRun,
+        concurrency: options.concurrency,
+        sourceConcurrency: options.sourceConcurrency,
+        targetConcurrency: options.targetConcurrency,
+        preserveAttrs: true,
+        deleteSource: true,
+        verify: options.verify,
+        onBatchProgress: tracker.update,
+        // A move in progress may leave its copy behind if apply stops
+        onBatchStart: (batchMoves) =>
+          pipe(
+            planStorage.updateMoveStatuses(
+              planPath,
+              batchMoves.map((m): MoveStatusUpdate => ({ sourceAbsPath: m.file.absolutePath, status: "in_progress" }))
+            ),
+            Effect.catchAll((e) => Effect.logWarning(`Could not record move status in ${planPath}: ${e._tag}`))
+          ),
+        onBatchComplete: recordBatch,
+        // Sources can still change while earlier batches run
+        checkBatch: (batchMoves) =>
+          findChangedSources(batchMoves).pipe(Effect.provideService(FileSystem.FileSystem, fs)),
+      }),
+      Effect.ensuring(
+        pipe(
+          Fiber.interrupt(renderer),
+          Effect.zipRight(showProgress ? render : Effect.void),
+          Effect.zipRight(showProgress && interactive ? ui.endProgress() : Effect.void)
+        )
+      )
+    )
+
+    const failures = outcomes.filter((u) => u.status === "failed")
+    const changed = outcomes.filter((u) => u.status === "skipped")
+    const successful = options.dryRun ? report.successful : outcomes.filter((u) => u.status === "completed").length
+
+    yield* logger.apply.transferStats(successful, failures.length, report.skipped)
+    if (report.verification) {
+      yield* logger.apply.verificationSummary(report.verification.verified, report.verification.mismatched)
+    }
+    if (changed.length > 0) {
+      yield* logger.apply.changedSinceValidation(changed.map((u) => `${u.sourceAbsPath}: ${u.error ?? "changed"}`))
+    }
+    if (directories) {
+      const completed = new Set(outcomes.filter((u) => u.status === "completed").map((u) => u.sourceAbsPath))
+      const pruned = yield* pruneEmptyDirectories(
+        plan.moves.filter((m) => completed.has(m.file.absolutePath)),
+        directories
+      )
+      yield* logger.apply.prunedDirectories(pruned.removed.length, pruned.kept)
+    }
+    yield* logger.apply.transferComplete(options.dryRun)
+
+    if (failures.length > 0) {
+      // A failed batch marks all of its moves with the same error
+      const errors = new Set(failures.flatMap((u) => (u.error ? [u.error] : [])))
+      yield* Effect.forEach(errors, (error) => Console.error(`   ❌ ${error}`), { discard: true })
+      yield* logger.apply.someFailedRetry
+    } else if (!options.dryRun) {
+      yield* logger.apply.allComplete
+      yield* retirePlan(planPath)
+    }
+  })
+
+/**
+ * Set a finished plan aside as <plan>.applied.db, replacing the last one, so
+ * the next 'plan' starts clean and 'plan --undo' can still reverse it.
+ * Deletes the plan if it cannot be renamed.
+ */
+const retirePlan = (planPath: string) =>
+  Effect.gen(function* () {
+    const logger = yield* LoggerServiceTag
+    const planStorage = yield* PlanStorageServiceTag
+    const fs = yield* FileSystem.FileSystem
 
-    yield* Console.log(`\n✅ Plan execution complete!\n`)
+    const appliedPath = `${planPath.replace(/\.db$/, "")}.applied.db`
+    yield* pipe(
+      fs.rename(planPath, appliedPath),
+      Effect.zipRight(logger.apply.planKept(appliedPath)),
+      Effect.catchAll(() => pipe(planStorage.delete(planPath), Effect.zipRight(logger.apply.planDeleted)))
+    )
   })
 
 // =============================================================================
@@ -638,7 +1205,7 @@ export const runShow = (options: { planFile: string | undefined }) =>
 
     yield* logger.show.planInfo({
       createdAt: savedPlan.createdAt,
-      source: savedPlan.sourceDisk,
+      sourceDisk: savedPlan.sourceDisk,
       totalMoves: allMoves.length,
       pending: pendingMoves.length,
       completed: completedMoves.length,
@@ -649,6 +1216,66 @@ export const runShow = (options: { planFile: string | undefined }) =>
     yield* displayPlanDetails(savedPlan)
   })
 
+// =============================================================================
+// Export command handler
+// =============================================================================
+
+/**
+ * Write the moves that are still to run as a standalone bash script of rsync
+ * commands, for running or auditing outside this tool.
+ */
+export const runExport = (options: ExportOptions) =>
+  Effect.gen(function* () {
+    const logger = yield* LoggerServiceTag
+    const planStorage = yield* PlanStorageServiceTag
+    const fs = yield* FileSystem.FileSystem
+
+    const planPath = options.planFile ?? planStorage.defaultPath
+    const scriptPath = options.output ?? `${planPath.replace(/\.db$/, "")}.sh`
+
+    const exists = yield* planStorage.exists(planPath)
+    if (!exists) {
+      yield* logger.export.noPlanFound(planPath)
+      return
+    }
+
+    const savedPlan = yield* planStorage.load(planPath)
+    const moves = movesToResume(savedPlan)
+
+    const script = yield* PlanScriptGenerator.generate({
+      moves,
+      sourceDisk: savedPlan.sourceDisk,
+      diskStats: savedPlan.diskStats,
+      concurrency: options.concurrency,
+    })
+    yield* fs.writeFileString(scriptPath, script)
+    yield* pipe(fs.chmod(scriptPath, 0o755), Effect.catchAll(() => Effect.void))
+    yield* logger.export.exported(scriptPath, moves.length)
+  })
+
+// =============================================================================
+// Cache command handlers
+// =============================================================================
+
+export const runCacheStats = (options: CacheOptions) =>
+  Effect.gen(function* () {
+    const logger = yield* LoggerServiceTag
+    const scanCache = yield* ScanCacheServiceTag
+
+    const stats = yield* scanCache.stats(options.cacheFile ?? scanCache.defaultPath)
+    yield* logger.cache.stats(stats)
+  })
+
+export const runCacheClear = (options: CacheOptions) =>
+  Effect.gen(function* () {
+    const logger = yield* LoggerServiceTag
+    const scanCache = yield* ScanCacheServiceTag
+
+    const cachePath = options.cacheFile ?? scanCache.defaultPath
+    yield* scanCache.clear(cachePath)
+    yield* logger.cache.cleared(cachePath)
+  })
+
 // =============================================================================
 // Full live layer
 // =============================================================================
@@ -662,10 +1289,14 @@ export const createAppLayer = () => {
         ScannerServiceLive,
         Layer.provide(GlobServiceLive),
         Layer.provide(FileStatServiceLive),
+        Layer.provide(SqliteScanCacheService),
         Layer.provide(BunContext.layer)
       ),
-      pipe(RsyncTransferService, Layer.provide(ShellServiceLive)),
-      SqlitePlanStorageService
+      pipe(RsyncTransferService, Layer.provide(ShellServiceLive), Layer.provide(ChecksumServiceLive)),
+      SqlitePlanStorageService,
+      SqliteScanCacheService,
+      pipe(ShareConfigServiceLive, Layer.provide(BunContext.layer)),
+      TerminalUIServiceLive
     )
   )
 }
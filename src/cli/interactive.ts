@@ -9,6 +9,7 @@ import type { Terminal, QuitException } from "@effect/platform/Terminal"
 import type { PlanOptions } from "./options"
 import type { Disk } from "../domain/Disk"
 import { selectDirectoriesEffect } from "./treeSelect"
+import { DEFAULT_STRATEGY, STRATEGY_NAMES, packingStrategies } from "../services/PackingStrategy"
 
 /**
  * Run interactive prompts to gather plan options from user.
@@ -55,7 +56,7 @@ export const interactivePlanPrompts = (
 
     // Min space
     const minSpace = yield* Prompt.text({
-      message: "Min free space per disk",
+      message: "Min free space per disk (size or %, e.g. 5%,disk1=200GB)",
       default: "50MB",
     })
 
@@ -80,7 +81,7 @@ export const interactivePlanPrompts = (
 
     // Include patterns
     const include = yield* Prompt.text({
-      message: "File patterns to include (e.g., *.mkv,*.mp4, empty for all)",
+      message: "File patterns to include - matching folders move whole (e.g., *.mkv,*.mp4, empty for all)",
       default: "",
     }).pipe(Effect.map((s) => (s.trim() === "" ? undefined : s.trim())))
 
@@ -102,11 +103,45 @@ export const interactivePlanPrompts = (
       default: "0.9",
     })
 
+    // Grouping depth
+    const groupDepth = yield* Prompt.text({
+      message: "Keep folders this deep below each path filter together (e.g. 1 for whole shows, blank for none)",
+      default: "",
+    }).pipe(Effect.map((s) => (s.trim() === "" ? undefined : s.trim())))
+
+    // Plan mode
+    const mode = yield* Prompt.select({
+      message: "Plan mode",
+      choices: [
+        { title: "consolidate", value: "consolidate" as const, description: "Pack data onto as few disks as possible" },
+        { title: "balance", value: "balance" as const, description: "Level every disk to a similar fill percentage" },
+        { title: "gather", value: "gather" as const, description: "Re-unite folders spread over several disks" },
+      ],
+    })
+
+    // Balance tolerance (balance mode only)
+    const tolerance = mode === "balance"
+      ? yield* Prompt.text({
+          message: "Allowed distance from the average fill",
+          default: "5%",
+        })
+      : undefined
+
+    // Packing strategy (consolidate mode only, default first)
+    const strategy = mode !== "consolidate" ? undefined : yield* Prompt.select({
+      message: "Packing strategy",
+      choices: [DEFAULT_STRATEGY, ...STRATEGY_NAMES.filter((name) => name !== DEFAULT_STRATEGY)].map((name) => ({
+        title: name,
+        value: name,
+        description: packingStrategies[name].description,
+      })),
+    })
+
     // Plan file
     const planFile = yield* Prompt.text({
-      message: "Plan script path [/config/plan.sh]",
-      default: "/config/plan.sh",
-    }).pipe(Effect.map((s) => (s.trim() === "" || s.trim() === "/config/plan.sh" ? undefined : s.trim())))
+      message: "Plan file path [/config/plan.db]",
+      default: "/config/plan.db",
+    }).pipe(Effect.map((s) => (s.trim() === "" || s.trim() === "/config/plan.db" ? undefined : s.trim())))
 
     // Force overwrite
     const force = yield* Prompt.confirm({
@@ -132,6 +167,10 @@ export const interactivePlanPrompts = (
       exclude,
       minSplitSize,
       moveAsFolderThreshold,
+      groupDepth,
+      strategy,
+      mode,
+      tolerance,
       planFile,
       force,
       debug,
@@ -8,6 +8,7 @@
  */
 
 import { Options } from "@effect/cli"
+import { STRATEGY_NAMES, type StrategyName } from "../services/PackingStrategy"
 
 // =============================================================================
 // Plan Command Options
@@ -39,10 +40,24 @@ export const dest = Options.text("dest").pipe(
  * Minimum free space to leave on each disk after moves.
  * Prevents filling destination disks completely.
  *
- * Accepts human-readable sizes: 50MB, 1GB, 500K, etc.
+ * Accepts human-readable sizes (50MB, 1GB) or a percentage of each disk
+ * (5%), followed by per-disk overrides.
+ *
+ * @example "5%,disk1=200GB,disk9=2%"
  */
 export const minSpace = Options.text("min-space").pipe(
-  Options.withDescription("Min free space to leave on each disk (e.g., 50MB, 1GB)"),
+  Options.withDescription("Min free space to leave on each disk (e.g., 50MB, 5%, 5%,disk1=200GB)"),
+  Options.optional
+)
+
+/**
+ * Fill ceiling for every disk. Raises each disk's min-space reservation to
+ * whatever keeps the disk at or below this fill.
+ *
+ * @example "95%"
+ */
+export const maxFill = Options.text("max-fill").pipe(
+  Options.withDescription("Never fill a disk above this percentage (e.g., 95%)"),
   Options.optional
 )
 
@@ -72,6 +87,9 @@ export const pathFilter = Options.text("path-filter").pipe(
  * Only folders containing matching files will be considered.
  * The entire folder moves together, including non-matching files.
  *
+ * Patterns without a "/" match the file name ("*.mkv"); patterns with a "/"
+ * match the path relative to the disk root ("media/Movies/**").
+ *
  * @example "*.mkv,*.mp4" - only move video folders
  * @example "*.flac,*.mp3" - only move music folders
  */
@@ -81,12 +99,117 @@ export const include = Options.text("include").pipe(
 )
 
 /**
- * Patterns to exclude from scanning (comma-separated).
+ * Patterns to exclude from scanning (comma-separated, .gitignore syntax).
+ * Combined with the `.binpackignore` file at each disk root, if present.
+ *
+ * "name" matches at any depth, "dir/" matches directories only,
+ * "/path" or "a/b" is anchored to the disk root, "!pattern" re-includes.
  *
- * @example ".DS_Store,*.tmp,@eaDir"
+ * @example ".DS_Store,*.tmp,@eaDir/"
+ * @example "*.part,!keep.part"
  */
 export const exclude = Options.text("exclude").pipe(
-  Options.withDescription("Patterns to exclude (e.g., '.DS_Store,@eaDir')"),
+  Options.withDescription("Gitignore-style patterns to exclude (e.g., '.DS_Store,*.tmp,@eaDir/')"),
+  Options.optional
+)
+
+/**
+ * Ignore the scan cache and list every directory again.
+ * The cache is rebuilt from the fresh walk.
+ */
+export const rescan = Options.boolean("rescan").pipe(
+  Options.withDescription("Ignore the scan cache and walk every directory"),
+  Options.withDefault(false)
+)
+
+/**
+ * Path to the scan cache database. Directories whose mtime is unchanged
+ * since the last scan are reused from it instead of being listed again.
+ *
+ * @default /config/scan-cache.db
+ */
+export const cacheFile = Options.file("cache-file").pipe(
+  Options.withDescription("Path to scan cache database"),
+  Options.optional
+)
+
+/**
+ * Directory of Unraid share settings (<share>.cfg). Each share's included
+ * and excluded disks, split level and minimum free space constrain where
+ * its files may be placed. Ignored when the directory does not exist.
+ *
+ * @default /boot/config/shares
+ */
+export const sharesDir = Options.directory("shares-dir").pipe(
+  Options.withDescription("Unraid share settings to honour (default: /boot/config/shares)"),
+  Options.optional
+)
+
+// =============================================================================
+// Plan Mode Options
+// =============================================================================
+
+export const PLAN_MODES = ["consolidate", "balance", "gather"] as const
+
+export type PlanMode = (typeof PLAN_MODES)[number]
+
+/**
+ * What the plan aims for.
+ * consolidate packs data onto as few disks as possible; balance levels every
+ * disk to a similar fill percentage; gather moves the parts of folders that
+ * are spread over several disks onto one of them.
+ *
+ * @default consolidate
+ */
+export const mode = Options.choice("mode", PLAN_MODES).pipe(
+  Options.withDescription("Plan mode: consolidate, balance or gather (default: consolidate)"),
+  Options.optional
+)
+
+/**
+ * Empty this disk completely, e.g. before replacing a failing drive.
+ * Every file on it is planned regardless of the file filters; if anything
+ * does not fit on the other disks, planning fails and lists what was left.
+ *
+ * Accepts a disk name or path: "disk7" or "/mnt/disk7".
+ */
+export const evacuate = Options.text("evacuate").pipe(
+  Options.withDescription("Empty this disk completely or fail (e.g., disk7)"),
+  Options.optional
+)
+
+/**
+ * End state to reach while moving as little data as possible, instead of
+ * packing destinations as full as they go.
+ *
+ * @example "free:disk3"   - empty that disk
+ * @example "free:2"       - empty the two disks that are cheapest to empty
+ * @example "max-fill:90%" - bring every disk to at most 90% full
+ */
+export const goal = Options.text("goal").pipe(
+  Options.withDescription("Reach this end state moving the fewest bytes (free:disk3, free:2, max-fill:90%)"),
+  Options.optional
+)
+
+/**
+ * Plan moving the completed moves of an earlier plan back to their original
+ * disks. Apply keeps each finished plan as <plan>.applied.db for this.
+ *
+ * @example "/config/plan.applied.db"
+ */
+export const undo = Options.file("undo").pipe(
+  Options.withDescription("Plan moving an earlier plan's completed moves back (e.g., /config/plan.applied.db)"),
+  Options.optional
+)
+
+/**
+ * How far a disk's fill may be from the array average in balance mode,
+ * in percentage points.
+ *
+ * @default 5%
+ */
+export const tolerance = Options.text("tolerance").pipe(
+  Options.withDescription("Balance mode: allowed distance from the average fill (e.g., 5%)"),
   Options.optional
 )
 
@@ -105,6 +228,22 @@ export const minSplitSize = Options.text("min-split-size").pipe(
   Options.optional
 )
 
+/**
+ * Keep whole folders at a depth below a path prefix together, e.g. each TV
+ * show rather than each season. A folder that fits on no destination is
+ * packed in the usual smaller groups instead.
+ *
+ * A bare depth applies below every --path-filter prefix; prefix=depth
+ * entries set it per prefix.
+ *
+ * @example "1"                          - each show, movie, anime series
+ * @example "/media/TV=1,/media/Movies=1" - per prefix
+ */
+export const groupDepth = Options.text("group-depth").pipe(
+  Options.withDescription("Keep folders this deep below each path filter together (e.g., 1 or /media/TV=1)"),
+  Options.optional
+)
+
 /**
  * If the largest file in a folder is >= this percentage of the folder size,
  * the folder is treated as a unit (movie-like) and not split.
@@ -116,6 +255,31 @@ export const moveAsFolderThreshold = Options.text("move-as-folder-threshold").pi
   Options.optional
 )
 
+/**
+ * How units are assigned to destination disks.
+ * simple fills one destination at a time as tightly as possible; ffd, bfd
+ * and worst-fit place the largest unit first on the first, tightest or
+ * emptiest disk with room.
+ *
+ * @default simple
+ */
+export const strategy = Options.choice("strategy", STRATEGY_NAMES).pipe(
+  Options.withDescription("Packing strategy: simple, ffd, bfd or worst-fit (default: simple)"),
+  Options.optional
+)
+
+/**
+ * Time the exact packing solver may spend filling one destination disk.
+ * When it runs out, the best fill found so far is compared with the
+ * bucket-sampling heuristic and the better one is used.
+ *
+ * @default 1000
+ */
+export const solverTimeBudget = Options.integer("solver-time-budget").pipe(
+  Options.withDescription("Milliseconds the exact solver may spend per destination (default: 1000)"),
+  Options.optional
+)
+
 // =============================================================================
 // Apply Command Options
 // =============================================================================
@@ -131,6 +295,69 @@ export const concurrency = Options.integer("concurrency").pipe(
   Options.withDefault(4)
 )
 
+/**
+ * Parallel transfers reading from the same source disk.
+ * Unraid array disks are single spindles, so more than one rsync per disk
+ * mostly adds seeking.
+ *
+ * @default 1
+ */
+export const sourceConcurrency = Options.integer("source-concurrency").pipe(
+  Options.withDescription("Parallel transfers per source disk (default: 1)"),
+  Options.withDefault(1)
+)
+
+/**
+ * Parallel transfers writing to the same target disk.
+ *
+ * @default 1
+ */
+export const targetConcurrency = Options.integer("target-concurrency").pipe(
+  Options.withDescription("Parallel transfers per target disk (default: 1)"),
+  Options.withDefault(1)
+)
+
+export const STALE_POLICIES = ["abort", "skip"] as const
+
+export type StalePolicy = (typeof STALE_POLICIES)[number]
+
+/**
+ * What to do when validation finds moves the filesystem no longer matches:
+ * a source that is gone or changed size, a destination that already exists,
+ * or a target without the room the plan assumed.
+ * abort refuses to start; skip marks those moves skipped and runs the rest.
+ *
+ * @default abort
+ */
+export const onStale = Options.choice("on-stale", STALE_POLICIES).pipe(
+  Options.withDescription("When moves no longer match the filesystem: abort or skip them (default: abort)"),
+  Options.withDefault("abort" as const)
+)
+
+/**
+ * Checksum each copy before its source is removed. Files are copied first,
+ * both ends hashed (SHA-256), and only matching sources deleted; mismatches
+ * fail and keep the source. Reads every file twice, so it is much slower.
+ *
+ * @default false
+ */
+export const verify = Options.boolean("verify").pipe(
+  Options.withDescription("Checksum copies and remove sources only when they match"),
+  Options.withDefault(false)
+)
+
+/**
+ * Remove the source directories that moves left empty. Only directories that
+ * held a moved file are removed; the matching new directories on the target
+ * disks get the originals' mode and mtime.
+ *
+ * @default false
+ */
+export const pruneEmptyDirs = Options.boolean("prune-empty-dirs").pipe(
+  Options.withDescription("Remove source directories left empty by the moves"),
+  Options.withDefault(false)
+)
+
 /**
  * Show what would be transferred without actually doing it.
  * Runs rsync with --dry-run flag.
@@ -140,6 +367,20 @@ export const dryRun = Options.boolean("dry-run").pipe(
   Options.withDefault(false)
 )
 
+// =============================================================================
+// Export Command Options
+// =============================================================================
+
+/**
+ * Where to write the exported rsync script.
+ *
+ * @default the plan file with a .sh extension (/config/plan.sh)
+ */
+export const output = Options.file("output").pipe(
+  Options.withDescription("Path to write the rsync script"),
+  Options.optional
+)
+
 /**
  * Enable debug logging for troubleshooting.
  */
@@ -148,17 +389,31 @@ export const debug = Options.boolean("debug").pipe(
   Options.withDefault(false)
 )
 
+// =============================================================================
+// Analyze Command Options
+// =============================================================================
+
+/**
+ * Print the fragmentation report as JSON instead of tables, for scripts and
+ * dashboards.
+ */
+export const json = Options.boolean("json").pipe(
+  Options.withDescription("Print the report as JSON"),
+  Options.withDefault(false)
+)
+
 // =============================================================================
 // Shared Options
 // =============================================================================
 
 /**
- * Path to the plan script. Used to save (plan) or execute (apply) the move plan.
+ * Path to the plan database. Written by plan, read by show, apply and export;
+ * apply records the status of each move in it.
  *
- * @default /config/plan.sh
+ * @default /config/plan.db
  */
 export const planFile = Options.file("plan-file").pipe(
-  Options.withDescription("Path to plan script"),
+  Options.withDescription("Path to plan database"),
   Options.optional
 )
 
@@ -178,22 +433,64 @@ export const force = Options.boolean("force").pipe(
 export interface PlanOptions {
   readonly src: string | undefined         // auto-select least full if undefined
   readonly dest: string | undefined        // auto-discover if undefined
-  readonly minSpace: string | undefined    // parsed with parseSize()
+  readonly minSpace: string | undefined    // parsed with parseReservation()
+  readonly maxFill?: string | undefined    // parsed with parsePercent()
   readonly minFileSize: string | undefined // parsed with parseSize()
   readonly pathFilter: string | undefined  // comma-separated path prefixes
   readonly include: string | undefined
   readonly exclude: string | undefined
   readonly minSplitSize: string | undefined            // parsed with parseSize()
   readonly moveAsFolderThreshold: string | undefined   // parsed with parseFloat()
+  readonly groupDepth?: string | undefined             // parsed with parseGroupingRules()
   readonly planFile: string | undefined
   readonly force: boolean                  // overwrite existing partial plan
   readonly debug?: boolean                 // enable debug-level logging (optional)
+  readonly rescan?: boolean                // ignore the scan cache
+  readonly cacheFile?: string | undefined
+  readonly sharesDir?: string | undefined
+  readonly solverTimeBudget?: number | undefined // milliseconds per destination
+  readonly strategy?: StrategyName | undefined
+  readonly mode?: PlanMode | undefined
+  readonly tolerance?: string | undefined  // parsed with parsePercent()
+  readonly evacuate?: string | undefined   // disk name or path to empty completely
+  readonly goal?: string | undefined       // parsed with parseGoal()
+  readonly undo?: string | undefined       // earlier plan to reverse
+}
+
+export interface AnalyzeOptions {
+  readonly dest: string | undefined        // auto-discover if undefined
+  readonly minSpace: string | undefined    // parsed with parseReservation()
+  readonly maxFill: string | undefined     // parsed with parsePercent()
+  readonly minFileSize: string | undefined // parsed with parseSize()
+  readonly pathFilter: string | undefined  // comma-separated path prefixes
+  readonly include: string | undefined
+  readonly exclude: string | undefined
+  readonly groupDepth: string | undefined  // parsed with parseGroupingRules()
+  readonly rescan: boolean                 // ignore the scan cache
+  readonly cacheFile: string | undefined
+  readonly json: boolean
+  readonly debug: boolean
+}
+
+export interface CacheOptions {
+  readonly cacheFile: string | undefined
 }
 
 export interface ApplyOptions {
   readonly planFile: string | undefined
   readonly concurrency: number
+  readonly sourceConcurrency: number
+  readonly targetConcurrency: number
   readonly dryRun: boolean
+  readonly onStale: StalePolicy
+  readonly verify: boolean
+  readonly pruneEmptyDirs: boolean
+}
+
+export interface ExportOptions {
+  readonly planFile: string | undefined
+  readonly output: string | undefined
+  readonly concurrency: number
 }
 
 // =============================================================================
@@ -206,9 +503,23 @@ export interface ApplyOptions {
  * --src                      (auto)   Least full disk at /mnt/disk*
  * --dest                     (auto)   All other disks at /mnt/disk*
  * --min-space                50MB     Keep 50MB free on each disk
+ * --max-fill                 (none)   No fill ceiling beyond min-space
  * --min-file-size            1MB      Only move files >= 1MB
  * --path-filter              /media/* Only move files in /media/Movies,TV,Anime
  * --min-split-size           1GB      Never split folders < 1GB
  * --move-as-folder-threshold 0.9      Keep folder if one file is 90%+
+ * --group-depth              (none)   Group by immediate folder
+ * --shares-dir               /boot/config/shares Honour each share's disks, split level and floor
+ * --mode                     consolidate Pack data onto as few disks as possible
+ * --tolerance                5%       Balance mode: within 5 points of the average
+ * --evacuate                 (none)   Empty one disk completely or fail
+ * --goal                     (none)   Fill destinations rather than minimize bytes moved
+ * --strategy                 simple   Fill one destination at a time
+ * --solver-time-budget       1000     1s of exact search per destination
  * --concurrency              4        4 parallel transfers
+ * --source-concurrency       1        1 transfer per source disk
+ * --target-concurrency       1        1 transfer per target disk
+ * --on-stale                 abort    Refuse to apply a plan the filesystem no longer matches
+ * --verify                   false    Trust rsync's own transfer checks
+ * --prune-empty-dirs         false    Leave emptied source directories in place
  */
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test"
-import { canFit, usagePercent, usedBytes, type Disk } from "./Disk"
+import { canFit, isArrayDisk, reservedBytes, usagePercent, usedBytes, type Disk } from "./Disk"
+import { parseReservation } from "../lib/parseSize"
 
 const makeDisk = (total: number, free: number): Disk => ({
   path: "/mnt/disk1",
@@ -8,6 +9,11 @@ const makeDisk = (total: number, free: number): Disk => ({
 })
 
 describe("Disk", () => {
+  test("isArrayDisk leaves out unassigned devices", () => {
+    expect(isArrayDisk(makeDisk(1000, 400))).toBe(true)
+    expect(isArrayDisk({ ...makeDisk(1000, 400), path: "/mnt/disks" })).toBe(false)
+  })
+
   test("usedBytes", () => {
     expect(usedBytes(makeDisk(1000, 400))).toBe(600)
   })
@@ -26,4 +32,18 @@ describe("Disk", () => {
     expect(canFit(disk, 200, 0)).toBe(true) // exact fit, no threshold
     expect(canFit(disk, 201, 0)).toBe(false) // too big
   })
+
+  test("reservedBytes uses the per-disk override, else the default", () => {
+    const reservation = parseReservation("10%,disk1=50")
+
+    expect(reservedBytes(makeDisk(1000, 500), reservation)).toBe(50)
+    expect(reservedBytes({ ...makeDisk(1000, 500), path: "/mnt/disk2" }, reservation)).toBe(100)
+  })
+
+  test("reservedBytes is raised to what a max-fill ceiling leaves free", () => {
+    const reservation = parseReservation("50")
+
+    expect(reservedBytes(makeDisk(1000, 500), reservation, 95)).toBe(50)
+    expect(reservedBytes(makeDisk(1000, 500), reservation, 90)).toBe(100)
+  })
 })
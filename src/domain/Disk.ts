@@ -2,12 +2,19 @@
  * Domain types for disk operations.
  */
 
+import { resolveSpaceAmount, type Reservation } from "../lib/parseSize"
+
 export interface Disk {
   readonly path: string
   readonly totalBytes: number
   readonly freeBytes: number
 }
 
+/** Where Unraid mounts unassigned devices; they are never part of the array */
+export const UNASSIGNED_DEVICES_PATH = "/mnt/disks"
+
+export const isArrayDisk = (disk: Pick<Disk, "path">): boolean => disk.path !== UNASSIGNED_DEVICES_PATH
+
 export const usedBytes = (disk: Disk): number => disk.totalBytes - disk.freeBytes
 
 export const usagePercent = (disk: Disk): number =>
@@ -15,3 +22,15 @@ export const usagePercent = (disk: Disk): number =>
 
 export const canFit = (disk: Disk, bytes: number, threshold: number): boolean =>
   disk.freeBytes - bytes >= threshold
+
+/**
+ * Free space to keep on a disk: its min-space reservation (the per-disk
+ * override, else the default), raised to whatever a max-fill ceiling leaves
+ * free.
+ */
+export const reservedBytes = (disk: Disk, reservation: Reservation, maxFillPct?: number): number => {
+  const amount = reservation.perDisk.get(disk.path) ?? reservation.default
+  const minSpace = resolveSpaceAmount(amount, disk.totalBytes)
+  const ceiling = maxFillPct !== undefined ? Math.ceil((disk.totalBytes * (100 - maxFillPct)) / 100) : 0
+  return Math.max(minSpace, ceiling)
+}
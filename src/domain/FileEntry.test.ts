@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test"
+import { hardlinkKey, uniqueBytes, type FileEntry } from "./FileEntry"
+
+const file = (relativePath: string, sizeBytes: number, link?: { inode: number; linkCount: number }): FileEntry => ({
+  diskPath: "/mnt/disk1",
+  relativePath,
+  absolutePath: `/mnt/disk1/${relativePath}`,
+  sizeBytes,
+  ...(link ? { device: 2049, ...link } : {}),
+})
+
+describe("FileEntry", () => {
+  describe("hardlinkKey", () => {
+    test("is shared by paths with the same device and inode", () => {
+      const a = file("torrents/film.mkv", 100, { inode: 42, linkCount: 2 })
+      const b = file("Movies/Film/film.mkv", 100, { inode: 42, linkCount: 2 })
+      expect(hardlinkKey(a)).toBe("2049:42")
+      expect(hardlinkKey(b)).toBe(hardlinkKey(a))
+    })
+
+    test("is undefined for files with a single link or no link info", () => {
+      expect(hardlinkKey(file("a.mkv", 100))).toBeUndefined()
+      expect(hardlinkKey(file("a.mkv", 100, { inode: 42, linkCount: 1 }))).toBeUndefined()
+    })
+  })
+
+  describe("uniqueBytes", () => {
+    test("counts hardlinked data once", () => {
+      const files = [
+        file("torrents/film.mkv", 100, { inode: 42, linkCount: 2 }),
+        file("Movies/Film/film.mkv", 100, { inode: 42, linkCount: 2 }),
+        file("Movies/Film/poster.jpg", 5),
+      ]
+      expect(uniqueBytes(files)).toBe(105)
+    })
+  })
+})
@@ -11,6 +11,14 @@ export interface FileEntry {
   readonly sizeBytes: number
   /** Disk path this file is on */
   readonly diskPath: string
+  /** Last modification time in ms since the epoch, to notice files replaced after planning */
+  readonly mtimeMs?: number
+  /** Device id of the filesystem holding the file */
+  readonly device?: number
+  /** Inode number - paths sharing device and inode are hardlinks to the same data */
+  readonly inode?: number
+  /** Number of hardlinks to the inode (1 for a file with no other links) */
+  readonly linkCount?: number
 }
 
 /**
@@ -18,3 +26,29 @@ export interface FileEntry {
  */
 export const destinationPath = (file: FileEntry, destDiskPath: string): string =>
   `${destDiskPath}/${file.relativePath}`
+
+/**
+ * Key shared by all paths hardlinked to the same data.
+ * Undefined for files with a single link (or when link info is unknown).
+ */
+export const hardlinkKey = (file: FileEntry): string | undefined =>
+  file.inode !== undefined && (file.linkCount ?? 1) > 1
+    ? `${file.device ?? 0}:${file.inode}`
+    : undefined
+
+/**
+ * Total bytes occupied by the files, counting hardlinked data once.
+ */
+export const uniqueBytes = (files: Iterable<FileEntry>): number => {
+  const seen = new Set<string>()
+  let total = 0
+  for (const file of files) {
+    const key = hardlinkKey(file)
+    if (key !== undefined) {
+      if (seen.has(key)) continue
+      seen.add(key)
+    }
+    total += file.sizeBytes
+  }
+  return total
+}
@@ -1,5 +1,12 @@
 import { describe, expect, test } from "bun:test"
-import { groupByTopLevelFolder, groupByImmediateFolder, sortBySize } from "./FolderGroup"
+import {
+  groupAtDepth,
+  groupByTopLevelFolder,
+  groupByImmediateFolder,
+  parseGroupingRules,
+  ruleDepthFor,
+  sortBySize,
+} from "./FolderGroup"
 import type { FileEntry } from "./FileEntry"
 
 const makeFile = (relativePath: string, sizeBytes: number): FileEntry => ({
@@ -102,6 +109,65 @@ describe("FolderGroup", () => {
     })
   })
 
+  describe("groupAtDepth", () => {
+    test("keeps everything below the depth in one group", () => {
+      const files: FileEntry[] = [
+        makeFile("TV/Show/Season 1/e01.mkv", 2_000_000_000),
+        makeFile("TV/Show/Season 2/e01.mkv", 2_000_000_000),
+        makeFile("TV/Other/e01.mkv", 100),
+      ]
+
+      const groups = groupAtDepth(files, 2)
+
+      expect(groups.map((g) => g.folderPath).sort()).toEqual(["TV/Other", "TV/Show"])
+      expect(groups.find((g) => g.folderPath === "TV/Show")?.totalBytes).toBe(4_000_000_000)
+      expect(groups.every((g) => g.keepTogether)).toBe(true)
+    })
+
+    test("groups shallower files by their immediate folder", () => {
+      const files: FileEntry[] = [makeFile("TV/readme.txt", 10), makeFile("root.txt", 10)]
+
+      const groups = groupAtDepth(files, 2)
+
+      expect(groups.map((g) => g.folderPath).sort()).toEqual(["", "TV"])
+    })
+  })
+
+  describe("parseGroupingRules", () => {
+    test("applies a bare depth below every path prefix", () => {
+      expect(parseGroupingRules("1", ["/media/TV", "/media/Movies/"])).toEqual([
+        { prefix: "media/TV", depth: 1 },
+        { prefix: "media/Movies", depth: 1 },
+      ])
+    })
+
+    test("lets per-prefix depths override the bare depth", () => {
+      expect(parseGroupingRules("2,/media/TV=1", ["/media/TV", "/media/Anime"])).toEqual([
+        { prefix: "media/TV", depth: 1 },
+        { prefix: "media/Anime", depth: 2 },
+      ])
+    })
+
+    test("throws on a depth that is not a positive integer", () => {
+      expect(() => parseGroupingRules("0", [])).toThrow()
+      expect(() => parseGroupingRules("/media/TV=deep", [])).toThrow()
+      expect(() => parseGroupingRules("", [])).toThrow()
+    })
+  })
+
+  describe("ruleDepthFor", () => {
+    const rules = [
+      { prefix: "media", depth: 1 },
+      { prefix: "media/TV", depth: 1 },
+    ]
+
+    test("uses the most specific prefix, counting from the disk root", () => {
+      expect(ruleDepthFor("media/TV/Show/Season 1/e01.mkv", rules)).toBe(3)
+      expect(ruleDepthFor("media/Movies/Film/film.mkv", rules)).toBe(2)
+      expect(ruleDepthFor("backups/archive.tar", rules)).toBeUndefined()
+    })
+  })
+
   describe("groupByTopLevelFolder (deprecated)", () => {
     test("groups files by top-level folder", () => {
       const files: FileEntry[] = [
@@ -35,6 +35,17 @@ export interface FolderGroupOptions {
   readonly folderThreshold: number
 }
 
+/**
+ * Group folders at a fixed depth below a path prefix, e.g. depth 1 under
+ * media/TV keeps each show together and depth 2 each season.
+ */
+export interface GroupingRule {
+  /** Folder relative to the disk root ("" for the disk root itself) */
+  readonly prefix: string
+  /** Folder levels below the prefix that form one group */
+  readonly depth: number
+}
+
 const DEFAULT_OPTIONS: FolderGroupOptions = {
   minSplitSizeBytes: 1024 * 1024 * 1024, // 1GB
   folderThreshold: 0.9,
@@ -90,6 +101,49 @@ export const groupByImmediateFolder = (
   })
 }
 
+/**
+ * Group files by the folder `depth` levels below the disk root, keeping each
+ * group together regardless of size.
+ *
+ * Examples (depth 2):
+ *   TV/Show/Season 1/ep01.mkv  → folder: "TV/Show"
+ *   TV/Show/Season 2/ep01.mkv  → folder: "TV/Show"
+ *   TV/readme.txt              → folder: "TV" (shallower, size heuristics apply)
+ *
+ * Files in folders shallower than the depth are grouped by their immediate
+ * folder with the usual heuristics.
+ */
+export const groupAtDepth = (
+  files: readonly FileEntry[],
+  depth: number,
+  options: FolderGroupOptions = DEFAULT_OPTIONS
+): FolderGroup[] => {
+  const deep = new Map<string, FileEntry[]>()
+  const shallow: FileEntry[] = []
+
+  for (const file of files) {
+    const folders = file.relativePath.split("/").slice(0, -1)
+    if (folders.length < depth) {
+      shallow.push(file)
+      continue
+    }
+    const folder = folders.slice(0, depth).join("/")
+    const existing = deep.get(folder) ?? []
+    existing.push(file)
+    deep.set(folder, existing)
+  }
+
+  const deepGroups = Array.from(deep.entries()).map(([folderPath, folderFiles]) => ({
+    folderPath,
+    files: folderFiles,
+    totalBytes: folderFiles.reduce((sum, f) => sum + f.sizeBytes, 0),
+    largestFileBytes: folderFiles.reduce((max, f) => Math.max(max, f.sizeBytes), 0),
+    keepTogether: true,
+  }))
+
+  return [...groupByImmediateFolder(shallow, options), ...deepGroups]
+}
+
 /**
  * @deprecated Use groupByImmediateFolder instead. This groups too coarsely.
  */
@@ -120,3 +174,67 @@ export const groupByTopLevelFolder = (files: readonly FileEntry[]): FolderGroup[
  */
 export const sortBySize = (folders: readonly FolderGroup[]): FolderGroup[] =>
   [...folders].sort((a, b) => b.totalBytes - a.totalBytes)
+
+// =============================================================================
+// Grouping Rules
+// =============================================================================
+
+const trimSlashes = (path: string): string => path.replace(/^\/+|\/+$/g, "")
+
+/**
+ * Parse a --group-depth value: a depth for every path prefix, per-prefix
+ * depths, or both (a bare depth covers the prefixes not listed).
+ *
+ * @example
+ *   parseGroupingRules("1", ["/media/TV"])               // [{ prefix: "media/TV", depth: 1 }]
+ *   parseGroupingRules("/media/TV=1,/media/Movies=1", [])
+ *   parseGroupingRules("2,/media/TV=1", ["/media/TV", "/media/Anime"])
+ *
+ * @throws Error on a depth that is not a positive integer
+ */
+export const parseGroupingRules = (input: string, pathPrefixes: readonly string[]): GroupingRule[] => {
+  const parseDepth = (value: string): number => {
+    if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+      throw new Error(`Invalid group depth: "${input}". Use formats like: 1, /media/TV=1,/media/Movies=1`)
+    }
+    return parseInt(value, 10)
+  }
+
+  const rules = new Map<string, number>()
+  let defaultDepth: number | undefined
+  for (const entry of input.split(",").map((e) => e.trim()).filter((e) => e !== "")) {
+    const separator = entry.lastIndexOf("=")
+    if (separator === -1) {
+      defaultDepth = parseDepth(entry)
+    } else {
+      rules.set(trimSlashes(entry.slice(0, separator)), parseDepth(entry.slice(separator + 1)))
+    }
+  }
+
+  if (defaultDepth !== undefined) {
+    const prefixes = pathPrefixes.length > 0 ? pathPrefixes.map(trimSlashes) : [""]
+    for (const prefix of prefixes) {
+      if (!rules.has(prefix)) rules.set(prefix, defaultDepth)
+    }
+  }
+
+  if (rules.size === 0) {
+    throw new Error(`Invalid group depth: "${input}". Use formats like: 1, /media/TV=1,/media/Movies=1`)
+  }
+
+  return [...rules].map(([prefix, depth]) => ({ prefix, depth }))
+}
+
+/**
+ * Depth below the disk root at which a file is grouped by the most specific
+ * rule whose prefix contains it, or undefined when no rule applies.
+ */
+export const ruleDepthFor = (relativePath: string, rules: readonly GroupingRule[]): number | undefined => {
+  let best: GroupingRule | undefined
+  for (const rule of rules) {
+    const contains = rule.prefix === "" || relativePath.startsWith(`${rule.prefix}/`)
+    if (contains && (best === undefined || rule.prefix.length > best.prefix.length)) best = rule
+  }
+  if (best === undefined) return undefined
+  return (best.prefix === "" ? 0 : best.prefix.split("/").length) + best.depth
+}
@@ -2,7 +2,7 @@
  * MovePlan - represents a planned file move operation.
  */
 
-import type { FileEntry } from "./FileEntry"
+import { hardlinkKey, uniqueBytes, type FileEntry } from "./FileEntry"
 
 // =============================================================================
 // Types
@@ -16,6 +16,8 @@ export interface FileMove {
   readonly destinationPath: string
   readonly status: MoveStatus
   readonly reason?: string // For skipped/failed moves
+  /** Packing unit (folder or hardlink group) whose moves run or stay together */
+  readonly unitId?: string
 }
 
 export interface MovePlan {
@@ -36,12 +38,14 @@ export interface MoveSummary {
 
 export const createFileMove = (
   file: FileEntry,
-  targetDiskPath: string
+  targetDiskPath: string,
+  unitId?: string
 ): FileMove => ({
   file,
   targetDiskPath,
   destinationPath: `${targetDiskPath}/${file.relativePath}`,
   status: "pending",
+  ...(unitId !== undefined ? { unitId } : {}),
 })
 
 export const skipMove = (move: FileMove, reason: string): FileMove => ({
@@ -50,17 +54,65 @@ export const skipMove = (move: FileMove, reason: string): FileMove => ({
   reason,
 })
 
+// =============================================================================
+// Units
+// =============================================================================
+
+/**
+ * Moves by packing unit, in plan order. Hardlinked paths share a unit even
+ * when the plan recorded none; other moves without a unit stand alone.
+ */
+export const movesByUnit = (moves: readonly FileMove[]): FileMove[][] => {
+  const units: FileMove[][] = []
+  const byKey = new Map<string, FileMove[]>()
+  const keysOf = (move: FileMove) => {
+    const linkKey = hardlinkKey(move.file)
+    return [`unit:${move.unitId ?? move.file.absolutePath}`, ...(linkKey !== undefined ? [`link:${linkKey}`] : [])]
+  }
+
+  for (const move of moves) {
+    const found = [
+      ...new Set(keysOf(move).flatMap((key) => {
+        const unit = byKey.get(key)
+        return unit ? [unit] : []
+      })),
+    ]
+    const unit = found[0] ?? []
+    if (found.length === 0) units.push(unit)
+    unit.push(move)
+    // A hardlink between two units joins them
+    for (const other of found.slice(1)) {
+      unit.push(...other)
+      units.splice(units.indexOf(other), 1)
+    }
+    for (const member of found.length > 1 ? unit : [move]) {
+      for (const key of keysOf(member)) byKey.set(key, unit)
+    }
+  }
+  return units
+}
+
 // =============================================================================
 // Summary computation
 // =============================================================================
 
+/**
+ * Hardlinked paths move together and rsync -H transfers their data once,
+ * so their bytes are only counted once.
+ */
 export const computeSummary = (moves: readonly FileMove[]): MoveSummary => {
   const pendingMoves = moves.filter((m) => m.status === "pending")
+  const seenLinks = new Set<string>()
 
   const { movesPerDisk, bytesPerDisk } = pendingMoves.reduce(
     (acc, move) => {
       const disk = move.targetDiskPath
       acc.movesPerDisk.set(disk, (acc.movesPerDisk.get(disk) ?? 0) + 1)
+
+      const linkKey = hardlinkKey(move.file)
+      if (linkKey !== undefined && seenLinks.has(linkKey)) return acc
+      if (linkKey !== undefined) seenLinks.add(linkKey)
+
       acc.bytesPerDisk.set(disk, (acc.bytesPerDisk.get(disk) ?? 0) + move.file.sizeBytes)
       return acc
     },
@@ -72,7 +124,7 @@ export const computeSummary = (moves: readonly FileMove[]): MoveSummary => {
 
   return {
     totalFiles: pendingMoves.length,
-    totalBytes: pendingMoves.reduce((acc, m) => acc + m.file.sizeBytes, 0),
+    totalBytes: uniqueBytes(pendingMoves.map((m) => m.file)),
     movesPerDisk,
     bytesPerDisk,
   }
@@ -0,0 +1,99 @@
+/**
+ * Domain types for Unraid share settings.
+ *
+ * Unraid keeps each user share's settings in /boot/config/shares/<share>.cfg
+ * as key="value" lines. A user share is a top-level folder on the array
+ * disks, so a file's share is the first segment of its relative path.
+ *
+ * Only the settings that constrain placement are read:
+ *   shareInclude="disk1,disk2"  Disks the share may use (empty: all)
+ *   shareExclude="disk3"        Disks the share may not use
+ *   shareSplitLevel="2"         Folders deeper than this are never split
+ *                               across disks (empty: split anywhere)
+ *   shareFloor="100GB"          Free space to leave on a disk for the share
+ *                               (a bare number is in KB, as Unraid writes it)
+ */
+
+import type { FileEntry } from "./FileEntry"
+import { parseSize } from "../lib/parseSize"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ShareConfig {
+  /** Share name (the top-level folder on each disk) */
+  readonly name: string
+  /** Disks the share may use; empty means every disk */
+  readonly includeDisks: readonly string[]
+  /** Disks the share may not use */
+  readonly excludeDisks: readonly string[]
+  /**
+   * Unraid split level: folders more than this many levels below the disk
+   * root stay on one disk. 0 is manual (nothing is split automatically);
+   * undefined splits any folder.
+   */
+  readonly splitLevel?: number
+  /** Free space to leave on a disk when placing the share's files */
+  readonly floorBytes: number
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const toDiskPaths = (value: string): string[] =>
+  value
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d !== "")
+    .map((d) => (d.startsWith("/") ? d : `/mnt/${d}`))
+
+/**
+ * Parse the contents of a share .cfg file.
+ *
+ * @throws Error when a split level or floor cannot be read
+ */
+export const parseShareConfig = (name: string, content: string): ShareConfig => {
+  const values = new Map<string, string>()
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(\w+)\s*=\s*"?(.*?)"?\s*$/)
+    if (match?.[1] !== undefined) values.set(match[1], match[2] ?? "")
+  }
+
+  const splitLevelValue = values.get("shareSplitLevel") ?? ""
+  if (splitLevelValue !== "" && !/^\d+$/.test(splitLevelValue)) {
+    throw new Error(`Invalid shareSplitLevel "${splitLevelValue}" for share "${name}"`)
+  }
+
+  const floorValue = values.get("shareFloor") ?? ""
+  let floorBytes: number
+  try {
+    floorBytes = floorValue === "" ? 0 : /^\d+$/.test(floorValue) ? parseInt(floorValue, 10) * 1024 : parseSize(floorValue)
+  } catch {
+    throw new Error(`Invalid shareFloor "${floorValue}" for share "${name}"`)
+  }
+
+  return {
+    name,
+    includeDisks: toDiskPaths(values.get("shareInclude") ?? ""),
+    excludeDisks: toDiskPaths(values.get("shareExclude") ?? ""),
+    ...(splitLevelValue !== "" ? { splitLevel: parseInt(splitLevelValue, 10) } : {}),
+    floorBytes,
+  }
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/** The user share a file belongs to ("" for files at the disk root) */
+export const shareOf = (file: FileEntry): string => {
+  const firstSlash = file.relativePath.indexOf("/")
+  return firstSlash === -1 ? "" : file.relativePath.slice(0, firstSlash)
+}
+
+/** Whether the share's include and exclude lists let it use the disk */
+export const shareAllowsDisk = (share: ShareConfig, diskPath: string): boolean =>
+  (share.includeDisks.length === 0 || share.includeDisks.includes(diskPath)) &&
+  !share.excludeDisks.includes(diskPath)
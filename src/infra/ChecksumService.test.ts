@@ -0,0 +1,62 @@
+/**
+ * Tests for ChecksumServiceLive.
+ */
+
+import { describe, expect, test, beforeAll, afterAll } from "bun:test"
+import { Effect, pipe } from "effect"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { ChecksumServiceLive, ChecksumServiceTag } from "./ChecksumService"
+
+let testDir: string
+
+beforeAll(async () => {
+  testDir = await mkdtemp(join(tmpdir(), "checksum-test-"))
+})
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true })
+})
+
+const hash = (path: string) =>
+  pipe(
+    ChecksumServiceTag,
+    Effect.flatMap((svc) => svc.hashFile(path)),
+    Effect.provide(ChecksumServiceLive)
+  )
+
+describe("ChecksumServiceLive", () => {
+  test("hashes file contents with sha256", async () => {
+    const path = join(testDir, "hello.txt")
+    await writeFile(path, "hello")
+
+    expect(await Effect.runPromise(hash(path))).toBe(
+      "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824"
+    )
+  })
+
+  test("identical contents hash the same, different contents do not", async () => {
+    const a = join(testDir, "a.bin")
+    const b = join(testDir, "b.bin")
+    const c = join(testDir, "c.bin")
+    const bytes = new Uint8Array(3 * 1024 * 1024).map((_, i) => i % 251)
+    await writeFile(a, bytes)
+    await writeFile(b, bytes)
+    bytes[bytes.length - 1] = 0
+    await writeFile(c, bytes)
+
+    const [ha, hb, hc] = await Effect.runPromise(Effect.all([hash(a), hash(b), hash(c)]))
+    expect(ha).toBe(hb)
+    expect(hc).not.toBe(ha)
+  })
+
+  test("fails with ChecksumFailed for a missing file", async () => {
+    const path = join(testDir, "missing.bin")
+    const error = await Effect.runPromise(Effect.flip(hash(path)))
+
+    expect(error._tag).toBe("ChecksumFailed")
+    expect(error.path).toBe(path)
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * ChecksumService - content hashes of files, for verifying copies.
+ *
+ * Live implementation streams the file through Bun's SHA-256 hasher, so
+ * multi-gigabyte files are hashed without being read into memory.
+ */
+
+import { Context, Data, Effect, Layer } from "effect"
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class ChecksumFailed extends Data.TaggedError("ChecksumFailed")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+// =============================================================================
+// Service interface
+// =============================================================================
+
+export interface ChecksumService {
+  /** Algorithm name as shown next to hashes, e.g. "sha256" */
+  readonly algorithm: string
+  /** Hex digest of the file's contents */
+  readonly hashFile: (path: string) => Effect.Effect<string, ChecksumFailed>
+}
+
+export class ChecksumServiceTag extends Context.Tag("ChecksumService")<
+  ChecksumServiceTag,
+  ChecksumService
+>() {}
+
+// =============================================================================
+// Live implementation (uses Bun.CryptoHasher)
+// =============================================================================
+
+export const ChecksumServiceLive = Layer.succeed(ChecksumServiceTag, {
+  algorithm: "sha256",
+  hashFile: (path: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const hasher = new Bun.CryptoHasher("sha256")
+        for await (const chunk of Bun.file(path).stream()) {
+          hasher.update(chunk)
+        }
+        return hasher.digest("hex")
+      },
+      catch: (e) => new ChecksumFailed({ path, reason: e instanceof Error ? e.message : String(e) }),
+    }),
+})
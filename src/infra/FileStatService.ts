@@ -5,7 +5,7 @@
  * All errors are caught and converted to typed errors.
  */
 
-import { Context, Data, Effect, Layer, pipe } from "effect"
+import { Context, Data, Effect, Layer, Option, pipe } from "effect"
 import { FileSystem } from "@effect/platform"
 
 // =============================================================================
@@ -31,8 +31,17 @@ export type FileStatError = FileNotFound | FilePermissionDenied | FileStatUnknow
 // Service interface
 // =============================================================================
 
+export interface FileStat {
+  readonly size: number
+  readonly mtimeMs?: number
+  /** Device id, inode and link count - used to detect hardlinks */
+  readonly device?: number
+  readonly inode?: number
+  readonly linkCount?: number
+}
+
 export interface FileStatService {
-  readonly stat: (path: string) => Effect.Effect<{ size: number }, FileStatError>
+  readonly stat: (path: string) => Effect.Effect<FileStat, FileStatError>
 }
 
 export class FileStatServiceTag extends Context.Tag("FileStatService")<
@@ -89,7 +98,13 @@ export const FileStatServiceLive = Layer.effect(
       stat: (path: string) =>
         pipe(
           fs.stat(path),
-          Effect.map((s) => ({ size: Number(s.size) })),
+          Effect.map((s) => ({
+            size: Number(s.size),
+            mtimeMs: Option.getOrUndefined(Option.map(s.mtime, (d) => d.getTime())),
+            device: s.dev,
+            inode: Option.getOrUndefined(s.ino),
+            linkCount: Option.getOrUndefined(s.nlink),
+          })),
           Effect.mapError((e) => toFileStatError(path, e))
         ),
     }))
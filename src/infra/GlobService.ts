@@ -3,9 +3,12 @@
  *
  * Live implementation uses Bun.Glob.
  * All errors from Bun.Glob are caught and converted to typed errors.
+ *
+ * `scan` collects every path into an array; `stream` walks lazily so callers
+ * can process multi-million-file disks without materializing the path list.
  */
 
-import { Context, Data, Effect, Layer } from "effect"
+import { Context, Data, Effect, Layer, Stream } from "effect"
 
 // =============================================================================
 // Typed errors - all possible failures from Bun.Glob
@@ -36,6 +39,13 @@ export interface GlobService {
     cwd: string,
     options?: { onlyFiles?: boolean }
   ) => Effect.Effect<string[], GlobError>
+
+  /** Lazily walk matching paths (relative to cwd) as they are discovered */
+  readonly stream: (
+    pattern: string,
+    cwd: string,
+    options?: { onlyFiles?: boolean }
+  ) => Stream.Stream<string, GlobError>
 }
 
 export class GlobServiceTag extends Context.Tag("GlobService")<
@@ -92,4 +102,12 @@ export const GlobServiceLive = Layer.succeed(GlobServiceTag, {
       },
       catch: (error) => toGlobError(cwd, error),
     }),
+
+  stream: (pattern, cwd, options = {}) =>
+    Stream.suspend(() =>
+      Stream.fromAsyncIterable(
+        new Bun.Glob(pattern).scan({ cwd, onlyFiles: options.onlyFiles ?? true }),
+        (error) => toGlobError(cwd, error)
+      )
+    ),
 })
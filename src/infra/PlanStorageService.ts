@@ -130,6 +130,10 @@ interface SerializedMove {
   readonly targetDisk: string
   readonly destAbsPath: string
   readonly sizeBytes: number
+  /** Source mtime when planned, to notice files replaced before apply */
+  readonly mtimeMs?: number
+  /** Packing unit the move belongs to; its moves run or stay together */
+  readonly unitId?: string
   readonly status: "pending" | "in_progress" | "completed" | "skipped" | "failed"
   readonly reason?: string
 }
@@ -138,13 +142,21 @@ export interface DiskStat {
   readonly totalBytes: number
   readonly freeBytes: number
   readonly bytesToMove: number
+  /** Free space the plan keeps on the disk (min-space, raised by max-fill) */
+  readonly reservedBytes?: number
 }
 
 // =============================================================================
 // Service interface
 // =============================================================================
 
-export type MoveStatus = "completed" | "failed"
+export type MoveStatus = "in_progress" | "completed" | "failed" | "skipped"
+
+export interface MoveStatusUpdate {
+  readonly sourceAbsPath: string
+  readonly status: MoveStatus
+  readonly error?: string
+}
 
 export interface PlanStorageService {
   readonly save: (
@@ -169,9 +181,19 @@ export interface PlanStorageService {
     error?: string
   ) => Effect.Effect<void, PlanStorageError>
 
+  /**
+   * Update many moves in one transaction (e.g. every file of a finished batch).
+   * Nothing is written if any of the moves is not in the plan.
+   */
+  readonly updateMoveStatuses: (
+    path: string,
+    updates: ReadonlyArray<MoveStatusUpdate>
+  ) => Effect.Effect<void, PlanStorageError>
+
   /**
    * Delete the plan file.
-   * Called after all moves complete successfully.
+   * Called when --force replaces a plan, or when a finished plan cannot be
+   * kept as <plan>.applied.db.
    */
   readonly delete: (path: string) => Effect.Effect<void, PlanStorageError>
 
@@ -193,6 +215,8 @@ const serializeMove = (move: FileMove): SerializedMove => ({
   targetDisk: move.targetDiskPath,
   destAbsPath: move.destinationPath,
   sizeBytes: move.file.sizeBytes,
+  mtimeMs: move.file.mtimeMs,
+  unitId: move.unitId,
   status: move.status,
   reason: move.reason,
 })
@@ -0,0 +1,103 @@
+/**
+ * ScanCacheService - persistent index of directory listings between scans.
+ *
+ * Each directory is stored with its mtime, its files (name + size) and its
+ * subdirectory names. A directory whose mtime has not changed since the last
+ * scan can be reused without listing it or stat'ing its files.
+ *
+ * A directory's mtime only changes when entries are added, removed or renamed,
+ * so a file rewritten in place with a new size is not noticed until --rescan.
+ * The same goes for hardlink counts: a link added or removed in another
+ * directory leaves this directory's mtime alone.
+ */
+
+import { Context, Data, type Effect } from "effect"
+
+// =============================================================================
+// Service errors - all possible failure modes
+// =============================================================================
+
+export class ScanCacheReadFailed extends Data.TaggedError("ScanCacheReadFailed")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+export class ScanCacheWriteFailed extends Data.TaggedError("ScanCacheWriteFailed")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+export type ScanCacheError = ScanCacheReadFailed | ScanCacheWriteFailed
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CachedFile {
+  readonly name: string
+  readonly sizeBytes: number
+  readonly mtimeMs?: number
+  /** Only recorded for files with more than one hardlink */
+  readonly device?: number
+  readonly inode?: number
+  readonly linkCount?: number
+}
+
+export interface CachedDirectory {
+  readonly mtimeMs: number
+  readonly files: ReadonlyArray<CachedFile>
+  readonly subdirs: ReadonlyArray<string>
+}
+
+/** Directory listings keyed by path relative to the disk root ("" for the root) */
+export type DiskIndex = ReadonlyMap<string, CachedDirectory>
+
+export interface ScanCacheUpdate {
+  /** Directories listed during this scan (inserted or replaced) */
+  readonly changed: DiskIndex
+  /** Directories that no longer exist on disk */
+  readonly removed: ReadonlyArray<string>
+}
+
+export interface DiskCacheStats {
+  readonly diskPath: string
+  readonly directories: number
+  readonly files: number
+  readonly totalBytes: number
+  readonly scannedAt: string
+}
+
+export interface ScanCacheStats {
+  readonly path: string
+  /** Size of the cache file on disk (0 when it does not exist) */
+  readonly sizeBytes: number
+  readonly disks: ReadonlyArray<DiskCacheStats>
+}
+
+// =============================================================================
+// Service interface
+// =============================================================================
+
+export interface ScanCacheService {
+  /** Load the cached index for a disk (empty when the disk was never scanned) */
+  readonly loadDisk: (path: string, diskPath: string) => Effect.Effect<DiskIndex, ScanCacheError>
+
+  /** Apply the result of a scan to the cached index for a disk */
+  readonly saveDisk: (
+    path: string,
+    diskPath: string,
+    update: ScanCacheUpdate
+  ) => Effect.Effect<void, ScanCacheError>
+
+  readonly stats: (path: string) => Effect.Effect<ScanCacheStats, ScanCacheError>
+
+  /** Delete the cache file */
+  readonly clear: (path: string) => Effect.Effect<void, ScanCacheError>
+
+  readonly defaultPath: string
+}
+
+export class ScanCacheServiceTag extends Context.Tag("ScanCacheService")<
+  ScanCacheServiceTag,
+  ScanCacheService
+>() {}
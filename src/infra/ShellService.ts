@@ -29,7 +29,17 @@ export interface ShellResult {
 // =============================================================================
 
 export interface ShellService {
-  readonly exec: (command: string) => Effect.Effect<ShellResult, ShellError>
+  /**
+   * Run a command and wait for it to exit.
+   *
+   * When onLine is given, stdout is delivered line by line as it arrives
+   * (split on both \r and \n, which progress meters use to redraw) and is not
+   * buffered into the result.
+   */
+  readonly exec: (
+    command: string,
+    onLine?: (line: string) => void
+  ) => Effect.Effect<ShellResult, ShellError>
 }
 
 export class ShellServiceTag extends Context.Tag("ShellService")<
@@ -41,8 +51,27 @@ export class ShellServiceTag extends Context.Tag("ShellService")<
 // Live implementation (uses Bun.spawn)
 // =============================================================================
 
+const streamLines = async (
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> => {
+  const decoder = new TextDecoder()
+  let pending = ""
+
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true })
+    const lines = pending.split(/[\r\n]/)
+    pending = lines.pop() ?? ""
+    for (const line of lines) {
+      if (line.length > 0) onLine(line)
+    }
+  }
+
+  if (pending.length > 0) onLine(pending)
+}
+
 export const ShellServiceLive = Layer.succeed(ShellServiceTag, {
-  exec: (command) =>
+  exec: (command, onLine) =>
     Effect.tryPromise({
       try: async () => {
         const proc = Bun.spawn(["sh", "-c", command], {
@@ -50,8 +79,11 @@ export const ShellServiceLive = Layer.succeed(ShellServiceTag, {
           stderr: "pipe",
         })
 
-        const stdout = await new Response(proc.stdout).text()
-        const stderr = await new Response(proc.stderr).text()
+        // Read both pipes concurrently so neither can fill up and block the process
+        const [stdout, stderr] = await Promise.all([
+          onLine ? streamLines(proc.stdout, onLine).then(() => "") : new Response(proc.stdout).text(),
+          new Response(proc.stderr).text(),
+        ])
         const exitCode = await proc.exited
 
         return { stdout, stderr, exitCode }
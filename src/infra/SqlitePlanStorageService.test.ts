@@ -7,10 +7,11 @@ import { Effect, pipe } from "effect"
 import { mkdtemp, rm } from "node:fs/promises"
 import { tmpdir } from "node:os"
 import { join } from "node:path"
+import { Database } from "bun:sqlite"
 
 import { PlanStorageServiceTag, type PlanStorageError } from "./PlanStorageService"
 import { SqlitePlanStorageService } from "./SqlitePlanStorageService"
-import { createMovePlan } from "../domain/MovePlan"
+import { createFileMove, createMovePlan } from "../domain/MovePlan"
 
 // =============================================================================
 // Test fixtures
@@ -202,6 +203,198 @@ describe("SqlitePlanStorageService", () => {
     expect(loaded.moves[sourceAbsPath]?.reason).toBe("disk full")
   })
 
+  test("updateMoveStatus clears an earlier failure once the move completes", async () => {
+    const planPath = join(testDir, "update-retried.db")
+    const sourceAbsPath = "/mnt/source/file.mkv"
+    const testPlan = createMovePlan([createFileMove(
+      { absolutePath: sourceAbsPath, relativePath: "file.mkv", sizeBytes: 1000, diskPath: "/mnt/source" },
+      "/mnt/disk1"
+    )])
+
+    const loaded = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) =>
+        pipe(
+          svc.save(testPlan, "/mnt/source", {}, planPath),
+          Effect.zipRight(svc.updateMoveStatus(planPath, sourceAbsPath, "failed", "disk full")),
+          Effect.zipRight(svc.updateMoveStatus(planPath, sourceAbsPath, "completed")),
+          Effect.zipRight(svc.load(planPath))
+        )
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(loaded.moves[sourceAbsPath]?.status).toBe("completed")
+    expect(loaded.moves[sourceAbsPath]?.reason).toBeUndefined()
+  })
+
+  test("updateMoveStatuses updates several moves in one transaction", async () => {
+    const planPath = join(testDir, "update-batch.db")
+    const move = (name: string) => ({
+      file: {
+        absolutePath: `/mnt/source/${name}`,
+        relativePath: name,
+        sizeBytes: 1000,
+        diskPath: "/mnt/source",
+      },
+      targetDiskPath: "/mnt/disk1",
+      destinationPath: `/mnt/disk1/${name}`,
+      status: "pending" as const,
+    })
+
+    await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) => svc.save(createMovePlan([move("a.mkv"), move("b.mkv")]), "/mnt/source", {}, planPath)),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) =>
+        svc.updateMoveStatuses(planPath, [
+          { sourceAbsPath: "/mnt/source/a.mkv", status: "completed" },
+          { sourceAbsPath: "/mnt/source/b.mkv", status: "failed", error: "disk full" },
+        ])
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    const loaded = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) => svc.load(planPath)),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(loaded.moves["/mnt/source/a.mkv"]?.status).toBe("completed")
+    expect(loaded.moves["/mnt/source/b.mkv"]?.status).toBe("failed")
+    expect(loaded.moves["/mnt/source/b.mkv"]?.reason).toBe("disk full")
+  })
+
+  test("updateMoveStatuses rolls back when a move is not in the plan", async () => {
+    const planPath = join(testDir, "update-rollback.db")
+    const sourceAbsPath = "/mnt/source/file.mkv"
+    const testPlan = createMovePlan([
+      {
+        file: {
+          absolutePath: sourceAbsPath,
+          relativePath: "file.mkv",
+          sizeBytes: 1000,
+          diskPath: "/mnt/source",
+        },
+        targetDiskPath: "/mnt/disk1",
+        destinationPath: "/mnt/disk1/file.mkv",
+        status: "pending" as const,
+      },
+    ])
+
+    await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) => svc.save(testPlan, "/mnt/source", {}, planPath)),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    const result = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) =>
+        svc.updateMoveStatuses(planPath, [
+          { sourceAbsPath, status: "completed" },
+          { sourceAbsPath: "/mnt/source/missing.mkv", status: "completed" },
+        ])
+      ),
+      Effect.either,
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(result._tag).toBe("Left")
+
+    const loaded = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) => svc.load(planPath)),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(loaded.moves[sourceAbsPath]?.status).toBe("pending")
+  })
+
+  test("round-trips disk reservations, adding the column to older plan files", async () => {
+    const planPath = join(testDir, "reservations.db")
+
+    // A plan file from before per-disk reservations
+    const old = new Database(planPath, { create: true })
+    old.exec(`CREATE TABLE disk_stats (
+      disk_path TEXT PRIMARY KEY,
+      total_bytes INTEGER NOT NULL,
+      free_bytes INTEGER NOT NULL,
+      bytes_to_move INTEGER NOT NULL
+    )`)
+    old.close()
+
+    const loaded = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) =>
+        pipe(
+          svc.save(
+            createMovePlan([]),
+            "/mnt/source",
+            { "/mnt/disk1": { totalBytes: 1000, freeBytes: 500, bytesToMove: 100, reservedBytes: 50 } },
+            planPath
+          ),
+          Effect.flatMap(() => svc.load(planPath))
+        )
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(loaded.diskStats["/mnt/disk1"]?.reservedBytes).toBe(50)
+  })
+
+  test("round-trips source mtimes and units, adding the columns to older plan files", async () => {
+    const planPath = join(testDir, "mtimes.db")
+
+    // A plan file from before source mtimes and units were recorded
+    const old = new Database(planPath, { create: true })
+    old.exec(`CREATE TABLE moves (
+      source_abs_path TEXT PRIMARY KEY,
+      source_rel_path TEXT NOT NULL,
+      source_disk TEXT NOT NULL,
+      target_disk TEXT NOT NULL,
+      dest_abs_path TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      reason TEXT
+    )`)
+    old.close()
+
+    const plan = createMovePlan([
+      createFileMove(
+        { absolutePath: "/mnt/disk1/a.mkv", relativePath: "a.mkv", sizeBytes: 100, diskPath: "/mnt/disk1", mtimeMs: 1_700_000_000_123 },
+        "/mnt/disk2",
+        "/mnt/disk1/a/"
+      ),
+      createFileMove({ absolutePath: "/mnt/disk1/b.mkv", relativePath: "b.mkv", sizeBytes: 100, diskPath: "/mnt/disk1" }, "/mnt/disk2"),
+    ])
+
+    const loaded = await pipe(
+      PlanStorageServiceTag,
+      Effect.flatMap((svc) => pipe(svc.save(plan, "/mnt/disk1", {}, planPath), Effect.flatMap(() => svc.load(planPath)))),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(loaded.moves["/mnt/disk1/a.mkv"]?.mtimeMs).toBe(1_700_000_000_123)
+    expect(loaded.moves["/mnt/disk1/b.mkv"]?.mtimeMs).toBeUndefined()
+    expect(loaded.moves["/mnt/disk1/a.mkv"]?.unitId).toBe("/mnt/disk1/a/")
+    expect(loaded.moves["/mnt/disk1/b.mkv"]?.unitId).toBeUndefined()
+  })
+
   test("delete removes plan file", async () => {
     const planPath = join(testDir, "delete-test.db")
 
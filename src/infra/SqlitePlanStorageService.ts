@@ -41,6 +41,8 @@ const SCHEMA = `
     target_disk TEXT NOT NULL,
     dest_abs_path TEXT NOT NULL,
     size_bytes INTEGER NOT NULL,
+    mtime_ms INTEGER,
+    unit_id TEXT,
     status TEXT NOT NULL CHECK (status IN ('pending', 'in_progress', 'completed', 'skipped', 'failed')),
     reason TEXT
   );
@@ -49,7 +51,8 @@ const SCHEMA = `
     disk_path TEXT PRIMARY KEY,
     total_bytes INTEGER NOT NULL,
     free_bytes INTEGER NOT NULL,
-    bytes_to_move INTEGER NOT NULL
+    bytes_to_move INTEGER NOT NULL,
+    reserved_bytes INTEGER NOT NULL DEFAULT 0
   );
 
   CREATE INDEX IF NOT EXISTS idx_moves_status ON moves(status);
@@ -115,13 +118,27 @@ const matchDeleteError = (path: string) =>
 export const SqlitePlanStorageService = Layer.succeed(
   PlanStorageServiceTag,
   (() => {
-    const defaultPath = `/config/plan.sh`
+    const defaultPath = `/config/plan.db`
 
     const openDb = (path: string): Effect.Effect<Database, PlanStorageError> =>
       Effect.try({
         try: () => {
           const db = new Database(path, { create: true })
           db.exec(SCHEMA)
+          // Plans saved before per-disk reservations lack the column
+          const columns = db.query("PRAGMA table_info(disk_stats)").all() as Array<{ name: string }>
+          if (!columns.some((c) => c.name === "reserved_bytes")) {
+            db.exec("ALTER TABLE disk_stats ADD COLUMN reserved_bytes INTEGER NOT NULL DEFAULT 0")
+          }
+          // ...and plans saved before source mtimes were recorded
+          const moveColumns = db.query("PRAGMA table_info(moves)").all() as Array<{ name: string }>
+          if (!moveColumns.some((c) => c.name === "mtime_ms")) {
+            db.exec("ALTER TABLE moves ADD COLUMN mtime_ms INTEGER")
+          }
+          // ...and plans saved before packing units were recorded
+          if (!moveColumns.some((c) => c.name === "unit_id")) {
+            db.exec("ALTER TABLE moves ADD COLUMN unit_id TEXT")
+          }
           return db
         },
         catch: (e) => matchSaveError(path)(detectErrorKind(e)),
@@ -147,8 +164,8 @@ export const SqlitePlanStorageService = Layer.succeed(
 
                 // Insert moves
                 const insertMove = db.prepare(`
-                  INSERT INTO moves (source_abs_path, source_rel_path, source_disk, target_disk, dest_abs_path, size_bytes, status, reason)
-                  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                  INSERT INTO moves (source_abs_path, source_rel_path, source_disk, target_disk, dest_abs_path, size_bytes, mtime_ms, unit_id, status, reason)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                 `)
 
                 for (const move of plan.moves) {
@@ -159,6 +176,8 @@ export const SqlitePlanStorageService = Layer.succeed(
                     move.targetDiskPath,
                     move.destinationPath,
                     move.file.sizeBytes,
+                    move.file.mtimeMs ?? null,
+                    move.unitId ?? null,
                     move.status,
                     move.reason ?? null
                   )
@@ -166,8 +185,8 @@ export const SqlitePlanStorageService = Layer.succeed(
 
                 // Insert disk stats
                 const insertDiskStat = db.prepare(`
-                  INSERT INTO disk_stats (disk_path, total_bytes, free_bytes, bytes_to_move)
-                  VALUES (?, ?, ?, ?)
+                  INSERT INTO disk_stats (disk_path, total_bytes, free_bytes, bytes_to_move, reserved_bytes)
+                  VALUES (?, ?, ?, ?, ?)
                 `)
 
                 for (const [diskPath, stat] of Object.entries(diskStats)) {
@@ -175,7 +194,8 @@ export const SqlitePlanStorageService = Layer.succeed(
                     diskPath,
                     stat.totalBytes,
                     stat.freeBytes,
-                    stat.bytesToMove
+                    stat.bytesToMove,
+                    stat.reservedBytes ?? 0
                   )
                 }
               })()
@@ -215,6 +235,8 @@ export const SqlitePlanStorageService = Layer.succeed(
             target_disk: string
             dest_abs_path: string
             size_bytes: number
+            mtime_ms?: number | null
+            unit_id?: string | null
             status: string
             reason: string | null
           }>
@@ -224,6 +246,7 @@ export const SqlitePlanStorageService = Layer.succeed(
             total_bytes: number
             free_bytes: number
             bytes_to_move: number
+            reserved_bytes?: number
           }>
 
           db.close()
@@ -236,6 +259,8 @@ export const SqlitePlanStorageService = Layer.succeed(
               targetDisk: row.target_disk,
               destAbsPath: row.dest_abs_path,
               sizeBytes: row.size_bytes,
+              mtimeMs: row.mtime_ms ?? undefined,
+              unitId: row.unit_id ?? undefined,
               status: row.status as "pending" | "in_progress" | "completed" | "skipped" | "failed",
               reason: row.reason ?? undefined,
             }
@@ -247,6 +272,7 @@ export const SqlitePlanStorageService = Layer.succeed(
               totalBytes: row.total_bytes,
               freeBytes: row.free_bytes,
               bytesToMove: row.bytes_to_move,
+              reservedBytes: row.reserved_bytes ?? 0,
             }
           }
 
@@ -274,24 +300,26 @@ export const SqlitePlanStorageService = Layer.succeed(
         catch: () => false,
       }).pipe(Effect.catchAll(() => Effect.succeed(false)))
 
-    const updateMoveStatus: PlanStorageService["updateMoveStatus"] = (
-      path,
-      sourceAbsPath,
-      status,
-      error
-    ) =>
+    const updateMoveStatuses: PlanStorageService["updateMoveStatuses"] = (path, updates) =>
       openDb(path).pipe(
         Effect.flatMap((db) =>
           Effect.try({
             try: () => {
-              const result = db.run(
-                "UPDATE moves SET status = ?, reason = COALESCE(?, reason) WHERE source_abs_path = ?",
-                [status, error ?? null, sourceAbsPath]
-              )
-              db.close()
-
-              if (result.changes === 0) {
-                throw new PlanLoadFailed({ path, reason: `Move not found: ${sourceAbsPath}` })
+              try {
+                // A completed move drops any reason left from an earlier failure
+                const update = db.prepare(
+                  "UPDATE moves SET status = ?1, reason = CASE WHEN ?1 = 'completed' THEN NULL ELSE COALESCE(?2, reason) END WHERE source_abs_path = ?3"
+                )
+                db.transaction(() => {
+                  for (const { sourceAbsPath, status, error } of updates) {
+                    const result = update.run(status, error ?? null, sourceAbsPath)
+                    if (result.changes === 0) {
+                      throw new PlanLoadFailed({ path, reason: `Move not found: ${sourceAbsPath}` })
+                    }
+                  }
+                })()
+              } finally {
+                db.close()
               }
             },
             catch: (e) => {
@@ -302,6 +330,13 @@ export const SqlitePlanStorageService = Layer.succeed(
         )
       )
 
+    const updateMoveStatus: PlanStorageService["updateMoveStatus"] = (
+      path,
+      sourceAbsPath,
+      status,
+      error
+    ) => updateMoveStatuses(path, [{ sourceAbsPath, status, error }])
+
     const deletePlan: PlanStorageService["delete"] = (path) =>
       Effect.try({
         try: () => {
@@ -319,6 +354,7 @@ export const SqlitePlanStorageService = Layer.succeed(
       load,
       exists,
       updateMoveStatus,
+      updateMoveStatuses,
       delete: deletePlan,
     }
   })()
@@ -0,0 +1,161 @@
+/**
+ * Tests for SqliteScanCacheService.
+ */
+
+import { describe, expect, test, beforeAll, afterAll } from "bun:test"
+import { Effect, pipe } from "effect"
+import { mkdtemp, rm } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { ScanCacheServiceTag, type CachedDirectory } from "./ScanCacheService"
+import { SqliteScanCacheService } from "./SqliteScanCacheService"
+
+// =============================================================================
+// Test fixtures
+// =============================================================================
+
+let testDir: string
+
+beforeAll(async () => {
+  testDir = await mkdtemp(join(tmpdir(), "sqlite-scan-cache-test-"))
+})
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true })
+})
+
+const root: CachedDirectory = {
+  mtimeMs: 1000,
+  files: [{ name: "readme.txt", sizeBytes: 10 }],
+  subdirs: ["Movies", "TV"],
+}
+
+const movies: CachedDirectory = {
+  mtimeMs: 2000,
+  files: [
+    { name: "a.mkv", sizeBytes: 1000, mtimeMs: 1500 },
+    { name: "b.mkv", sizeBytes: 2000 },
+  ],
+  subdirs: [],
+}
+
+const tv: CachedDirectory = { mtimeMs: 3000, files: [], subdirs: [] }
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("SqliteScanCacheService", () => {
+  const service = SqliteScanCacheService
+
+  test("loadDisk on a missing cache returns an empty index", async () => {
+    const result = await pipe(
+      ScanCacheServiceTag,
+      Effect.flatMap((svc) => svc.loadDisk(join(testDir, "missing.db"), "/mnt/disk1")),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(result.size).toBe(0)
+    expect(existsSync(join(testDir, "missing.db"))).toBe(false)
+  })
+
+  test("saveDisk and loadDisk round-trip per disk", async () => {
+    const cachePath = join(testDir, "round-trip.db")
+
+    const result = await pipe(
+      ScanCacheServiceTag,
+      Effect.flatMap((svc) =>
+        pipe(
+          svc.saveDisk(cachePath, "/mnt/disk1", {
+            changed: new Map([["", root], ["Movies", movies], ["TV", tv]]),
+            removed: [],
+          }),
+          Effect.zipRight(svc.saveDisk(cachePath, "/mnt/disk2", { changed: new Map([["", tv]]), removed: [] })),
+          Effect.zipRight(svc.loadDisk(cachePath, "/mnt/disk1"))
+        )
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(result.size).toBe(3)
+    expect(result.get("")).toEqual(root)
+    expect(result.get("Movies")).toEqual(movies)
+    expect(result.get("TV")).toEqual(tv)
+  })
+
+  test("saveDisk replaces changed directories and drops removed ones", async () => {
+    const cachePath = join(testDir, "update.db")
+    const updatedMovies: CachedDirectory = {
+      mtimeMs: 2500,
+      files: [{ name: "c.mkv", sizeBytes: 3000 }],
+      subdirs: [],
+    }
+
+    const result = await pipe(
+      ScanCacheServiceTag,
+      Effect.flatMap((svc) =>
+        pipe(
+          svc.saveDisk(cachePath, "/mnt/disk1", {
+            changed: new Map([["", root], ["Movies", movies], ["TV", tv]]),
+            removed: [],
+          }),
+          Effect.zipRight(
+            svc.saveDisk(cachePath, "/mnt/disk1", {
+              changed: new Map([["Movies", updatedMovies]]),
+              removed: ["TV"],
+            })
+          ),
+          Effect.zipRight(svc.loadDisk(cachePath, "/mnt/disk1"))
+        )
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(result.get("")).toEqual(root)
+    expect(result.get("Movies")).toEqual(updatedMovies)
+    expect(result.has("TV")).toBe(false)
+  })
+
+  test("stats reports per-disk counts and clear deletes the cache", async () => {
+    const cachePath = join(testDir, "stats.db")
+
+    const stats = await pipe(
+      ScanCacheServiceTag,
+      Effect.flatMap((svc) =>
+        pipe(
+          svc.saveDisk(cachePath, "/mnt/disk1", {
+            changed: new Map([["", root], ["Movies", movies], ["TV", tv]]),
+            removed: [],
+          }),
+          Effect.zipRight(svc.stats(cachePath))
+        )
+      ),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(stats.sizeBytes).toBeGreaterThan(0)
+    expect(stats.disks).toHaveLength(1)
+    expect(stats.disks[0]).toMatchObject({
+      diskPath: "/mnt/disk1",
+      directories: 3,
+      files: 3,
+      totalBytes: 3010,
+    })
+
+    const afterClear = await pipe(
+      ScanCacheServiceTag,
+      Effect.flatMap((svc) => pipe(svc.clear(cachePath), Effect.zipRight(svc.stats(cachePath)))),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(existsSync(cachePath)).toBe(false)
+    expect(afterClear).toEqual({ path: cachePath, sizeBytes: 0, disks: [] })
+  })
+})
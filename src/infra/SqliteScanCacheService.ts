@@ -0,0 +1,251 @@
+/**
+ * SqliteScanCacheService - SQLite-backed scan cache.
+ *
+ * Uses Bun's built-in SQLite so an unchanged library can be re-planned
+ * without walking every directory again. Updates are applied per directory
+ * in a single transaction, so a scan that touches a handful of folders only
+ * rewrites those folders.
+ */
+
+import { Database } from "bun:sqlite"
+import { existsSync, mkdirSync, rmSync, statSync } from "fs"
+import { dirname } from "path"
+import { Effect, Layer } from "effect"
+import {
+  ScanCacheServiceTag,
+  ScanCacheReadFailed,
+  ScanCacheWriteFailed,
+  type CachedDirectory,
+  type CachedFile,
+  type ScanCacheService,
+} from "./ScanCacheService"
+
+// =============================================================================
+// Database schema
+// =============================================================================
+
+/**
+ * Bumped whenever the tables change. The cache is disposable, so an older
+ * schema is simply dropped and rebuilt by the next scan.
+ */
+const SCHEMA_VERSION = 3
+
+const DROP_SCHEMA = `
+  DROP TABLE IF EXISTS scan_disks;
+  DROP TABLE IF EXISTS scan_dirs;
+  DROP TABLE IF EXISTS scan_files;
+`
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS scan_disks (
+    disk_path TEXT PRIMARY KEY,
+    scanned_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS scan_dirs (
+    disk_path TEXT NOT NULL,
+    rel_dir TEXT NOT NULL,
+    mtime_ms INTEGER NOT NULL,
+    subdirs TEXT NOT NULL,
+    PRIMARY KEY (disk_path, rel_dir)
+  );
+
+  CREATE TABLE IF NOT EXISTS scan_files (
+    disk_path TEXT NOT NULL,
+    rel_dir TEXT NOT NULL,
+    name TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    mtime_ms INTEGER,
+    device INTEGER,
+    inode INTEGER,
+    link_count INTEGER,
+    PRIMARY KEY (disk_path, rel_dir, name)
+  );
+`
+
+// =============================================================================
+// SQLite implementation
+// =============================================================================
+
+export const SqliteScanCacheService = Layer.succeed(
+  ScanCacheServiceTag,
+  (() => {
+    const defaultPath = `/config/scan-cache.db`
+
+    const openDb = (path: string): Database => {
+      mkdirSync(dirname(path), { recursive: true })
+      const db = new Database(path, { create: true })
+      const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number }
+      if (user_version !== SCHEMA_VERSION) {
+        db.exec(DROP_SCHEMA)
+        db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+      }
+      db.exec(SCHEMA)
+      return db
+    }
+
+    const loadDisk: ScanCacheService["loadDisk"] = (path, diskPath) =>
+      Effect.try({
+        try: () => {
+          const index = new Map<string, CachedDirectory>()
+          if (!existsSync(path)) return index
+
+          const db = openDb(path)
+          try {
+            const dirRows = db
+              .query("SELECT rel_dir, mtime_ms, subdirs FROM scan_dirs WHERE disk_path = ?")
+              .all(diskPath) as Array<{ rel_dir: string; mtime_ms: number; subdirs: string }>
+
+            const filesByDir = new Map<string, CachedFile[]>()
+            const fileRows = db
+              .query("SELECT rel_dir, name, size_bytes, mtime_ms, device, inode, link_count FROM scan_files WHERE disk_path = ?")
+              .iterate(diskPath) as IterableIterator<{
+                rel_dir: string
+                name: string
+                size_bytes: number
+                mtime_ms: number | null
+                device: number | null
+                inode: number | null
+                link_count: number | null
+              }>
+            for (const row of fileRows) {
+              const files = filesByDir.get(row.rel_dir) ?? []
+              files.push(
+                row.inode === null
+                  ? { name: row.name, sizeBytes: row.size_bytes, mtimeMs: row.mtime_ms ?? undefined }
+                  : {
+                      name: row.name,
+                      sizeBytes: row.size_bytes,
+                      mtimeMs: row.mtime_ms ?? undefined,
+                      device: row.device ?? undefined,
+                      inode: row.inode,
+                      linkCount: row.link_count ?? undefined,
+                    }
+              )
+              filesByDir.set(row.rel_dir, files)
+            }
+
+            for (const row of dirRows) {
+              index.set(row.rel_dir, {
+                mtimeMs: row.mtime_ms,
+                files: filesByDir.get(row.rel_dir) ?? [],
+                subdirs: JSON.parse(row.subdirs) as string[],
+              })
+            }
+            return index
+          } finally {
+            db.close()
+          }
+        },
+        catch: (e) => new ScanCacheReadFailed({ path, reason: String(e) }),
+      })
+
+    const saveDisk: ScanCacheService["saveDisk"] = (path, diskPath, update) =>
+      Effect.try({
+        try: () => {
+          const db = openDb(path)
+          try {
+            const deleteDir = db.prepare("DELETE FROM scan_dirs WHERE disk_path = ? AND rel_dir = ?")
+            const deleteFiles = db.prepare("DELETE FROM scan_files WHERE disk_path = ? AND rel_dir = ?")
+            const insertDir = db.prepare(
+              "INSERT INTO scan_dirs (disk_path, rel_dir, mtime_ms, subdirs) VALUES (?, ?, ?, ?)"
+            )
+            const insertFile = db.prepare(
+              "INSERT INTO scan_files (disk_path, rel_dir, name, size_bytes, mtime_ms, device, inode, link_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+            )
+
+            db.transaction(() => {
+              for (const relDir of update.removed) {
+                deleteDir.run(diskPath, relDir)
+                deleteFiles.run(diskPath, relDir)
+              }
+
+              for (const [relDir, dir] of update.changed) {
+                deleteDir.run(diskPath, relDir)
+                deleteFiles.run(diskPath, relDir)
+                insertDir.run(diskPath, relDir, dir.mtimeMs, JSON.stringify(dir.subdirs))
+                for (const file of dir.files) {
+                  insertFile.run(
+                    diskPath,
+                    relDir,
+                    file.name,
+                    file.sizeBytes,
+                    file.mtimeMs ?? null,
+                    file.device ?? null,
+                    file.inode ?? null,
+                    file.linkCount ?? null
+                  )
+                }
+              }
+
+              db.run(
+                "INSERT OR REPLACE INTO scan_disks (disk_path, scanned_at) VALUES (?, ?)",
+                [diskPath, new Date().toISOString()]
+              )
+            })()
+          } finally {
+            db.close()
+          }
+        },
+        catch: (e) => new ScanCacheWriteFailed({ path, reason: String(e) }),
+      })
+
+    const stats: ScanCacheService["stats"] = (path) =>
+      Effect.try({
+        try: () => {
+          if (!existsSync(path)) return { path, sizeBytes: 0, disks: [] }
+
+          const db = openDb(path)
+          try {
+            const rows = db
+              .query(`
+                SELECT
+                  d.disk_path AS disk_path,
+                  d.scanned_at AS scanned_at,
+                  (SELECT COUNT(*) FROM scan_dirs WHERE disk_path = d.disk_path) AS directories,
+                  (SELECT COUNT(*) FROM scan_files WHERE disk_path = d.disk_path) AS files,
+                  (SELECT COALESCE(SUM(size_bytes), 0) FROM scan_files WHERE disk_path = d.disk_path) AS total_bytes
+                FROM scan_disks d
+                ORDER BY d.disk_path
+              `)
+              .all() as Array<{
+                disk_path: string
+                scanned_at: string
+                directories: number
+                files: number
+                total_bytes: number
+              }>
+
+            return {
+              path,
+              sizeBytes: statSync(path).size,
+              disks: rows.map((row) => ({
+                diskPath: row.disk_path,
+                directories: row.directories,
+                files: row.files,
+                totalBytes: row.total_bytes,
+                scannedAt: row.scanned_at,
+              })),
+            }
+          } finally {
+            db.close()
+          }
+        },
+        catch: (e) => new ScanCacheReadFailed({ path, reason: String(e) }),
+      })
+
+    const clear: ScanCacheService["clear"] = (path) =>
+      Effect.try({
+        try: () => rmSync(path, { force: true }),
+        catch: (e) => new ScanCacheWriteFailed({ path, reason: String(e) }),
+      })
+
+    return {
+      defaultPath,
+      loadDisk,
+      saveDisk,
+      stats,
+      clear,
+    }
+  })()
+)
@@ -31,6 +31,7 @@ describe("TerminalUIService", () => {
       expect(line).toContain("500.0 MB")
       expect(line).toContain("1000.0 MB") // formatBytes shows MB until >= 1024 MB
       expect(line).toContain("inception.mkv")
+      expect(line).toContain("ETA      5s") // 500 MB left at 100 MB/s
     })
 
     test("formats completed disk", async () => {
@@ -111,6 +111,9 @@ export interface TerminalUIService {
   /** End multi-line progress display (shows cursor) */
   readonly endProgress: () => Effect.Effect<void>
 
+  /** Print progress as plain lines (no cursor movement or colors, for logs) */
+  readonly logProgress: (progress: OverallProgress) => Effect.Effect<void>
+
   /** Format a disk progress line */
   readonly formatDiskLine: (disk: DiskProgress) => string
 
@@ -168,6 +171,14 @@ export const TerminalUIServiceLive = Layer.succeed(TerminalUIServiceTag, {
       process.stdout.write(ANSI.showCursor)
     }),
 
+  logProgress: (progress) =>
+    Effect.sync(() => {
+      progress.disks
+        .filter((disk) => disk.status === "running" || disk.status === "error")
+        .forEach((disk) => console.log(formatPlainDiskLine(disk)))
+      console.log(summaryText(progress))
+    }),
+
   formatDiskLine: formatDiskProgressLine,
   formatSummary: formatSummaryLine,
 })
@@ -176,6 +187,10 @@ export const TerminalUIServiceLive = Layer.succeed(TerminalUIServiceTag, {
 // Formatting functions
 // =============================================================================
 
+function remainingTime(remainingBytes: number, speedBytesPerSec: number): string {
+  return speedBytesPerSec > 0 ? formatDuration((remainingBytes / speedBytesPerSec) * 1000) : "--"
+}
+
 function formatDiskProgressLine(disk: DiskProgress): string {
   const pct = disk.totalBytes > 0 ? disk.bytesTransferred / disk.totalBytes : 0
   const pctStr = `${Math.floor(pct * 100)}%`.padStart(4)
@@ -194,10 +209,28 @@ function formatDiskProgressLine(disk: DiskProgress): string {
     disk.status === "running" ? `${ANSI.blue}[>]${ANSI.reset}` :
     `${ANSI.dim}[ ]${ANSI.reset}`
 
-  return `${statusIcon} ${diskName} ${bar} ${pctStr} │ ${transferred}/${total} │ ${speed.padStart(10)} │ ${fileName}`
+  const eta = disk.status === "running"
+    ? remainingTime(disk.totalBytes - disk.bytesTransferred, disk.speedBytesPerSec)
+    : ""
+
+  return `${statusIcon} ${diskName} ${bar} ${pctStr} │ ${transferred}/${total} │ ${speed.padStart(10)} │ ETA ${eta.padStart(7)} │ ${fileName}`
+}
+
+function formatPlainDiskLine(disk: DiskProgress): string {
+  const pct = disk.totalBytes > 0 ? Math.floor((disk.bytesTransferred / disk.totalBytes) * 100) : 0
+
+  if (disk.status === "error") {
+    return `${disk.diskPath}: failed after ${formatBytes(disk.bytesTransferred)}/${formatBytes(disk.totalBytes)}${disk.error ? ` (${disk.error})` : ""}`
+  }
+
+  return `${disk.diskPath}: ${formatBytes(disk.bytesTransferred)}/${formatBytes(disk.totalBytes)} (${pct}%), ${formatSpeed(disk.speedBytesPerSec)}, ETA ${remainingTime(disk.totalBytes - disk.bytesTransferred, disk.speedBytesPerSec)}, ${disk.currentFile}`
 }
 
 function formatSummaryLine(progress: OverallProgress): string {
+  return `${ANSI.bold}${summaryText(progress)}${ANSI.reset}`
+}
+
+function summaryText(progress: OverallProgress): string {
   const totalBytes = progress.disks.reduce((sum, d) => sum + d.totalBytes, 0)
   const transferred = progress.disks.reduce((sum, d) => sum + d.bytesTransferred, 0)
   const totalSpeed = progress.disks.reduce((sum, d) => sum + d.speedBytesPerSec, 0)
@@ -207,7 +240,7 @@ function formatSummaryLine(progress: OverallProgress): string {
 
   const pct = totalBytes > 0 ? Math.floor((transferred / totalBytes) * 100) : 0
 
-  return `${ANSI.bold}Total: ${formatBytes(transferred)}/${formatBytes(totalBytes)} (${pct}%) │ ${formatSpeed(totalSpeed)} │ Elapsed: ${formatDuration(elapsed)} │ ETA: ${formatDuration(remaining)}${ANSI.reset}`
+  return `Total: ${formatBytes(transferred)}/${formatBytes(totalBytes)} (${pct}%) │ ${formatSpeed(totalSpeed)} │ Elapsed: ${formatDuration(elapsed)} │ ETA: ${formatDuration(remaining)}`
 }
 
 // =============================================================================
@@ -221,6 +254,7 @@ export const TerminalUIServiceStub = Layer.succeed(TerminalUIServiceTag, {
   startProgress: (_n) => Effect.void,
   updateProgress: (_p) => Effect.void,
   endProgress: () => Effect.void,
+  logProgress: (_p) => Effect.void,
   formatDiskLine: () => "",
   formatSummary: () => "",
 })
@@ -8,7 +8,7 @@
  */
 
 import { describe, expect, test, beforeAll, afterAll } from "bun:test"
-import { Effect, Layer, pipe } from "effect"
+import { Chunk, Effect, Layer, Stream, pipe } from "effect"
 import { BunContext } from "@effect/platform-bun"
 import { mkdtemp, rm, writeFile, mkdir } from "node:fs/promises"
 import { tmpdir } from "node:os"
@@ -19,6 +19,7 @@ import { FileStatServiceTag, FileStatServiceLive, type FileStatError } from "./F
 import { DiskStatsServiceTag, DiskStatsServiceLive } from "./DiskStatsService"
 import { PlanStorageServiceTag, type PlanStorageError } from "./PlanStorageService"
 import { SqlitePlanStorageService } from "./SqlitePlanStorageService"
+import { ShellServiceTag, ShellServiceLive } from "./ShellService"
 import { createMovePlan } from "../domain/MovePlan"
 
 // =============================================================================
@@ -74,6 +75,20 @@ describe("GlobService (real IO)", () => {
     expect(result).not.toContain("subdir/nested.txt")
   })
 
+  test("stream yields the same files as scan", async () => {
+    const result = await pipe(
+      GlobServiceTag,
+      Effect.flatMap((svc) => Stream.runCollect(svc.stream("**/*", testDir, { onlyFiles: true }))),
+      Effect.map(Chunk.toArray),
+      Effect.provide(service),
+      Effect.runPromise
+    )
+
+    expect(result).toContain("file1.txt")
+    expect(result).toContain("file2.txt")
+    expect(result).toContain("subdir/nested.txt")
+  })
+
   test("scan on non-existent path returns GlobNotFound error", async () => {
     const result = await pipe(
       GlobServiceTag,
@@ -129,6 +144,40 @@ describe("FileStatService (real IO)", () => {
   })
 })
 
+// =============================================================================
+// ShellService integration tests
+// =============================================================================
+
+describe("ShellService (real IO)", () => {
+  test("exec buffers stdout and stderr", async () => {
+    const result = await pipe(
+      ShellServiceTag,
+      Effect.flatMap((svc) => svc.exec("echo out; echo err >&2; exit 3")),
+      Effect.provide(ShellServiceLive),
+      Effect.runPromise
+    )
+
+    expect(result).toEqual({ stdout: "out\n", stderr: "err\n", exitCode: 3 })
+  })
+
+  test("exec with onLine streams stdout split on \\r and \\n", async () => {
+    const lines: string[] = []
+
+    const result = await pipe(
+      ShellServiceTag,
+      Effect.flatMap((svc) =>
+        svc.exec(`printf 'a.mkv\\n  10  1%%\\r  20  2%%\\nlast'`, (line) => lines.push(line))
+      ),
+      Effect.provide(ShellServiceLive),
+      Effect.runPromise
+    )
+
+    expect(lines).toEqual(["a.mkv", "  10  1%", "  20  2%", "last"])
+    expect(result.stdout).toBe("")
+    expect(result.exitCode).toBe(0)
+  })
+})
+
 // =============================================================================
 // DiskStatsService integration tests
 // =============================================================================
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test"
+import { createGlobMatcher, globToRegExp, matchesGlob } from "./glob"
+
+describe("glob", () => {
+  describe("matchesGlob", () => {
+    test("patterns without a slash match the file name", () => {
+      expect(matchesGlob("Movies/Film (2020)/film.mkv", "*.mkv")).toBe(true)
+      expect(matchesGlob("Movies/Film (2020)/film.srt", "*.mkv")).toBe(false)
+      expect(matchesGlob("film.mkv", "*.mkv")).toBe(true)
+    })
+
+    test("patterns with a slash match the relative path", () => {
+      expect(matchesGlob("Movies/film.mkv", "Movies/*.mkv")).toBe(true)
+      expect(matchesGlob("TV/film.mkv", "Movies/*.mkv")).toBe(false)
+      expect(matchesGlob("Movies/Film/film.mkv", "Movies/*.mkv")).toBe(false)
+    })
+
+    test("** matches across directories", () => {
+      expect(matchesGlob("Movies/Film/film.mkv", "Movies/**")).toBe(true)
+      expect(matchesGlob("Movies/Film/film.mkv", "**/film.mkv")).toBe(true)
+      expect(matchesGlob("film.mkv", "**/film.mkv")).toBe(true)
+      expect(matchesGlob("a/b/c/d.mkv", "a/**/d.mkv")).toBe(true)
+    })
+
+    test("supports ?, character classes and alternation", () => {
+      expect(matchesGlob("ep1.mkv", "ep?.mkv")).toBe(true)
+      expect(matchesGlob("ep10.mkv", "ep?.mkv")).toBe(false)
+      expect(matchesGlob("ep1.mkv", "ep[0-9].mkv")).toBe(true)
+      expect(matchesGlob("epA.mkv", "ep[!0-9].mkv")).toBe(true)
+      expect(matchesGlob("movie.mp4", "*.{mkv,mp4}")).toBe(true)
+      expect(matchesGlob("movie.avi", "*.{mkv,mp4}")).toBe(false)
+    })
+
+    test("treats regex characters literally", () => {
+      expect(matchesGlob("Film (2020).mkv", "Film (2020).mkv")).toBe(true)
+      expect(matchesGlob("Filmx(2020)xmkv", "Film (2020).mkv")).toBe(false)
+      expect(globToRegExp("a+b").test("a+b")).toBe(true)
+    })
+  })
+
+  describe("createGlobMatcher", () => {
+    test("matches when any pattern matches", () => {
+      const matches = createGlobMatcher(["*.mkv", "*.mp4"])
+      expect(matches("Movies/a.mkv")).toBe(true)
+      expect(matches("Movies/a.mp4")).toBe(true)
+      expect(matches("Movies/a.nfo")).toBe(false)
+    })
+
+    test("ignores empty patterns", () => {
+      const matches = createGlobMatcher(["", "  "])
+      expect(matches("Movies/a.mkv")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Glob pattern matching for relative file paths.
+ *
+ * Supports:
+ *   - "*"      any characters except "/"
+ *   - "**"     any characters including "/" (zero or more path segments)
+ *   - "?"      a single character except "/"
+ *   - "[abc]"  character classes (and "[!abc]" negated classes)
+ *   - "{a,b}"  alternation
+ *
+ * Patterns without a "/" are matched against the file name only, so
+ * "*.mkv" matches "Movies/Film/film.mkv". Patterns containing a "/" are
+ * matched against the whole relative path.
+ *
+ * @example
+ *   matchesGlob("Movies/Film/film.mkv", "*.mkv")        // true
+ *   matchesGlob("Movies/Film/film.mkv", "Movies/**")    // true
+ *   matchesGlob("TV/Show/ep1.mkv", "Movies/*.mkv")      // false
+ */
+
+// =============================================================================
+// Pattern compilation
+// =============================================================================
+
+const REGEX_SPECIAL = new Set([".", "+", "^", "$", "(", ")", "|", "]", "}", ","])
+
+/**
+ * Compile a glob pattern into a regex source string (without anchors).
+ */
+export const globToRegExpSource = (pattern: string): string => {
+  let source = ""
+  let braceDepth = 0
+  let i = 0
+
+  while (i < pattern.length) {
+    const char = pattern.charAt(i)
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, "**" at the end matches everything
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?"
+          i += 3
+        } else {
+          source += ".*"
+          i += 2
+        }
+        continue
+      }
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1)
+      if (close === -1) {
+        source += "\\["
+      } else {
+        const body = pattern.slice(i + 1, close)
+        const negated = body.startsWith("!") || body.startsWith("^")
+        const chars = (negated ? body.slice(1) : body).replace(/\\/g, "\\\\")
+        source += negated ? `[^/${chars}]` : `[${chars}]`
+        i = close + 1
+        continue
+      }
+    } else if (char === "{") {
+      braceDepth++
+      source += "(?:"
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--
+      source += ")"
+    } else if (char === "," && braceDepth > 0) {
+      source += "|"
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      const next = pattern.charAt(i + 1)
+      source += /[a-zA-Z0-9]/.test(next) ? next : `\\${next}`
+      i += 2
+      continue
+    } else if (REGEX_SPECIAL.has(char)) {
+      source += `\\${char}`
+    } else {
+      source += char
+    }
+
+    i++
+  }
+
+  return source
+}
+
+/**
+ * Compile a glob pattern into an anchored RegExp.
+ */
+export const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${globToRegExpSource(pattern)}$`)
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+const baseName = (relativePath: string): string => {
+  const lastSlash = relativePath.lastIndexOf("/")
+  return lastSlash === -1 ? relativePath : relativePath.slice(lastSlash + 1)
+}
+
+/**
+ * Build a matcher for a list of glob patterns.
+ * Returns true when the relative path matches ANY of the patterns.
+ */
+export const createGlobMatcher = (
+  patterns: readonly string[]
+): ((relativePath: string) => boolean) => {
+  const compiled = patterns
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0)
+    .map((p) => {
+      const anchored = p.startsWith("/") ? p.slice(1) : p
+      return {
+        regex: globToRegExp(anchored),
+        matchBaseName: !p.includes("/"),
+      }
+    })
+
+  return (relativePath) =>
+    compiled.some(({ regex, matchBaseName }) =>
+      regex.test(matchBaseName ? baseName(relativePath) : relativePath)
+    )
+}
+
+/**
+ * Check whether a single relative path matches a glob pattern.
+ */
+export const matchesGlob = (relativePath: string, pattern: string): boolean =>
+  createGlobMatcher([pattern])(relativePath)
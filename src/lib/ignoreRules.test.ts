@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test"
+import { createIgnoreMatcher, parseIgnoreFile, parseIgnoreRule, parseIgnoreRules } from "./ignoreRules"
+
+const matcherFor = (...patterns: string[]) =>
+  createIgnoreMatcher(parseIgnoreRules(patterns, "--exclude"))
+
+describe("ignoreRules", () => {
+  describe("parseIgnoreRule", () => {
+    test("skips blank lines and comments", () => {
+      expect(parseIgnoreRule("", "test")).toBeUndefined()
+      expect(parseIgnoreRule("   ", "test")).toBeUndefined()
+      expect(parseIgnoreRule("# comment", "test")).toBeUndefined()
+    })
+
+    test("parses negation and directory-only flags", () => {
+      const rule = parseIgnoreRule("!@eaDir/", "test")
+      expect(rule?.negated).toBe(true)
+      expect(rule?.directoryOnly).toBe(true)
+      expect(rule?.pattern).toBe("!@eaDir/")
+      expect(rule?.source).toBe("test")
+    })
+  })
+
+  describe("parseIgnoreFile", () => {
+    test("parses one rule per line", () => {
+      const rules = parseIgnoreFile("# junk\n.DS_Store\r\n\n@eaDir/\n", "/mnt/disk1/.binpackignore")
+      expect(rules.map((r) => r.pattern)).toEqual([".DS_Store", "@eaDir/"])
+      expect(rules.every((r) => r.source === "/mnt/disk1/.binpackignore")).toBe(true)
+    })
+  })
+
+  describe("createIgnoreMatcher", () => {
+    test("patterns are globs, not substrings", () => {
+      const isExcluded = matcherFor("sample")
+      expect(isExcluded("Movies/Samples/a.mkv")).toBeUndefined()
+      expect(isExcluded("Movies/Resampled Movie (2020)/a.mkv")).toBeUndefined()
+      expect(isExcluded("Movies/Film/sample")).toBeDefined()
+      expect(isExcluded("Movies/Film/sample/a.mkv")).toBeDefined()
+    })
+
+    test("name patterns match at any depth", () => {
+      const isExcluded = matcherFor("*.tmp")
+      expect(isExcluded("a.tmp")).toBeDefined()
+      expect(isExcluded("Movies/Film/a.tmp")).toBeDefined()
+      expect(isExcluded("Movies/Film/a.mkv")).toBeUndefined()
+    })
+
+    test("directory-only patterns match folders but not files", () => {
+      const isExcluded = matcherFor("@eaDir/")
+      expect(isExcluded("Movies/@eaDir/thumb.jpg")).toBeDefined()
+      expect(isExcluded("@eaDir/a/b.jpg")).toBeDefined()
+      expect(isExcluded("Movies/@eaDir")).toBeUndefined()
+    })
+
+    test("patterns with a slash are anchored to the disk root", () => {
+      const isExcluded = matcherFor("/downloads", "media/incomplete/**")
+      expect(isExcluded("downloads/a.mkv")).toBeDefined()
+      expect(isExcluded("media/downloads/a.mkv")).toBeUndefined()
+      expect(isExcluded("media/incomplete/x/y.mkv")).toBeDefined()
+      expect(isExcluded("other/media/incomplete/y.mkv")).toBeUndefined()
+    })
+
+    test("** matches across directories", () => {
+      const isExcluded = matcherFor("**/extras/*.mkv")
+      expect(isExcluded("extras/a.mkv")).toBeDefined()
+      expect(isExcluded("Movies/Film/extras/a.mkv")).toBeDefined()
+      expect(isExcluded("Movies/Film/a.mkv")).toBeUndefined()
+    })
+
+    test("negation re-includes and the last matching rule wins", () => {
+      const isExcluded = matcherFor("*.part", "!keep.part")
+      expect(isExcluded("a/b.part")?.pattern).toBe("*.part")
+      expect(isExcluded("a/keep.part")).toBeUndefined()
+
+      const reExcluded = matcherFor("*.part", "!keep.part", "a/keep.part")
+      expect(reExcluded("a/keep.part")?.pattern).toBe("a/keep.part")
+    })
+
+    test("files inside an excluded directory cannot be re-included", () => {
+      const isExcluded = matcherFor("tmp/", "!tmp/keep.mkv")
+      expect(isExcluded("tmp/keep.mkv")?.pattern).toBe("tmp/")
+    })
+
+    test("returns the rule that excluded the path", () => {
+      const isExcluded = matcherFor(".DS_Store", "@eaDir/")
+      expect(isExcluded("a/.DS_Store")?.pattern).toBe(".DS_Store")
+      expect(isExcluded("a/@eaDir/b")?.pattern).toBe("@eaDir/")
+      expect(isExcluded("a/@eaDir/b")?.source).toBe("--exclude")
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Exclusion rules with .gitignore semantics.
+ *
+ * Rules come from --exclude patterns and from a `.binpackignore` file at the
+ * root of each disk. Both use the same syntax:
+ *
+ *   - Blank lines and lines starting with "#" are ignored
+ *   - "!pattern" re-includes paths excluded by an earlier rule
+ *   - "pattern/" only matches directories (and everything below them)
+ *   - "/pattern" or "dir/pattern" is anchored to the disk root
+ *   - "pattern" without a slash matches a file or directory name at any depth
+ *   - "*", "?", "[abc]", "{a,b}" and "**" work as in glob.ts
+ *
+ * The last matching rule wins. As with git, a file cannot be re-included
+ * when one of its parent directories is excluded.
+ *
+ * @example
+ *   const matcher = createIgnoreMatcher(parseIgnoreRules(["*.tmp", "@eaDir/", "!keep.tmp"], "--exclude"))
+ *   matcher("Movies/a.tmp")          // rule "*.tmp"
+ *   matcher("Movies/@eaDir/x.jpg")   // rule "@eaDir/"
+ *   matcher("Movies/keep.tmp")       // undefined (re-included)
+ */
+
+import { globToRegExpSource } from "./glob"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface IgnoreRule {
+  /** The rule as written by the user */
+  readonly pattern: string
+  /** Where the rule came from (e.g. "--exclude" or "/mnt/disk1/.binpackignore") */
+  readonly source: string
+  /** True for "!pattern" rules that re-include paths */
+  readonly negated: boolean
+  /** True for "pattern/" rules that only match directories */
+  readonly directoryOnly: boolean
+  readonly regex: RegExp
+}
+
+/** Returns the rule that excluded the path, or undefined if the path is kept */
+export type IgnoreMatcher = (relativePath: string) => IgnoreRule | undefined
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a single rule. Returns undefined for blank lines and comments.
+ */
+export const parseIgnoreRule = (line: string, source: string): IgnoreRule | undefined => {
+  let body = line.trim()
+  if (body === "" || body.startsWith("#")) return undefined
+
+  const negated = body.startsWith("!")
+  if (negated) body = body.slice(1)
+
+  const directoryOnly = body.endsWith("/")
+  if (directoryOnly) body = body.replace(/\/+$/, "")
+
+  // A slash at the start or in the middle anchors the rule to the disk root
+  const anchored = body.includes("/")
+  if (body.startsWith("/")) body = body.slice(1)
+
+  if (body === "") return undefined
+
+  const glob = globToRegExpSource(body)
+  const regex = new RegExp(anchored ? `^${glob}$` : `^(?:.*/)?${glob}$`)
+
+  return {
+    pattern: line.trim(),
+    source,
+    negated,
+    directoryOnly,
+    regex,
+  }
+}
+
+/**
+ * Parse a list of rules (one per line / pattern).
+ */
+export const parseIgnoreRules = (
+  lines: readonly string[],
+  source: string
+): IgnoreRule[] =>
+  lines.flatMap((line) => {
+    const rule = parseIgnoreRule(line, source)
+    return rule ? [rule] : []
+  })
+
+/**
+ * Parse the contents of an ignore file.
+ */
+export const parseIgnoreFile = (content: string, source: string): IgnoreRule[] =>
+  parseIgnoreRules(content.split(/\r?\n/), source)
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Find the last rule matching a path. Returns the rule when it excludes the
+ * path, undefined when nothing matched or the last match was a negation.
+ */
+const lastMatch = (
+  rules: readonly IgnoreRule[],
+  path: string,
+  isDirectory: boolean
+): IgnoreRule | undefined => {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i]
+    if (!rule) continue
+    if (rule.directoryOnly && !isDirectory) continue
+    if (rule.regex.test(path)) {
+      return rule.negated ? undefined : rule
+    }
+  }
+  return undefined
+}
+
+/**
+ * Build a matcher for file paths relative to the disk root.
+ *
+ * Parent directories are checked first (top-down): once a directory is
+ * excluded, everything below it is excluded by that rule.
+ */
+export const createIgnoreMatcher = (rules: readonly IgnoreRule[]): IgnoreMatcher => {
+  if (rules.length === 0) return () => undefined
+
+  const excludedDirs = new Map<string, IgnoreRule | undefined>()
+
+  const checkDirectory = (dirPath: string): IgnoreRule | undefined => {
+    if (excludedDirs.has(dirPath)) return excludedDirs.get(dirPath)
+
+    const lastSlash = dirPath.lastIndexOf("/")
+    const parentRule = lastSlash === -1 ? undefined : checkDirectory(dirPath.slice(0, lastSlash))
+    const rule = parentRule ?? lastMatch(rules, dirPath, true)
+
+    excludedDirs.set(dirPath, rule)
+    return rule
+  }
+
+  return (relativePath) => {
+    const lastSlash = relativePath.lastIndexOf("/")
+    const dirRule = lastSlash === -1 ? undefined : checkDirectory(relativePath.slice(0, lastSlash))
+    return dirRule ?? lastMatch(rules, relativePath, false)
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test"
-import { parseSize, formatSize } from "./parseSize"
+import { parseSize, parsePercent, parseReservation, resolveSpaceAmount, formatSize } from "./parseSize"
 
 describe("parseSize", () => {
   test("parses raw bytes", () => {
@@ -78,3 +78,47 @@ describe("formatSize", () => {
     expect(formatSize(1024 * 1024 * 1024 * 1024)).toBe("1.00 TB")
   })
 })
+
+describe("parsePercent", () => {
+  test("parses percentages with or without the sign", () => {
+    expect(parsePercent("5%")).toBe(5)
+    expect(parsePercent("2.5 %")).toBe(2.5)
+    expect(parsePercent("10")).toBe(10)
+  })
+
+  test("throws on invalid input", () => {
+    expect(() => parsePercent("five")).toThrow()
+    expect(() => parsePercent("-5%")).toThrow()
+    expect(() => parsePercent("150%")).toThrow()
+  })
+})
+
+describe("parseReservation", () => {
+  test("parses an absolute or percentage default", () => {
+    expect(parseReservation("50MB").default).toEqual({ bytes: 50 * 1024 * 1024 })
+    expect(parseReservation("5%").default).toEqual({ percent: 5 })
+  })
+
+  test("parses per-disk overrides, with or without a default", () => {
+    const reservation = parseReservation("5%,disk1=200GB,/mnt/disk9=2%")
+
+    expect(reservation.default).toEqual({ percent: 5 })
+    expect(reservation.perDisk.get("/mnt/disk1")).toEqual({ bytes: 200 * 1024 * 1024 * 1024 })
+    expect(reservation.perDisk.get("/mnt/disk9")).toEqual({ percent: 2 })
+
+    expect(parseReservation("disk1=1GB").default).toEqual({ bytes: 50 * 1024 * 1024 })
+  })
+
+  test("throws on invalid input", () => {
+    expect(() => parseReservation("5%,10%")).toThrow()
+    expect(() => parseReservation("=1GB")).toThrow()
+    expect(() => parseReservation("disk1=lots")).toThrow()
+  })
+})
+
+describe("resolveSpaceAmount", () => {
+  test("resolves percentages against the disk size", () => {
+    expect(resolveSpaceAmount({ percent: 5 }, 1000)).toBe(50)
+    expect(resolveSpaceAmount({ bytes: 123 }, 1000)).toBe(123)
+  })
+})
@@ -65,6 +65,83 @@ export const parseSize = (input: string): number => {
   return Math.floor(num * multiplier)
 }
 
+/**
+ * Parse a percentage to a number of percentage points.
+ *
+ * @example
+ *   parsePercent("5%")  // 5
+ *   parsePercent("2.5") // 2.5
+ */
+export const parsePercent = (input: string): number => {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*%?$/)
+  const value = match?.[1] !== undefined ? parseFloat(match[1]) : NaN
+
+  if (Number.isNaN(value) || value > 100) {
+    throw new Error(`Invalid percentage: "${input}". Use formats like: 5%, 2.5%`)
+  }
+
+  return value
+}
+
+/** An amount of disk space: fixed, or a share of each disk's size */
+export type SpaceAmount = { readonly bytes: number } | { readonly percent: number }
+
+/** Space to keep free: a default for every disk plus per-disk overrides */
+export interface Reservation {
+  readonly default: SpaceAmount
+  /** Keyed by disk path ("disk1" is read as /mnt/disk1) */
+  readonly perDisk: ReadonlyMap<string, SpaceAmount>
+}
+
+/**
+ * Parse a size or a percentage of the disk.
+ *
+ * @example
+ *   parseSpaceAmount("50MB") // { bytes: 52428800 }
+ *   parseSpaceAmount("5%")   // { percent: 5 }
+ */
+export const parseSpaceAmount = (input: string): SpaceAmount =>
+  input.trim().endsWith("%") ? { percent: parsePercent(input) } : { bytes: parseSize(input) }
+
+/**
+ * Parse a min-space reservation: an optional default followed by per-disk
+ * overrides, comma-separated. Disks without an override get the default,
+ * or the fallback when no default is given.
+ *
+ * @example
+ *   parseReservation("5%")                        // 5% of every disk
+ *   parseReservation("50MB,disk1=200GB,disk9=2%") // 50MB, except disk1 and disk9
+ */
+export const parseReservation = (input: string, fallback: SpaceAmount = { bytes: 50 * 1024 * 1024 }): Reservation => {
+  let defaultAmount: SpaceAmount | undefined
+  const perDisk = new Map<string, SpaceAmount>()
+
+  for (const part of input.split(",").map((p) => p.trim()).filter((p) => p.length > 0)) {
+    const eq = part.indexOf("=")
+    if (eq === -1) {
+      if (defaultAmount !== undefined) {
+        throw new Error(`Invalid min-space: "${input}". Give one default, e.g. 5%,disk1=200GB`)
+      }
+      defaultAmount = parseSpaceAmount(part)
+      continue
+    }
+
+    const disk = part.slice(0, eq).trim()
+    if (disk === "") {
+      throw new Error(`Invalid min-space override: "${part}". Use formats like: disk1=200GB, disk9=2%`)
+    }
+    perDisk.set(disk.startsWith("/") ? disk : `/mnt/${disk}`, parseSpaceAmount(part.slice(eq + 1)))
+  }
+
+  return { default: defaultAmount ?? fallback, perDisk }
+}
+
+/**
+ * Bytes a space amount comes to on a disk of the given size.
+ */
+export const resolveSpaceAmount = (amount: SpaceAmount, totalBytes: number): number =>
+  "percent" in amount ? Math.ceil((totalBytes * amount.percent) / 100) : amount.bytes
+
 /**
  * Format bytes as human-readable string.
  * Handles negative values by preserving the sign.
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test"
+import { solveSubsetSum } from "./subsetSum"
+
+const pick = (sizes: number[], indices: ReadonlyArray<number>) =>
+  indices.map((i) => sizes[i] ?? 0).sort((a, b) => a - b)
+
+describe("solveSubsetSum", () => {
+  test("finds an exact fill that largest-first greedy misses", () => {
+    // Largest first takes 5 and nothing else fits; 3 + 3 fills it
+    const sizes = [5, 4, 3, 3]
+    const result = solveSubsetSum(sizes, 6)
+
+    expect(result.total).toBe(6)
+    expect(result.complete).toBe(true)
+    expect(pick(sizes, result.indices)).toEqual([3, 3])
+  })
+
+  test("prefers several small items over one large one when they fill better", () => {
+    const sizes = [540, 345, 200]
+    const result = solveSubsetSum(sizes, 550)
+
+    expect(result.total).toBe(545)
+    expect(pick(sizes, result.indices)).toEqual([200, 345])
+  })
+
+  test("returns the best fill when nothing fills exactly", () => {
+    const sizes = [7, 7, 7, 4]
+    const result = solveSubsetSum(sizes, 20)
+
+    expect(result.total).toBe(18)
+    expect(result.complete).toBe(true)
+  })
+
+  test("takes everything when it all fits", () => {
+    const result = solveSubsetSum([1, 2, 3], 100)
+
+    expect(result.total).toBe(6)
+    expect(result.indices).toHaveLength(3)
+  })
+
+  test("ignores items larger than the capacity", () => {
+    const result = solveSubsetSum([500, 3], 10)
+
+    expect(result.indices).toEqual([1])
+    expect(result.total).toBe(3)
+  })
+
+  test("returns nothing for an empty input", () => {
+    expect(solveSubsetSum([], 10)).toEqual({ indices: [], total: 0, complete: true })
+  })
+
+  test("stops early once the fill is within the slack", () => {
+    const result = solveSubsetSum([9, 5, 5], 10, { slack: 1 })
+
+    expect(result.total).toBe(9)
+    expect(result.complete).toBe(true)
+  })
+
+  test("returns the best fill so far when the deadline has passed", () => {
+    const sizes = Array.from({ length: 40 }, (_, i) => 1000 + i * 37)
+    const result = solveSubsetSum(sizes, 12345, { deadline: Date.now() - 1 })
+
+    expect(result.complete).toBe(false)
+    expect(result.total).toBeGreaterThan(0)
+    expect(result.total).toBeLessThanOrEqual(12345)
+  })
+})
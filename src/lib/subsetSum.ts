@@ -0,0 +1,101 @@
+/**
+ * Subset sum - pick the items that fill a capacity as closely as possible.
+ *
+ * Branch and bound over the items sorted largest first. Each branch takes
+ * every item that still fits before trying the branch without the last one
+ * taken, so dense fills are found early, and a branch is cut as soon as
+ * everything left in it could not beat the best fill so far.
+ *
+ * The search is exact unless it runs into its deadline, in which case the
+ * best fill found so far is returned and marked incomplete.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SubsetSumOptions {
+  /** Stop as soon as the unused capacity is at most this much (default: 0) */
+  readonly slack?: number
+  /** Date.now() after which the search stops with the best fill so far */
+  readonly deadline?: number
+}
+
+export interface SubsetSumResult {
+  /** Indices into the input sizes, largest item first */
+  readonly indices: ReadonlyArray<number>
+  readonly total: number
+  /** False when the deadline cut the search short - the fill may not be the best */
+  readonly complete: boolean
+}
+
+// =============================================================================
+// Solver
+// =============================================================================
+
+/**
+ * Choose the subset of sizes with the largest total that is <= capacity.
+ */
+export const solveSubsetSum = (
+  sizes: ReadonlyArray<number>,
+  capacity: number,
+  options: SubsetSumOptions = {}
+): SubsetSumResult => {
+  const target = capacity - (options.slack ?? 0)
+
+  // Items that can never fit are left out of the search
+  const order = sizes
+    .map((_, i) => i)
+    .filter((i) => (sizes[i] ?? 0) > 0 && (sizes[i] ?? 0) <= capacity)
+    .sort((a, b) => (sizes[b] ?? 0) - (sizes[a] ?? 0))
+  const n = order.length
+  const size = order.map((i) => sizes[i] ?? 0)
+
+  // remaining[i] = total of items i..n-1, the most a branch at i can still add
+  const remaining = new Array<number>(n + 1).fill(0)
+  for (let i = n - 1; i >= 0; i--) remaining[i] = (remaining[i + 1] ?? 0) + (size[i] ?? 0)
+
+  const chosen = new Array<boolean>(n).fill(false)
+  let best = 0
+  let bestChosen = chosen.slice()
+  let total = 0
+  let i = 0
+
+  const result = (complete: boolean): SubsetSumResult => ({
+    indices: order.filter((_, k) => bestChosen[k]),
+    total: best,
+    complete,
+  })
+
+  for (;;) {
+    // Take every item that still fits, unless the rest cannot beat the best
+    for (; i < n; i++) {
+      if (total + (remaining[i] ?? 0) <= best) break
+      const itemSize = size[i] ?? 0
+      if (total + itemSize <= capacity) {
+        chosen[i] = true
+        total += itemSize
+      }
+    }
+
+    if (total > best) {
+      best = total
+      bestChosen = chosen.slice()
+      if (best >= target) return result(true)
+    }
+
+    // Back up to the last item taken and try the branch without it
+    let j = i - 1
+    while (j >= 0 && !chosen[j]) j--
+    if (j < 0) return result(true)
+
+    chosen[j] = false
+    total -= size[j] ?? 0
+    i = j + 1
+
+    // Leaving an item out and taking an equal one after it is the same fill
+    while (i < n && size[i] === size[j]) i++
+
+    if (options.deadline !== undefined && Date.now() > options.deadline) return result(false)
+  }
+}
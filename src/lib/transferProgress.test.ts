@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test"
+import { createTransferProgressTracker, parseRsyncProgress, type BatchProgress } from "./transferProgress"
+
+const MB = 1024 * 1024
+
+const batch = (overrides: Partial<BatchProgress>): BatchProgress => ({
+  sourceDisk: "/mnt/disk1",
+  targetDisk: "/mnt/disk2",
+  totalBytes: 100 * MB,
+  bytesTransferred: 0,
+  speedBytesPerSec: 0,
+  currentFile: "",
+  status: "running",
+  ...overrides,
+})
+
+describe("transferProgress", () => {
+  describe("parseRsyncProgress", () => {
+    test("parses a progress2 line", () => {
+      expect(parseRsyncProgress("  1,234,567,890  45%  110.50MB/s    0:01:23 (xfr#3, to-chk=5/10)")).toEqual({
+        bytesTransferred: 1234567890,
+        percent: 45,
+        speedBytesPerSec: 110.5 * MB,
+      })
+    })
+
+    test("accepts other thousands separators and rate units", () => {
+      expect(parseRsyncProgress("      32.768   0%    1.00kB/s    0:00:00")).toEqual({
+        bytesTransferred: 32768,
+        percent: 0,
+        speedBytesPerSec: 1024,
+      })
+    })
+
+    test("ignores file names and other output", () => {
+      expect(parseRsyncProgress("Movies/Film (2020)/film.mkv")).toBeUndefined()
+      expect(parseRsyncProgress("")).toBeUndefined()
+      expect(parseRsyncProgress("sent 1,234 bytes  received 35 bytes")).toBeUndefined()
+    })
+  })
+
+  describe("createTransferProgressTracker", () => {
+    test("sums running batches per target disk", () => {
+      const tracker = createTransferProgressTracker(
+        new Map([
+          ["/mnt/disk2", 300 * MB],
+          ["/mnt/disk3", 50 * MB],
+        ])
+      )
+
+      tracker.update(batch({ bytesTransferred: 40 * MB, speedBytesPerSec: 10 * MB, currentFile: "a.mkv" }))
+      tracker.update(
+        batch({ sourceDisk: "/mnt/disk4", totalBytes: 200 * MB, bytesTransferred: 60 * MB, speedBytesPerSec: 20 * MB, currentFile: "b.mkv" })
+      )
+
+      const [disk2, disk3] = tracker.snapshot().disks
+      expect(disk2).toMatchObject({
+        diskPath: "/mnt/disk2",
+        bytesTransferred: 100 * MB,
+        totalBytes: 300 * MB,
+        speedBytesPerSec: 30 * MB,
+        currentFile: "b.mkv",
+        status: "running",
+      })
+      expect(disk3).toMatchObject({ bytesTransferred: 0, status: "pending" })
+    })
+
+    test("a disk is done once all of its bytes are done and errors are kept", () => {
+      const tracker = createTransferProgressTracker(
+        new Map([
+          ["/mnt/disk2", 100 * MB],
+          ["/mnt/disk3", 100 * MB],
+        ])
+      )
+
+      tracker.update(batch({ bytesTransferred: 100 * MB, status: "done" }))
+      tracker.update(batch({ targetDisk: "/mnt/disk3", bytesTransferred: 5 * MB, status: "error", error: "rsync exited with 23" }))
+
+      const [disk2, disk3] = tracker.snapshot().disks
+      expect(disk2?.status).toBe("done")
+      expect(disk3).toMatchObject({ status: "error", error: "rsync exited with 23", bytesTransferred: 5 * MB })
+    })
+  })
+})
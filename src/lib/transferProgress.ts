@@ -0,0 +1,121 @@
+/**
+ * Transfer progress - rsync --info=progress2 parsing and per-disk totals.
+ *
+ * rsync reports one running total per batch. Batches are aggregated by
+ * target disk so the UI shows one line per disk being filled.
+ */
+
+import type { DiskProgress, OverallProgress } from "../infra/TerminalUIService"
+
+// =============================================================================
+// rsync output parsing
+// =============================================================================
+
+export interface RsyncProgress {
+  readonly bytesTransferred: number
+  readonly percent: number
+  readonly speedBytesPerSec: number
+}
+
+// e.g. "  1,234,567,890  45%  110.23MB/s    0:01:23 (xfr#3, to-chk=5/10)"
+const PROGRESS_LINE = /^\s*([\d,.]+)\s+(\d+)%\s+([\d.]+)([kMGT]?B)\/s\s+\d+:\d{2}:\d{2}/
+
+// rsync scales its rate by 1024 per unit
+const RATE_UNITS: Record<string, number> = {
+  B: 1,
+  kB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+}
+
+/**
+ * Parse a progress2 status line. Returns undefined for any other output
+ * (file names printed by --info=name1, blank lines, summaries).
+ */
+export const parseRsyncProgress = (line: string): RsyncProgress | undefined => {
+  const match = PROGRESS_LINE.exec(line)
+  if (!match?.[1] || !match[2] || !match[3] || !match[4]) return undefined
+
+  return {
+    // Thousands separators depend on the locale (1,234 or 1.234)
+    bytesTransferred: Number(match[1].replace(/[^\d]/g, "")),
+    percent: Number(match[2]),
+    speedBytesPerSec: Number(match[3]) * (RATE_UNITS[match[4]] ?? 1),
+  }
+}
+
+// =============================================================================
+// Per-disk aggregation
+// =============================================================================
+
+export interface BatchProgress {
+  readonly sourceDisk: string
+  readonly targetDisk: string
+  readonly totalBytes: number
+  readonly bytesTransferred: number
+  readonly speedBytesPerSec: number
+  readonly currentFile: string
+  readonly status: "running" | "done" | "error"
+  readonly error?: string
+}
+
+export interface TransferProgressTracker {
+  /** Record the latest state of a batch */
+  readonly update: (batch: BatchProgress) => void
+  /** Current progress per target disk */
+  readonly snapshot: () => OverallProgress
+}
+
+/**
+ * Track batch updates and roll them up per target disk.
+ *
+ * @param totalBytesPerDisk - bytes planned for each target disk
+ */
+export const createTransferProgressTracker = (
+  totalBytesPerDisk: ReadonlyMap<string, number>,
+  startedAt: number = Date.now()
+): TransferProgressTracker => {
+  const batches = new Map<string, BatchProgress>()
+
+  const update = (batch: BatchProgress): void => {
+    batches.set(`${batch.sourceDisk}\0${batch.targetDisk}`, batch)
+  }
+
+  const snapshot = (): OverallProgress => {
+    const disks: DiskProgress[] = [...totalBytesPerDisk].map(([diskPath, totalBytes]) => {
+      const diskBatches = [...batches.values()].filter((b) => b.targetDisk === diskPath)
+      const running = diskBatches.filter((b) => b.status === "running")
+      const failed = diskBatches.find((b) => b.status === "error")
+      const latest = running[running.length - 1] ?? diskBatches[diskBatches.length - 1]
+
+      const bytesTransferred = Math.min(
+        totalBytes,
+        diskBatches.reduce((sum, b) => sum + b.bytesTransferred, 0)
+      )
+      const doneBytes = diskBatches
+        .filter((b) => b.status === "done")
+        .reduce((sum, b) => sum + b.totalBytes, 0)
+
+      const status: DiskProgress["status"] =
+        running.length > 0 ? "running" :
+        failed ? "error" :
+        diskBatches.length > 0 && doneBytes >= totalBytes ? "done" :
+        "pending"
+
+      return {
+        diskPath,
+        bytesTransferred,
+        totalBytes,
+        currentFile: latest?.currentFile ?? "",
+        speedBytesPerSec: running.reduce((sum, b) => sum + b.speedBytesPerSec, 0),
+        status,
+        ...(failed?.error !== undefined ? { error: failed.error } : {}),
+      }
+    })
+
+    return { disks, startedAt }
+  }
+
+  return { update, snapshot }
+}
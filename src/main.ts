@@ -7,6 +7,10 @@
  * Commands:
  *   plan  - Scan source disk, compute optimal moves, save plan
  *   apply - Execute the saved plan
+ *   show  - Display the saved plan
+ *   export - Write the remaining moves of the saved plan as an rsync script
+ *   analyze - Report disk fill, split folders and clutter without planning
+ *   cache - Inspect or clear the scan cache
  *
  * Example:
  *   $ unraid-bin-pack plan                    # auto-discover disks
@@ -19,7 +23,17 @@ import { BunContext, BunRuntime } from "@effect/platform-bun"
 import { Effect, Option, Logger, LogLevel } from "effect"
 
 import * as Opts from "./cli/options"
-import { runPlan, runApply, runShow, createAppLayer, withErrorHandling } from "./cli/handler"
+import {
+  runPlan,
+  runApply,
+  runShow,
+  runExport,
+  runAnalyze,
+  runCacheStats,
+  runCacheClear,
+  createAppLayer,
+  withErrorHandling,
+} from "./cli/handler"
 
 // =============================================================================
 // Plan subcommand
@@ -31,13 +45,25 @@ const planCommand = Command.make(
     src: Opts.src,
     dest: Opts.dest,
     minSpace: Opts.minSpace,
+    maxFill: Opts.maxFill,
     minFileSize: Opts.minFileSize,
     pathFilter: Opts.pathFilter,
     include: Opts.include,
     exclude: Opts.exclude,
     minSplitSize: Opts.minSplitSize,
     moveAsFolderThreshold: Opts.moveAsFolderThreshold,
+    groupDepth: Opts.groupDepth,
     planFile: Opts.planFile,
+    rescan: Opts.rescan,
+    cacheFile: Opts.cacheFile,
+    sharesDir: Opts.sharesDir,
+    solverTimeBudget: Opts.solverTimeBudget,
+    strategy: Opts.strategy,
+    mode: Opts.mode,
+    tolerance: Opts.tolerance,
+    evacuate: Opts.evacuate,
+    goal: Opts.goal,
+    undo: Opts.undo,
     force: Opts.force,
     debug: Opts.debug,
   },
@@ -47,13 +73,25 @@ const planCommand = Command.make(
       Option.isNone(opts.src) &&
       Option.isNone(opts.dest) &&
       Option.isNone(opts.minSpace) &&
+      Option.isNone(opts.maxFill) &&
       Option.isNone(opts.minFileSize) &&
       Option.isNone(opts.pathFilter) &&
       Option.isNone(opts.include) &&
       Option.isNone(opts.exclude) &&
       Option.isNone(opts.minSplitSize) &&
       Option.isNone(opts.moveAsFolderThreshold) &&
+      Option.isNone(opts.groupDepth) &&
       Option.isNone(opts.planFile) &&
+      !opts.rescan &&
+      Option.isNone(opts.cacheFile) &&
+      Option.isNone(opts.sharesDir) &&
+      Option.isNone(opts.solverTimeBudget) &&
+      Option.isNone(opts.strategy) &&
+      Option.isNone(opts.mode) &&
+      Option.isNone(opts.tolerance) &&
+      Option.isNone(opts.evacuate) &&
+      Option.isNone(opts.goal) &&
+      Option.isNone(opts.undo) &&
       !opts.force &&
       !opts.debug
 
@@ -64,13 +102,25 @@ const planCommand = Command.make(
         src: Option.getOrUndefined(opts.src),
         dest: Option.getOrUndefined(opts.dest),
         minSpace: Option.getOrUndefined(opts.minSpace),
+        maxFill: Option.getOrUndefined(opts.maxFill),
         minFileSize: Option.getOrUndefined(opts.minFileSize),
         pathFilter: Option.getOrUndefined(opts.pathFilter),
         include: Option.getOrUndefined(opts.include),
         exclude: Option.getOrUndefined(opts.exclude),
         minSplitSize: Option.getOrUndefined(opts.minSplitSize),
         moveAsFolderThreshold: Option.getOrUndefined(opts.moveAsFolderThreshold),
+        groupDepth: Option.getOrUndefined(opts.groupDepth),
         planFile: Option.getOrUndefined(opts.planFile),
+        rescan: opts.rescan,
+        cacheFile: Option.getOrUndefined(opts.cacheFile),
+        sharesDir: Option.getOrUndefined(opts.sharesDir),
+        solverTimeBudget: Option.getOrUndefined(opts.solverTimeBudget),
+        strategy: Option.getOrUndefined(opts.strategy),
+        mode: Option.getOrUndefined(opts.mode),
+        tolerance: Option.getOrUndefined(opts.tolerance),
+        evacuate: Option.getOrUndefined(opts.evacuate),
+        goal: Option.getOrUndefined(opts.goal),
+        undo: Option.getOrUndefined(opts.undo),
         force: opts.force,
         debug: opts.debug,
       }, isInteractive)
@@ -94,14 +144,24 @@ const applyCommand = Command.make(
   {
     planFile: Opts.planFile,
     concurrency: Opts.concurrency,
+    sourceConcurrency: Opts.sourceConcurrency,
+    targetConcurrency: Opts.targetConcurrency,
     dryRun: Opts.dryRun,
+    onStale: Opts.onStale,
+    verify: Opts.verify,
+    pruneEmptyDirs: Opts.pruneEmptyDirs,
   },
   (opts) =>
     withErrorHandling(
       runApply({
         planFile: Option.getOrUndefined(opts.planFile),
         concurrency: opts.concurrency,
+        sourceConcurrency: opts.sourceConcurrency,
+        targetConcurrency: opts.targetConcurrency,
         dryRun: opts.dryRun,
+        onStale: opts.onStale,
+        verify: opts.verify,
+        pruneEmptyDirs: opts.pruneEmptyDirs,
       })
     ).pipe(Effect.provide(createAppLayer()))
 ).pipe(
@@ -127,12 +187,118 @@ const showCommand = Command.make(
   Command.withDescription("Display the saved move plan")
 )
 
+// =============================================================================
+// Export subcommand
+// =============================================================================
+
+const exportCommand = Command.make(
+  "export",
+  {
+    planFile: Opts.planFile,
+    output: Opts.output,
+    concurrency: Opts.concurrency,
+  },
+  (opts) =>
+    withErrorHandling(
+      runExport({
+        planFile: Option.getOrUndefined(opts.planFile),
+        output: Option.getOrUndefined(opts.output),
+        concurrency: opts.concurrency,
+      })
+    ).pipe(Effect.provide(createAppLayer()))
+).pipe(
+  Command.withDescription("Write the saved move plan as a bash script of rsync commands")
+)
+
+// =============================================================================
+// Analyze subcommand
+// =============================================================================
+
+const analyzeCommand = Command.make(
+  "analyze",
+  {
+    dest: Opts.dest,
+    minSpace: Opts.minSpace,
+    maxFill: Opts.maxFill,
+    minFileSize: Opts.minFileSize,
+    pathFilter: Opts.pathFilter,
+    include: Opts.include,
+    exclude: Opts.exclude,
+    groupDepth: Opts.groupDepth,
+    rescan: Opts.rescan,
+    cacheFile: Opts.cacheFile,
+    json: Opts.json,
+    debug: Opts.debug,
+  },
+  (opts) =>
+    withErrorHandling(
+      runAnalyze({
+        dest: Option.getOrUndefined(opts.dest),
+        minSpace: Option.getOrUndefined(opts.minSpace),
+        maxFill: Option.getOrUndefined(opts.maxFill),
+        minFileSize: Option.getOrUndefined(opts.minFileSize),
+        pathFilter: Option.getOrUndefined(opts.pathFilter),
+        include: Option.getOrUndefined(opts.include),
+        exclude: Option.getOrUndefined(opts.exclude),
+        groupDepth: Option.getOrUndefined(opts.groupDepth),
+        rescan: opts.rescan,
+        cacheFile: Option.getOrUndefined(opts.cacheFile),
+        json: opts.json,
+        debug: opts.debug,
+      })
+    ).pipe(
+      opts.debug ? Effect.provide(Logger.minimumLogLevel(LogLevel.Debug)) : (x => x),
+      Effect.provide(createAppLayer())
+    )
+).pipe(
+  Command.withDescription("Report disk fill, split folders and clutter without planning any moves")
+)
+
+// =============================================================================
+// Cache subcommand
+// =============================================================================
+
+const cacheStatsCommand = Command.make(
+  "stats",
+  {
+    cacheFile: Opts.cacheFile,
+  },
+  (opts) =>
+    withErrorHandling(
+      runCacheStats({
+        cacheFile: Option.getOrUndefined(opts.cacheFile),
+      })
+    ).pipe(Effect.provide(createAppLayer()))
+).pipe(
+  Command.withDescription("Show what the scan cache holds per disk")
+)
+
+const cacheClearCommand = Command.make(
+  "clear",
+  {
+    cacheFile: Opts.cacheFile,
+  },
+  (opts) =>
+    withErrorHandling(
+      runCacheClear({
+        cacheFile: Option.getOrUndefined(opts.cacheFile),
+      })
+    ).pipe(Effect.provide(createAppLayer()))
+).pipe(
+  Command.withDescription("Delete the scan cache")
+)
+
+const cacheCommand = Command.make("cache", {}).pipe(
+  Command.withSubcommands([cacheStatsCommand, cacheClearCommand]),
+  Command.withDescription("Inspect or clear the scan cache")
+)
+
 // =============================================================================
 // Root command
 // =============================================================================
 
 const rootCommand = Command.make("unraid-bin-pack", {}).pipe(
-  Command.withSubcommands([planCommand, applyCommand, showCommand]),
+  Command.withSubcommands([planCommand, applyCommand, showCommand, exportCommand, analyzeCommand, cacheCommand]),
   Command.withDescription(
     "Consolidate files across Unraid disks using bin-packing"
   )
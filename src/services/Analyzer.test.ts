@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test"
+import { Effect } from "effect"
+import { analyzeArray } from "./Analyzer"
+import type { ConsolidationOptions } from "./SimpleConsolidator"
+import type { WorldView } from "../domain/WorldView"
+import { MB, createFile } from "../test/fixtures"
+
+const run = (worldView: WorldView, options: Partial<ConsolidationOptions> = {}) =>
+  Effect.runPromise(analyzeArray(worldView, { minSpaceBytes: 0, ...options }))
+
+const disk = (path: string, freeMB: number) => ({ path, totalBytes: 1000 * MB, freeBytes: freeMB * MB })
+
+describe("analyzeArray", () => {
+  test("reports fill and small-file clutter per disk, ignoring /mnt/disks", async () => {
+    const report = await run(
+      {
+        disks: [disk("/mnt/disk1", 250), disk("/mnt/disk2", 900), disk("/mnt/disks", 0)],
+        files: [
+          createFile("/mnt/disk1", "Movies/Film/film.mkv", 700),
+          createFile("/mnt/disk1", "Movies/Film/film.nfo", 0.01),
+          createFile("/mnt/disk2", "TV/Show/ep01.mkv", 100),
+          createFile("/mnt/disks", "usb/photo.jpg", 0.5),
+        ],
+      },
+      { minFileSizeBytes: MB }
+    )
+
+    expect(report.disks.map((d) => [d.path, d.usedPct, d.files, d.smallFiles])).toEqual([
+      ["/mnt/disk1", 75, 2, 1],
+      ["/mnt/disk2", 10, 1, 0],
+    ])
+    expect(report.smallFiles.count).toBe(1)
+    expect(report.smallFiles.bytes).toBe(0.01 * MB)
+  })
+
+  test("counts split folders and lists the largest by bytes to gather", async () => {
+    const report = await run({
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500), disk("/mnt/disk3", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/Season 1/ep01.mkv", 300),
+        createFile("/mnt/disk2", "TV/Show/Season 1/ep02.mkv", 100),
+        createFile("/mnt/disk3", "TV/Show/Season 1/ep03.mkv", 50),
+        createFile("/mnt/disk1", "Movies/Film/film.mkv", 20),
+        createFile("/mnt/disk2", "Movies/Film/extras.mkv", 200),
+        createFile("/mnt/disk3", "Movies/Other/other.mkv", 200),
+      ],
+    })
+
+    expect(report.splitFolders).toBe(2)
+    expect(report.scatteredBytes).toBe(170 * MB)
+    expect(report.largestSplits.map((s) => [s.folderPath, s.scatteredBytes / MB])).toEqual([
+      ["TV/Show/Season 1", 150],
+      ["Movies/Film", 20],
+    ])
+    expect(report.largestSplits[0]?.disks.map((d) => d.diskPath)).toEqual(["/mnt/disk1", "/mnt/disk2", "/mnt/disk3"])
+  })
+
+  test("splits follow --group-depth and --path-filter", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/Season 1/ep01.mkv", 100),
+        createFile("/mnt/disk2", "TV/Show/Season 2/ep01.mkv", 100),
+        createFile("/mnt/disk1", "Movies/Film/film.mkv", 100),
+        createFile("/mnt/disk2", "Movies/Film/extras.mkv", 10),
+      ],
+    }
+
+    expect((await run(worldView)).splitFolders).toBe(1)
+    expect((await run(worldView, { groupingRules: [{ prefix: "TV", depth: 1 }] })).splitFolders).toBe(2)
+    expect((await run(worldView, { pathPrefixes: ["/TV"] })).splitFolders).toBe(0)
+  })
+
+  test("lists files larger than the room on every other disk, after min-space", async () => {
+    const report = await run(
+      {
+        disks: [disk("/mnt/disk1", 100), disk("/mnt/disk2", 300), disk("/mnt/disk3", 350)],
+        files: [
+          createFile("/mnt/disk1", "Movies/Big/big.mkv", 400),
+          createFile("/mnt/disk1", "Movies/Mid/mid.mkv", 250),
+          createFile("/mnt/disk3", "Movies/Other/other.mkv", 280),
+        ],
+      },
+      { reservedBytesByDisk: new Map([["/mnt/disk3", 100 * MB]]) }
+    )
+
+    // disk3 has 250MB of room: mid.mkv fits, other.mkv's best is disk2
+    expect(report.oversizedFiles).toEqual([
+      { path: "/mnt/disk1/Movies/Big/big.mkv", sizeBytes: 400 * MB, largestRoomBytes: 300 * MB },
+    ])
+  })
+})
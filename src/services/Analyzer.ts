@@ -0,0 +1,147 @@
+/**
+ * Analyzer - report how fragmented the array is, without planning any moves
+ *
+ * Answers the questions that decide between consolidate, balance and gather:
+ * how full each disk is, how many folders are split across disks (at the
+ * --group-depth depth where a rule covers them), which files no other disk
+ * has room for, and how much small-file clutter sits below --min-file-size.
+ *
+ * Fill and clutter cover every scanned file; splits and oversized files
+ * cover the files --path-filter and --include select, as plan would.
+ */
+
+import { Effect } from "effect"
+import { uniqueBytes, type FileEntry } from "../domain/FileEntry"
+import { isArrayDisk, usagePercent } from "../domain/Disk"
+import type { WorldView } from "../domain/WorldView"
+import { findScatteredFolders } from "./Gatherer"
+import { reservedBytesFor, selectCandidateFiles, type ConsolidationOptions } from "./SimpleConsolidator"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DiskHealth {
+  readonly path: string
+  readonly totalBytes: number
+  readonly freeBytes: number
+  readonly usedPct: number
+  readonly files: number
+  /** Files below --min-file-size, which plan never moves */
+  readonly smallFiles: number
+  readonly smallFileBytes: number
+}
+
+/** A folder with files on more than one disk */
+export interface FolderSplit {
+  readonly folderPath: string
+  readonly totalBytes: number
+  /** Bytes not on the disk holding the most, i.e. what gathering would move */
+  readonly scatteredBytes: number
+  /** Bytes on each disk holding part of the folder, most first */
+  readonly disks: ReadonlyArray<{ readonly diskPath: string; readonly bytes: number }>
+}
+
+/** A file larger than the room (free space less min-space) on every other disk */
+export interface OversizedFile {
+  readonly path: string
+  readonly sizeBytes: number
+  readonly largestRoomBytes: number
+}
+
+export interface ArrayReport {
+  readonly disks: ReadonlyArray<DiskHealth>
+  readonly splitFolders: number
+  readonly scatteredBytes: number
+  /** The splits that would move the most bytes to gather, largest first */
+  readonly largestSplits: ReadonlyArray<FolderSplit>
+  readonly oversizedFiles: ReadonlyArray<OversizedFile>
+  readonly smallFiles: {
+    readonly minFileSizeBytes: number
+    readonly count: number
+    readonly bytes: number
+  }
+}
+
+/** How many splits the report lists */
+export const LARGEST_SPLITS_SHOWN = 10
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+export const analyzeArray = (
+  worldView: WorldView,
+  options: ConsolidationOptions
+): Effect.Effect<ArrayReport, never> =>
+  Effect.gen(function* () {
+    const disks = worldView.disks.filter(isArrayDisk)
+    const inScope = new Set(disks.map((d) => d.path))
+    const files = worldView.files.filter((f) => inScope.has(f.diskPath))
+    const minFileSizeBytes = options.minFileSizeBytes ?? 0
+
+    const filesByDisk = new Map<string, FileEntry[]>()
+    for (const file of files) {
+      const onDisk = filesByDisk.get(file.diskPath) ?? []
+      onDisk.push(file)
+      filesByDisk.set(file.diskPath, onDisk)
+    }
+
+    const diskHealth = disks.map((disk): DiskHealth => {
+      const onDisk = filesByDisk.get(disk.path) ?? []
+      const small = onDisk.filter((f) => f.sizeBytes < minFileSizeBytes)
+      return {
+        path: disk.path,
+        totalBytes: disk.totalBytes,
+        freeBytes: disk.freeBytes,
+        usedPct: usagePercent(disk),
+        files: onDisk.length,
+        smallFiles: small.length,
+        smallFileBytes: uniqueBytes(small),
+      }
+    })
+
+    const candidateFiles = yield* selectCandidateFiles(files, options)
+
+    const splits = findScatteredFolders(candidateFiles, options.groupingRules)
+      .map((folder): FolderSplit => {
+        const byDisk = [...folder.parts]
+          .map(([diskPath, parts]) => ({ diskPath, bytes: uniqueBytes(parts) }))
+          .sort((a, b) => b.bytes - a.bytes)
+        return {
+          folderPath: folder.folderPath,
+          totalBytes: folder.totalBytes,
+          scatteredBytes: byDisk.slice(1).reduce((sum, part) => sum + part.bytes, 0),
+          disks: byDisk,
+        }
+      })
+      .sort((a, b) => b.scatteredBytes - a.scatteredBytes)
+
+    // Room on every disk except the file's own, largest first
+    const rooms = disks
+      .map((d) => ({ path: d.path, bytes: Math.max(0, d.freeBytes - reservedBytesFor(options, d.path)) }))
+      .sort((a, b) => b.bytes - a.bytes)
+    const largestRoomOff = (diskPath: string) => rooms.find((room) => room.path !== diskPath)?.bytes ?? 0
+
+    const oversizedFiles = candidateFiles
+      .filter((f) => f.sizeBytes >= minFileSizeBytes && f.sizeBytes > largestRoomOff(f.diskPath))
+      .map((f) => ({ path: f.absolutePath, sizeBytes: f.sizeBytes, largestRoomBytes: largestRoomOff(f.diskPath) }))
+      .sort((a, b) => b.sizeBytes - a.sizeBytes)
+
+    yield* Effect.logDebug(
+      `Analyzed ${files.length} files on ${disks.length} disks: ${splits.length} split folder(s), ${oversizedFiles.length} file(s) too large to move`
+    )
+
+    return {
+      disks: diskHealth,
+      splitFolders: splits.length,
+      scatteredBytes: splits.reduce((sum, split) => sum + split.scatteredBytes, 0),
+      largestSplits: splits.slice(0, LARGEST_SPLITS_SHOWN),
+      oversizedFiles,
+      smallFiles: {
+        minFileSizeBytes,
+        count: diskHealth.reduce((sum, d) => sum + d.smallFiles, 0),
+        bytes: diskHealth.reduce((sum, d) => sum + d.smallFileBytes, 0),
+      },
+    }
+  })
@@ -0,0 +1,181 @@
+import { describe, test, expect } from "bun:test"
+import { Effect } from "effect"
+import { balanceDisks, fillSpread, type BalanceOptions } from "./Balancer"
+import type { WorldView } from "../domain/WorldView"
+import { MB, createFile } from "../test/fixtures"
+
+const run = (worldView: WorldView, options: Partial<BalanceOptions> = {}) =>
+  Effect.runPromise(balanceDisks(worldView, { minSpaceBytes: 0, tolerancePct: 5, ...options }))
+
+/** Disk stats after applying the moves, for checking the resulting fill */
+const disksAfter = (worldView: WorldView, moves: ReadonlyArray<{ file: { diskPath: string; sizeBytes: number }; targetDiskPath: string }>) =>
+  worldView.disks.map((disk) => {
+    const freed = moves.filter((m) => m.file.diskPath === disk.path).reduce((sum, m) => sum + m.file.sizeBytes, 0)
+    const used = moves.filter((m) => m.targetDiskPath === disk.path).reduce((sum, m) => sum + m.file.sizeBytes, 0)
+    return { ...disk, freeBytes: disk.freeBytes + freed - used }
+  })
+
+describe("fillSpread", () => {
+  test("reports min, max and the array-wide average fill", () => {
+    const spread = fillSpread([
+      { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB }, // 90%
+      { path: "/mnt/disk2", totalBytes: 3000 * MB, freeBytes: 2700 * MB }, // 10%
+    ])
+
+    expect(spread.minPct).toBeCloseTo(10)
+    expect(spread.maxPct).toBeCloseTo(90)
+    expect(spread.averagePct).toBeCloseTo(30) // 1200 of 4000
+  })
+
+  test("ignores /mnt/disks", () => {
+    const spread = fillSpread([
+      { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      { path: "/mnt/disks", totalBytes: 1000 * MB, freeBytes: 0 },
+    ])
+
+    expect(spread.maxPct).toBeCloseTo(50)
+  })
+})
+
+describe("balanceDisks", () => {
+  test("levels a full disk and an empty one to the average", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+      ],
+      files: [
+        ...Array.from({ length: 9 }, (_, i) => createFile("/mnt/disk1", `file${i}.mkv`, 100)),
+        createFile("/mnt/disk2", "other.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves).toHaveLength(4)
+    expect(result.moves.every((m) => m.targetDiskPath === "/mnt/disk2")).toBe(true)
+    const after = fillSpread(disksAfter(worldView, result.moves))
+    expect(after.maxPct - after.minPct).toBeLessThanOrEqual(10)
+  })
+
+  test("leaves disks already within the tolerance alone", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 480 * MB }, // 52%
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 520 * MB }, // 48%
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 520), createFile("/mnt/disk2", "b.mkv", 480)],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves).toHaveLength(0)
+  })
+
+  test("moves the smallest unit that closes the gap", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 300 * MB }, // 70%
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 700 * MB }, // 30%
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 300),
+        createFile("/mnt/disk1", "b.mkv", 250),
+        createFile("/mnt/disk1", "c.mkv", 150),
+        createFile("/mnt/disk2", "d.mkv", 300),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves.map((m) => m.file.relativePath)).toEqual(["c.mkv"])
+  })
+
+  test("never overshoots the band to move a unit", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 400 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "huge.mkv", 600)],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves).toHaveLength(0)
+  })
+
+  test("respects the min-space reservation", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+        { path: "/mnt/disk2", totalBytes: 200 * MB, freeBytes: 200 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 100), createFile("/mnt/disk1", "b.mkv", 800)],
+    }
+
+    const result = await run(worldView, { minSpaceBytes: 150 * MB })
+
+    expect(result.moves).toHaveLength(0)
+  })
+
+  test("keeps movie folders together", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "Movies/Film (2020)/film.mkv", 400),
+        createFile("/mnt/disk1", "Movies/Film (2020)/film.srt", 1),
+        createFile("/mnt/disk1", "Movies/Other (2019)/other.mkv", 499),
+        createFile("/mnt/disk2", "misc.bin", 100),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual([
+      "Movies/Film (2020)/film.mkv",
+      "Movies/Film (2020)/film.srt",
+    ])
+    expect(result.foldersPlaced).toBe(1)
+  })
+
+  test("only moves files off --src disks", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB }, // 90%
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 300 * MB }, // 70%
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+      ],
+      files: [
+        ...Array.from({ length: 9 }, (_, i) => createFile("/mnt/disk1", `a${i}.mkv`, 100)),
+        ...Array.from({ length: 7 }, (_, i) => createFile("/mnt/disk2", `b${i}.mkv`, 100)),
+      ],
+    }
+
+    const result = await run(worldView, { srcDiskPaths: ["/mnt/disk2"] })
+
+    expect(result.moves.length).toBeGreaterThan(0)
+    expect(result.moves.every((m) => m.file.diskPath === "/mnt/disk2")).toBe(true)
+  })
+
+  test("never moves onto /mnt/disks", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+        { path: "/mnt/disks", totalBytes: 10000 * MB, freeBytes: 10000 * MB },
+      ],
+      files: [
+        ...Array.from({ length: 9 }, (_, i) => createFile("/mnt/disk1", `file${i}.mkv`, 100)),
+        createFile("/mnt/disk2", "other.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves.every((m) => m.targetDiskPath !== "/mnt/disks")).toBe(true)
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Balancer - level every disk to a similar fill percentage
+ *
+ * The target is the array-wide fill (used bytes over total bytes of every
+ * disk in scope). A disk is balanced when its fill is within the tolerance,
+ * in percentage points, of that target.
+ *
+ * Algorithm (greedy, one disk pair at a time):
+ * 1. Pair the fullest disk with the emptiest one, where at least one of the
+ *    two is outside the band
+ * 2. Move units from the fuller disk until the pair's imbalance is covered,
+ *    never pushing the destination above the band (or into min-space) or the
+ *    source below it
+ * 3. Repeat until every disk is in the band or no pair can make progress
+ *
+ * Units are picked to close the gap in as few moves as possible: the smallest
+ * unit that covers what is still needed, otherwise the largest that fits.
+ * Folders and hardlinks are kept together exactly as in consolidation, and a
+ * unit is moved at most once. Share settings limit where a unit may go the
+ * same way too.
+ */
+
+import { Effect } from "effect"
+import { uniqueBytes } from "../domain/FileEntry"
+import { createFileMove, type FileMove } from "../domain/MovePlan"
+import { isArrayDisk, usagePercent } from "../domain/Disk"
+import type { DiskState, WorldView } from "../domain/WorldView"
+import {
+  packingUnitsForDisk,
+  reservedBytesForUnit,
+  selectCandidateFiles,
+  splitOversizedUnits,
+  unitAllowedOn,
+  type ConsolidationOptions,
+  type ConsolidationResult,
+  type PackingUnit,
+} from "./SimpleConsolidator"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BalanceOptions extends ConsolidationOptions {
+  /** Allowed distance from the average fill, in percentage points */
+  readonly tolerancePct: number
+}
+
+/** Lowest, highest and array-wide fill percentage across a set of disks */
+export interface FillSpread {
+  readonly minPct: number
+  readonly maxPct: number
+  readonly averagePct: number
+}
+
+interface BalanceDisk {
+  readonly path: string
+  readonly totalBytes: number
+  usedBytes: number
+  freeBytes: number
+  units: PackingUnit[]
+}
+
+// =============================================================================
+// Fill Spread
+// =============================================================================
+
+/**
+ * Disks that take part in balancing: array disks that report a size.
+ */
+export const balanceScope = <D extends DiskState>(disks: ReadonlyArray<D>): ReadonlyArray<D> =>
+  disks.filter((d) => isArrayDisk(d) && d.totalBytes > 0)
+
+export const fillSpread = (disks: ReadonlyArray<DiskState>): FillSpread => {
+  const inScope = balanceScope(disks)
+  if (inScope.length === 0) return { minPct: 0, maxPct: 0, averagePct: 0 }
+
+  const percents = inScope.map(usagePercent)
+  const totalBytes = inScope.reduce((sum, d) => sum + d.totalBytes, 0)
+  const usedBytes = inScope.reduce((sum, d) => sum + d.totalBytes - d.freeBytes, 0)
+
+  return {
+    minPct: Math.min(...percents),
+    maxPct: Math.max(...percents),
+    averagePct: (usedBytes / totalBytes) * 100,
+  }
+}
+
+// =============================================================================
+// Balancing
+// =============================================================================
+
+export const balanceDisks = (
+  worldView: WorldView,
+  options: BalanceOptions
+): Effect.Effect<ConsolidationResult, never> =>
+  Effect.gen(function* () {
+    const candidateFiles = yield* selectCandidateFiles(worldView.files, options)
+    const srcDiskPaths = options.srcDiskPaths ?? []
+
+    const disks: BalanceDisk[] = []
+    for (const disk of balanceScope(worldView.disks)) {
+      const canGive = srcDiskPaths.length === 0 || srcDiskPaths.includes(disk.path)
+      const units = canGive
+        ? yield* packingUnitsForDisk(disk.path, candidateFiles, worldView.files, options)
+        : []
+      disks.push({
+        path: disk.path,
+        totalBytes: disk.totalBytes,
+        usedBytes: disk.totalBytes - disk.freeBytes,
+        freeBytes: disk.freeBytes,
+        units: [...units],
+      })
+    }
+
+    const { averagePct } = fillSpread(worldView.disks)
+    const upperBytes = (d: BalanceDisk) => (d.totalBytes * (averagePct + options.tolerancePct)) / 100
+    const lowerBytes = (d: BalanceDisk) => (d.totalBytes * (averagePct - options.tolerancePct)) / 100
+    const fillPct = (d: BalanceDisk) => (d.usedBytes / d.totalBytes) * 100
+
+    yield* Effect.logDebug(
+      `Balancing ${disks.length} disks to ${averagePct.toFixed(1)}% ± ${options.tolerancePct}%`
+    )
+
+    const allMoves: FileMove[] = []
+    let foldersPlaced = 0
+    const explodedFolders = new Set<string>()
+
+    /**
+     * Move units from source to target until the pair's imbalance is covered.
+     * Returns false when nothing could be moved.
+     */
+    const balancePair = (source: BalanceDisk, target: BalanceDisk): boolean => {
+      let needed = Math.max(source.usedBytes - upperBytes(source), lowerBytes(target) - target.usedBytes)
+      let moved = false
+
+      while (needed > 0) {
+        const cap = Math.min(upperBytes(target) - target.usedBytes, source.usedBytes - lowerBytes(source))
+
+        // Folders grouped by a rule fall back to their parts when too big to move whole
+        const candidates = splitOversizedUnits(source.units, cap)
+        const fitting = candidates.filter(
+          (u) =>
+            u.totalBytes <= Math.min(cap, target.freeBytes - reservedBytesForUnit(options, u, target.path)) &&
+            unitAllowedOn(options, u, target.path)
+        )
+        const covering = fitting.filter((u) => u.totalBytes >= needed)
+        const unit = covering.length > 0
+          ? covering.reduce((best, u) => (u.totalBytes < best.totalBytes ? u : best))
+          : fitting.reduce<PackingUnit | undefined>((best, u) => (!best || u.totalBytes > best.totalBytes ? u : best), undefined)
+        if (!unit) break
+
+        allMoves.push(...unit.files.map((file) => createFileMove(file, target.path, unit.id)))
+        source.units = candidates.filter((u) => u !== unit)
+        source.usedBytes -= unit.totalBytes
+        source.freeBytes += unit.totalBytes
+        target.usedBytes += unit.totalBytes
+        target.freeBytes -= unit.totalBytes
+        needed -= unit.totalBytes
+        moved = true
+
+        if (unit.isFolder) {
+          foldersPlaced++
+        } else if (unit.folderPath !== "") {
+          explodedFolders.add(`${source.path}/${unit.folderPath}`)
+        }
+      }
+
+      return moved
+    }
+
+    const outsideBand = (d: BalanceDisk) => d.usedBytes > upperBytes(d) || d.usedBytes < lowerBytes(d)
+
+    let progress = true
+    while (progress) {
+      progress = false
+      const byFill = [...disks].sort((a, b) => fillPct(b) - fillPct(a))
+
+      pairs: for (const source of byFill) {
+        if (source.units.length === 0) continue
+        for (const target of [...byFill].reverse()) {
+          if (fillPct(target) >= fillPct(source)) break
+          if (!outsideBand(source) && !outsideBand(target)) continue
+          if (balancePair(source, target)) {
+            yield* Effect.logDebug(
+              `Balanced ${source.path} (${fillPct(source).toFixed(1)}%) → ${target.path} (${fillPct(target).toFixed(1)}%)`
+            )
+            progress = true
+            break pairs
+          }
+        }
+      }
+    }
+
+    const unbalanced = disks.filter(outsideBand)
+    for (const disk of unbalanced) {
+      yield* Effect.logDebug(
+        `${disk.path} left at ${fillPct(disk).toFixed(1)}% - no unit fits within the tolerance`
+      )
+    }
+
+    return {
+      moves: allMoves,
+      bytesConsolidated: uniqueBytes(allMoves.map((m) => m.file)),
+      foldersPlaced,
+      foldersExploded: explodedFolders.size,
+      destinations: [],
+      solverTimeouts: 0,
+    }
+  })
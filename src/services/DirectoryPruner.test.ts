@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { Effect } from "effect"
+import { BunContext } from "@effect/platform-bun"
+import { chmod, mkdir, mkdtemp, rename, rm, stat, utimes, writeFile } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { pruneEmptyDirectories, snapshotDirectories, type DirectorySnapshot } from "./DirectoryPruner"
+import { createFileMove, type FileMove } from "../domain/MovePlan"
+
+let root: string
+let src: string
+let dest: string
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "prune-test-"))
+  src = join(root, "disk1")
+  dest = join(root, "disk2")
+  await mkdir(src)
+  await mkdir(dest)
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+const writeBytes = async (path: string, bytes: number) => {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, new Uint8Array(bytes))
+}
+
+const moveOf = (relativePath: string): FileMove =>
+  createFileMove({ diskPath: src, relativePath, absolutePath: join(src, relativePath), sizeBytes: 100 }, dest)
+
+/** What rsync --remove-source-files does to one move */
+const transfer = async (move: FileMove) => {
+  await mkdir(dirname(move.destinationPath), { recursive: true })
+  await rename(move.file.absolutePath, move.destinationPath)
+}
+
+const snapshotOf = (moves: FileMove[]) =>
+  Effect.runPromise(snapshotDirectories(moves).pipe(Effect.provide(BunContext.layer)))
+
+const prune = (moves: FileMove[], snapshot: DirectorySnapshot) =>
+  Effect.runPromise(pruneEmptyDirectories(moves, snapshot).pipe(Effect.provide(BunContext.layer)))
+
+describe("pruneEmptyDirectories", () => {
+  test("removes emptied directories up to the disk root, keeping ones still in use", async () => {
+    const film = moveOf("media/Movies/Film/film.mkv")
+    const other = moveOf("media/Movies/Other/other.mkv")
+    await writeBytes(film.file.absolutePath, 100)
+    await writeBytes(other.file.absolutePath, 100)
+    await writeBytes(join(src, "media/Movies/Other/poster.jpg"), 100)
+
+    const snapshot = await snapshotOf([film, other])
+    await transfer(film)
+    await transfer(other)
+    const result = await prune([film, other], snapshot)
+
+    expect(result.removed).toEqual([join(src, "media/Movies/Film")])
+    expect(result.kept).toBe(3) // Other still holds the poster, so its parents stay
+    expect(existsSync(join(src, "media/Movies/Other/poster.jpg"))).toBe(true)
+    expect(existsSync(src)).toBe(true)
+  })
+
+  test("never removes directories that were empty before the plan", async () => {
+    const film = moveOf("Movies/Film/film.mkv")
+    await writeBytes(film.file.absolutePath, 100)
+    await mkdir(join(src, "Movies/Empty"))
+    await mkdir(join(src, "Unrelated"))
+
+    const snapshot = await snapshotOf([film])
+    await transfer(film)
+    const result = await prune([film], snapshot)
+
+    expect(result.removed).toEqual([join(src, "Movies/Film")])
+    expect(existsSync(join(src, "Movies/Empty"))).toBe(true)
+    expect(existsSync(join(src, "Unrelated"))).toBe(true)
+  })
+
+  test("gives new destination directories the removed originals' mode and mtime", async () => {
+    const film = moveOf("Movies/Film/film.mkv")
+    await writeBytes(film.file.absolutePath, 100)
+    await mkdir(join(dest, "Movies"))
+    const filmDir = join(src, "Movies/Film")
+    await chmod(filmDir, 0o750)
+    const original = new Date("2020-05-01T12:00:00.000Z")
+    await utimes(filmDir, original, original)
+
+    const snapshot = await snapshotOf([film])
+    await transfer(film)
+    await prune([film], snapshot)
+
+    const copied = await stat(join(dest, "Movies/Film"))
+    expect(copied.mode & 0o7777).toBe(0o750)
+    expect(copied.mtime.getTime()).toBe(original.getTime())
+    // Movies already existed on the target, so it is left as it was
+    expect(existsSync(join(src, "Movies"))).toBe(false)
+    expect((await stat(join(dest, "Movies"))).mode & 0o7777).not.toBe(0o750)
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * DirectoryPruner - remove the source directories that moves left empty
+ *
+ * rsync --remove-source-files removes files but not the directories they
+ * were in, so a consolidated disk keeps the whole folder skeleton and the
+ * user share keeps listing it. After apply, the directories that held moved
+ * files are removed once they are empty, deepest first, up to (never
+ * including) the disk root.
+ *
+ * Only directories holding a moved file are candidates, so nothing that was
+ * empty before the plan is touched. Their mode and mtime are recorded before
+ * any transfer; when one is removed, the same directory on each disk its
+ * files went to is given those attributes, unless it existed before the
+ * moves. The copy then looks like the original, which no longer exists.
+ */
+
+import { Effect, Option, pipe } from "effect"
+import { FileSystem } from "@effect/platform"
+import { rmdir } from "node:fs/promises"
+import type { FileMove } from "../domain/MovePlan"
+import { DEFAULT_STAT_CONCURRENCY } from "./ScannerService"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DirectoryAttributes {
+  readonly mode: number
+  readonly mtime: Date
+}
+
+/** State of the moves' directories before any of them transfer */
+export interface DirectorySnapshot {
+  /** Source directories holding the moves' files, by absolute path */
+  readonly sources: ReadonlyMap<string, DirectoryAttributes>
+  /** Destination directories that already existed */
+  readonly existingDestinations: ReadonlySet<string>
+}
+
+export interface PruneResult {
+  readonly removed: ReadonlyArray<string>
+  /** Candidates that still hold something, e.g. files of failed moves */
+  readonly kept: number
+}
+
+interface CandidateDirectory {
+  readonly sourcePath: string
+  readonly destinationPaths: Set<string>
+}
+
+// =============================================================================
+// Candidates
+// =============================================================================
+
+/**
+ * Every directory between each move's file and its disk root, with the
+ * matching directories on the target disks. Deepest first.
+ */
+const candidateDirectories = (moves: ReadonlyArray<FileMove>): CandidateDirectory[] => {
+  const byPath = new Map<string, CandidateDirectory>()
+  for (const move of moves) {
+    const parts = move.file.relativePath.split("/").filter((p) => p.length > 0)
+    for (let depth = parts.length - 1; depth > 0; depth--) {
+      const relativeDir = parts.slice(0, depth).join("/")
+      const sourcePath = `${move.file.diskPath}/${relativeDir}`
+      const candidate = byPath.get(sourcePath) ?? { sourcePath, destinationPaths: new Set<string>() }
+      candidate.destinationPaths.add(`${move.targetDiskPath}/${relativeDir}`)
+      byPath.set(sourcePath, candidate)
+    }
+  }
+  const depthOf = (path: string) => path.split("/").length
+  return [...byPath.values()].sort((a, b) => depthOf(b.sourcePath) - depthOf(a.sourcePath))
+}
+
+// =============================================================================
+// Snapshot and prune
+// =============================================================================
+
+/**
+ * Record the source directories' attributes and which destination
+ * directories exist, before the moves run.
+ */
+export const snapshotDirectories = (
+  moves: ReadonlyArray<FileMove>
+): Effect.Effect<DirectorySnapshot, never, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const sources = new Map<string, DirectoryAttributes>()
+    const existingDestinations = new Set<string>()
+
+    yield* Effect.forEach(
+      candidateDirectories(moves),
+      (candidate) =>
+        Effect.gen(function* () {
+          const info = yield* pipe(fs.stat(candidate.sourcePath), Effect.option)
+          if (Option.isSome(info) && Option.isSome(info.value.mtime)) {
+            sources.set(candidate.sourcePath, { mode: info.value.mode & 0o7777, mtime: info.value.mtime.value })
+          }
+          for (const destination of candidate.destinationPaths) {
+            if (yield* pipe(fs.exists(destination), Effect.orElseSucceed(() => true))) {
+              existingDestinations.add(destination)
+            }
+          }
+        }),
+      { concurrency: DEFAULT_STAT_CONCURRENCY, discard: true }
+    )
+
+    return { sources, existingDestinations }
+  })
+
+/**
+ * Remove the source directories of completed moves that are now empty.
+ * `moves` should be the moves that completed, `snapshot` taken before them.
+ */
+export const pruneEmptyDirectories = (
+  moves: ReadonlyArray<FileMove>,
+  snapshot: DirectorySnapshot
+): Effect.Effect<PruneResult, never, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const removed: string[] = []
+    let kept = 0
+
+    // Deepest first and one at a time, so a parent is only tried once its
+    // children are gone
+    for (const candidate of candidateDirectories(moves)) {
+      const attributes = snapshot.sources.get(candidate.sourcePath)
+      if (!attributes) continue
+
+      // FileSystem.remove has no rmdir; rmdir refuses a directory that is not
+      // empty, so nothing written into it since the moves can be lost
+      const wasRemoved = yield* pipe(
+        Effect.tryPromise(() => rmdir(candidate.sourcePath)),
+        Effect.as(true),
+        Effect.orElseSucceed(() => false)
+      )
+      if (!wasRemoved) {
+        kept++
+        continue
+      }
+      removed.push(candidate.sourcePath)
+
+      for (const destination of candidate.destinationPaths) {
+        if (snapshot.existingDestinations.has(destination)) continue
+        yield* pipe(
+          fs.chmod(destination, attributes.mode),
+          Effect.zipRight(fs.utimes(destination, attributes.mtime, attributes.mtime)),
+          Effect.catchAll((e) => Effect.logDebug(`Could not copy attributes to ${destination}: ${e.message}`))
+        )
+      }
+    }
+
+    yield* Effect.logDebug(`Pruned ${removed.length} empty directories, kept ${kept}`)
+    return { removed, kept }
+  })
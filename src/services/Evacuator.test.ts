@@ -0,0 +1,138 @@
+import { describe, test, expect } from "bun:test"
+import { Effect, Either } from "effect"
+import { evacuateDisk } from "./Evacuator"
+import { packingStrategies } from "./PackingStrategy"
+import type { ConsolidationOptions } from "./SimpleConsolidator"
+import type { WorldView } from "../domain/WorldView"
+import { parseShareConfig } from "../domain/ShareConfig"
+import { MB, createFile, createLinkedFile } from "../test/fixtures"
+
+const run = (worldView: WorldView, diskPath: string, options: Partial<ConsolidationOptions> = {}) =>
+  Effect.runPromise(
+    Effect.either(
+      evacuateDisk(worldView, diskPath, { minSpaceBytes: 0, ...options }, packingStrategies.simple.consolidate)
+    )
+  )
+
+describe("evacuateDisk", () => {
+  test("plans every file on the disk, ignoring the file filters", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "Movies/Film/film.mkv", 200),
+        createFile("/mnt/disk1", "notes.txt", 0.1),
+        createFile("/mnt/disk1", "backups/archive.tar", 100),
+      ],
+    }
+
+    const result = await run(worldView, "/mnt/disk1", {
+      minFileSizeBytes: 1 * MB,
+      pathPrefixes: ["/Movies"],
+      includePatterns: ["*.mkv"],
+    })
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.moves).toHaveLength(3)
+      expect(result.right.moves.every((m) => m.targetDiskPath === "/mnt/disk2")).toBe(true)
+    }
+  })
+
+  test("only moves files off the evacuated disk", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 100),
+        createFile("/mnt/disk2", "b.mkv", 200),
+        createFile("/mnt/disk3", "c.mkv", 500),
+      ],
+    }
+
+    const result = await run(worldView, "/mnt/disk2")
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.moves.map((m) => m.file.relativePath)).toEqual(["b.mkv"])
+    }
+  })
+
+  test("fails listing what did not fit and the extra space needed", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 300 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 299 * MB }, // evacuating
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk2", "Movies/Big (2020)/big.mkv", 500),
+        createFile("/mnt/disk2", "Movies/Big (2020)/big.srt", 1),
+        createFile("/mnt/disk2", "small.mkv", 200),
+      ],
+    }
+
+    const result = await run(worldView, "/mnt/disk2")
+
+    expect(Either.isLeft(result)).toBe(true)
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("EvacuationIncomplete")
+      expect(result.left.unplaced).toEqual([
+        {
+          path: "/mnt/disk2/Movies/Big (2020)",
+          sizeBytes: 501 * MB,
+          isFolder: true,
+          reason: "no room on any other disk (largest room left: 100.0 MB)",
+        },
+      ])
+      // 501MB left over, the roomiest destination has 100MB left
+      expect(result.left.extraBytesNeeded).toBe(401 * MB)
+    }
+  })
+
+  test("blames share settings for what they keep off every other disk", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB }, // evacuating
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "Movies/Film/film.mkv", 100), createFile("/mnt/disk1", "TV/Show/ep01.mkv", 100)],
+    }
+
+    const result = await run(worldView, "/mnt/disk1", {
+      shares: new Map([["Movies", parseShareConfig("Movies", 'shareInclude="disk1"')]]),
+    })
+
+    expect(Either.isLeft(result)).toBe(true)
+    if (Either.isLeft(result)) {
+      expect(result.left.unplaced.map((u) => [u.path, u.reason])).toEqual([
+        ["/mnt/disk1/Movies/Film", "share settings for Movies allow no other disk"],
+      ])
+      // There is room; the share settings are the problem
+      expect(result.left.extraBytesNeeded).toBe(0)
+    }
+  })
+
+  test("reports files with hardlinks outside the scan as unplaced", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+      ],
+      files: [createLinkedFile("/mnt/disk1", "torrents/film.mkv", 100, 42, 2)],
+    }
+
+    const result = await run(worldView, "/mnt/disk1")
+
+    expect(Either.isLeft(result)).toBe(true)
+    if (Either.isLeft(result)) {
+      expect(result.left.unplaced.map((u) => u.path)).toEqual(["/mnt/disk1/torrents/film.mkv"])
+      expect(result.left.unplaced[0]?.reason).toContain("hardlinked to paths that were not scanned")
+    }
+  })
+})
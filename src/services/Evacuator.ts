@@ -0,0 +1,172 @@
+/**
+ * Evacuator - empty one disk completely, or fail saying why not
+ *
+ * Used before pulling a failing drive: a plan that leaves anything behind is
+ * worse than no plan, so the result is all-or-nothing.
+ *
+ * Every scanned file on the disk is a candidate - the min file size, path
+ * prefix and include filters only narrow consolidation, not evacuation.
+ * Placement is left to the packing strategy with the disk as its only
+ * source. Whatever the strategy could not place is reported as
+ * EvacuationIncomplete, with each folder or file left behind, why it was
+ * left, and the extra free space a single destination would need to take
+ * all of it.
+ *
+ * Files hidden by --exclude or .binpackignore are never scanned, so they
+ * stay on the disk without being reported here.
+ */
+
+import { Data, Effect } from "effect"
+import { isArrayDisk } from "../domain/Disk"
+import { uniqueBytes, type FileEntry } from "../domain/FileEntry"
+import type { WorldView } from "../domain/WorldView"
+import { shareOf } from "../domain/ShareConfig"
+import { formatSize } from "../lib/parseSize"
+import {
+  packingUnitsForDisk,
+  reservedBytesFor,
+  reservedBytesForUnit,
+  unitAllowedOn,
+  type ConsolidationOptions,
+  type ConsolidationResult,
+  type PackingUnit,
+} from "./SimpleConsolidator"
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** A folder or file that no destination had room for */
+export interface UnplacedItem {
+  /** Absolute path of the folder (for keep-together folders) or file */
+  readonly path: string
+  readonly sizeBytes: number
+  readonly isFolder: boolean
+  /** Why it was left behind */
+  readonly reason: string
+}
+
+export class EvacuationIncomplete extends Data.TaggedError("EvacuationIncomplete")<{
+  readonly diskPath: string
+  readonly unplaced: ReadonlyArray<UnplacedItem>
+  /** Free space one destination would additionally need to take every unplaced item */
+  readonly extraBytesNeeded: number
+}> {}
+
+// =============================================================================
+// Evacuation
+// =============================================================================
+
+export const evacuateDisk = (
+  worldView: WorldView,
+  diskPath: string,
+  options: ConsolidationOptions,
+  consolidate: (worldView: WorldView, options: ConsolidationOptions) => Effect.Effect<ConsolidationResult, never>
+): Effect.Effect<ConsolidationResult, EvacuationIncomplete> =>
+  Effect.gen(function* () {
+    const evacuationOptions: ConsolidationOptions = {
+      ...options,
+      srcDiskPaths: [diskPath],
+      minFileSizeBytes: 0,
+      pathPrefixes: [],
+      includePatterns: [],
+    }
+
+    const result = yield* consolidate(worldView, evacuationOptions)
+
+    const filesOnDisk = worldView.files.filter((f) => f.diskPath === diskPath)
+    const moved = new Set(result.moves.map((m) => m.file.absolutePath))
+    const leftBehind = filesOnDisk.filter((f) => !moved.has(f.absolutePath))
+
+    if (leftBehind.length === 0) {
+      yield* Effect.logDebug(`Evacuation of ${diskPath}: all ${filesOnDisk.length} files placed`)
+      return result
+    }
+
+    // Describe what was left as the units the strategy tried to place; files
+    // in no unit have hardlinks outside the scan and could never be moved
+    const units = yield* packingUnitsForDisk(diskPath, filesOnDisk, worldView.files, evacuationOptions)
+    const inUnits = new Set<string>()
+    const unplaced: UnplacedItem[] = []
+    // A rule-grouped folder that was moved in parts is reported by part
+    const partlyMoved = (unit: PackingUnit) => unit.files.some((f) => moved.has(f.absolutePath))
+    const room = remainingSpace(worldView, diskPath, result)
+    for (const unit of units.flatMap((u) => (u.parts !== undefined && partlyMoved(u) ? u.parts : [u]))) {
+      for (const file of unit.files) inUnits.add(file.absolutePath)
+      if (unit.files.every((f) => moved.has(f.absolutePath))) continue
+      unplaced.push({
+        path: unit.isFolder ? `${diskPath}/${unit.folderPath}` : (unit.files[0]?.absolutePath ?? unit.id),
+        sizeBytes: unit.totalBytes,
+        isFolder: unit.isFolder,
+        reason: whyUnplaced(unit, room, evacuationOptions),
+      })
+    }
+    for (const file of leftBehind) {
+      if (inUnits.has(file.absolutePath)) continue
+      unplaced.push({
+        path: file.absolutePath,
+        sizeBytes: file.sizeBytes,
+        isFolder: false,
+        reason: "hardlinked to paths that were not scanned (check --exclude and .binpackignore)",
+      })
+    }
+
+    return yield* Effect.fail(
+      new EvacuationIncomplete({
+        diskPath,
+        unplaced: unplaced.sort((a, b) => b.sizeBytes - a.sizeBytes),
+        extraBytesNeeded: Math.max(
+          0,
+          uniqueBytes(leftBehind) -
+            [...room].reduce((max, [d, free]) => Math.max(max, free - reservedBytesFor(options, d)), 0)
+        ),
+      })
+    )
+  })
+
+/**
+ * Free space left on each destination once the planned moves are made.
+ */
+const remainingSpace = (
+  worldView: WorldView,
+  diskPath: string,
+  result: ConsolidationResult
+): ReadonlyMap<string, number> => {
+  const placed = new Map<string, FileEntry[]>()
+  for (const move of result.moves) {
+    const files = placed.get(move.targetDiskPath) ?? []
+    files.push(move.file)
+    placed.set(move.targetDiskPath, files)
+  }
+
+  return new Map(
+    worldView.disks
+      .filter((d) => d.path !== diskPath && isArrayDisk(d))
+      .map((d) => [d.path, d.freeBytes - uniqueBytes(placed.get(d.path) ?? [])])
+  )
+}
+
+/**
+ * Why a unit the strategy was given stayed behind: its shares allow no other
+ * disk, no disk they allow has room above its reservation, or it would fit
+ * somewhere on its own but not alongside everything else planned.
+ */
+const whyUnplaced = (
+  unit: PackingUnit,
+  room: ReadonlyMap<string, number>,
+  options: ConsolidationOptions
+): string => {
+  const allowed = [...room.keys()].filter((d) => unitAllowedOn(options, unit, d))
+  if (allowed.length === 0) {
+    const shares = [...new Set(unit.files.map(shareOf))].join(", ")
+    return `share settings for ${shares} allow no other disk`
+  }
+  const largestRoom = allowed
+    .map((d) => (room.get(d) ?? 0) - reservedBytesForUnit(options, unit, d))
+    .reduce((max, free) => Math.max(max, free), 0)
+  if (unit.totalBytes > largestRoom) {
+    const where = allowed.length < room.size ? "any disk its share settings allow" : "any other disk"
+    return `no room on ${where} (largest room left: ${formatSize(largestRoom)})`
+  }
+  return "fits on its own, but not alongside the other planned moves"
+}
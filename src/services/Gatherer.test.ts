@@ -0,0 +1,148 @@
+import { describe, test, expect } from "bun:test"
+import { Effect } from "effect"
+import { gatherFolders, logicalFolder } from "./Gatherer"
+import type { ConsolidationOptions } from "./SimpleConsolidator"
+import type { WorldView } from "../domain/WorldView"
+import { MB, createFile, createLinkedFile } from "../test/fixtures"
+
+const run = (worldView: WorldView, options: Partial<ConsolidationOptions> = {}) =>
+  Effect.runPromise(gatherFolders(worldView, { minSpaceBytes: 0, ...options }))
+
+const disk = (path: string, freeMB: number) => ({ path, totalBytes: 1000 * MB, freeBytes: freeMB * MB })
+
+describe("logicalFolder", () => {
+  test("is the file's own folder, or the folder at a grouping rule's depth", () => {
+    expect(logicalFolder("TV/Show/Season 1/ep01.mkv")).toBe("TV/Show/Season 1")
+    expect(logicalFolder("TV/Show/Season 1/ep01.mkv", [{ prefix: "TV", depth: 1 }])).toBe("TV/Show")
+    expect(logicalFolder("photo.jpg")).toBe("")
+  })
+})
+
+describe("gatherFolders", () => {
+  test("moves the smaller parts to the disk already holding the most", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500), disk("/mnt/disk3", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/Season 1/ep01.mkv", 100),
+        createFile("/mnt/disk2", "TV/Show/Season 1/ep02.mkv", 100),
+        createFile("/mnt/disk2", "TV/Show/Season 1/ep03.mkv", 100),
+        createFile("/mnt/disk3", "TV/Show/Season 1/ep04.mkv", 50),
+        createFile("/mnt/disk3", "Movies/Film/film.mkv", 200),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.scatteredFolders).toBe(1)
+    expect(result.foldersPlaced).toBe(1)
+    expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual([
+      "TV/Show/Season 1/ep01.mkv",
+      "TV/Show/Season 1/ep04.mkv",
+    ])
+    expect(result.moves.every((m) => m.targetDiskPath === "/mnt/disk2")).toBe(true)
+  })
+
+  test("falls back to the next disk holding part of the folder when the best has no room", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 50), disk("/mnt/disk2", 500)],
+      files: [
+        createFile("/mnt/disk1", "Movies/Film/film.mkv", 300),
+        createFile("/mnt/disk2", "Movies/Film/extras.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves).toHaveLength(1)
+    expect(result.moves[0]?.file.relativePath).toBe("Movies/Film/film.mkv")
+    expect(result.moves[0]?.targetDiskPath).toBe("/mnt/disk2")
+  })
+
+  test("leaves a folder that fits on none of its disks, honouring --min-space", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 150), disk("/mnt/disk2", 150)],
+      files: [
+        createFile("/mnt/disk1", "Movies/Film/film.mkv", 200),
+        createFile("/mnt/disk2", "Movies/Film/extras.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView, { minSpaceBytes: 100 * MB })
+
+    expect(result.scatteredFolders).toBe(1)
+    expect(result.foldersPlaced).toBe(0)
+    expect(result.moves).toHaveLength(0)
+  })
+
+  test("gathers whole shows when a grouping rule covers them", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/Season 1/ep01.mkv", 200),
+        createFile("/mnt/disk2", "TV/Show/Season 2/ep01.mkv", 100),
+      ],
+    }
+
+    expect((await run(worldView)).moves).toHaveLength(0)
+
+    const result = await run(worldView, { groupingRules: [{ prefix: "TV", depth: 1 }] })
+
+    expect(result.moves.map((m) => [m.file.relativePath, m.targetDiskPath])).toEqual([
+      ["TV/Show/Season 2/ep01.mkv", "/mnt/disk1"],
+    ])
+  })
+
+  test("never gathers onto a disk that already has a file at the same path", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/Season 1/ep01.mkv", 100),
+        createFile("/mnt/disk2", "TV/Show/Season 1/ep01.mkv", 100),
+        createFile("/mnt/disk2", "TV/Show/Season 1/ep02.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.scatteredFolders).toBe(1)
+    expect(result.foldersPlaced).toBe(0)
+    expect(result.moves).toEqual([])
+  })
+
+  test("only takes files from --src disks", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500), disk("/mnt/disk3", 500)],
+      files: [
+        createFile("/mnt/disk1", "Movies/A/a1.mkv", 200),
+        createFile("/mnt/disk2", "Movies/A/a2.mkv", 100),
+        createFile("/mnt/disk2", "Movies/B/b1.mkv", 200),
+        createFile("/mnt/disk3", "Movies/B/b2.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView, { srcDiskPaths: ["/mnt/disk2"] })
+
+    // B would sooner gather on disk2, but that means taking from disk3
+    expect(result.scatteredFolders).toBe(2)
+    expect(result.moves.map((m) => [m.file.relativePath, m.targetDiskPath])).toEqual([
+      ["Movies/A/a2.mkv", "/mnt/disk1"],
+      ["Movies/B/b1.mkv", "/mnt/disk3"],
+    ])
+  })
+
+  test("moves hardlinked paths on the source disk together", async () => {
+    const worldView: WorldView = {
+      disks: [disk("/mnt/disk1", 500), disk("/mnt/disk2", 500)],
+      files: [
+        createFile("/mnt/disk1", "TV/Show/ep01.mkv", 200),
+        createLinkedFile("/mnt/disk2", "TV/Show/ep02.mkv", 100, 42, 2),
+        createLinkedFile("/mnt/disk2", "downloads/ep02.mkv", 100, 42, 2),
+      ],
+    }
+
+    const result = await run(worldView)
+
+    expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual(["TV/Show/ep02.mkv", "downloads/ep02.mkv"])
+    expect(result.bytesConsolidated).toBe(100 * MB)
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * Gatherer - re-unite folders whose files are scattered across disks
+ *
+ * Unraid's high-water allocation spreads a show's seasons (and sometimes a
+ * single season's episodes) over several disks. A logical folder is the
+ * same relative path on every disk: the file's own folder, or the folder at
+ * the --group-depth depth when a grouping rule covers it, so with depth 1
+ * under TV a whole show is one folder.
+ *
+ * For each folder found on more than one disk, the target is the disk that
+ * already holds the most of it (the fewest bytes to move) and has room for
+ * the rest; otherwise the next best, and so on. Folders that fit nowhere are
+ * left as they are. Folders needing the fewest bytes moved are gathered
+ * first, so limited free space re-unites as many folders as possible.
+ *
+ * A disk is not a target when a file coming to it already exists there, or
+ * comes from two disks at the same path: apply would refuse those moves.
+ *
+ * Space freed on the disks files leave is not counted, since the moves run
+ * concurrently. Hardlinked paths on a source disk move with the folder; a
+ * folder whose files have links outside the scan is left alone.
+ */
+
+import { Effect } from "effect"
+import { isArrayDisk } from "../domain/Disk"
+import { hardlinkKey, uniqueBytes, type FileEntry } from "../domain/FileEntry"
+import { ruleDepthFor, type GroupingRule } from "../domain/FolderGroup"
+import { createFileMove, type FileMove } from "../domain/MovePlan"
+import type { WorldView } from "../domain/WorldView"
+import { formatSize } from "../lib/parseSize"
+import {
+  reservedBytesForUnit,
+  selectCandidateFiles,
+  unitAllowedOn,
+  type ConsolidationOptions,
+  type ConsolidationResult,
+  type PackingUnit,
+} from "./SimpleConsolidator"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GatherResult extends ConsolidationResult {
+  /** Folders found on more than one disk, gathered or not */
+  readonly scatteredFolders: number
+}
+
+/** A folder with files on more than one disk */
+export interface ScatteredFolder {
+  readonly folderPath: string
+  /** The folder's files on each disk holding part of it */
+  readonly parts: ReadonlyMap<string, ReadonlyArray<FileEntry>>
+  readonly totalBytes: number
+}
+
+// =============================================================================
+// Logical Folders
+// =============================================================================
+
+/**
+ * The logical folder a file belongs to: the folder at the grouping rule's
+ * depth when one covers it, otherwise its own folder ("" at the disk root).
+ */
+export const logicalFolder = (relativePath: string, rules?: readonly GroupingRule[]): string => {
+  const folders = relativePath.split("/").slice(0, -1)
+  const depth = rules ? ruleDepthFor(relativePath, rules) : undefined
+  return depth !== undefined && folders.length >= depth ? folders.slice(0, depth).join("/") : folders.join("/")
+}
+
+/** Folders whose files are on more than one disk, by relative path */
+export const findScatteredFolders = (
+  files: ReadonlyArray<FileEntry>,
+  rules?: readonly GroupingRule[]
+): ReadonlyArray<ScatteredFolder> => {
+  const byFolder = new Map<string, Map<string, FileEntry[]>>()
+  for (const file of files) {
+    const folderPath = logicalFolder(file.relativePath, rules)
+    if (folderPath === "") continue
+    const parts = byFolder.get(folderPath) ?? new Map<string, FileEntry[]>()
+    const onDisk = parts.get(file.diskPath) ?? []
+    onDisk.push(file)
+    parts.set(file.diskPath, onDisk)
+    byFolder.set(folderPath, parts)
+  }
+
+  return [...byFolder]
+    .filter(([_, parts]) => parts.size > 1)
+    .map(([folderPath, parts]) => ({
+      folderPath,
+      parts,
+      totalBytes: uniqueBytes([...parts.values()].flat()),
+    }))
+}
+
+// =============================================================================
+// Gathering
+// =============================================================================
+
+export const gatherFolders = (
+  worldView: WorldView,
+  options: ConsolidationOptions
+): Effect.Effect<GatherResult, never> =>
+  Effect.gen(function* () {
+    const disks = worldView.disks.filter((d) => isArrayDisk(d) && d.totalBytes > 0)
+    const inScope = new Set(disks.map((d) => d.path))
+    const candidateFiles = yield* selectCandidateFiles(
+      worldView.files.filter((f) => inScope.has(f.diskPath)),
+      options
+    )
+    const srcDiskPaths = options.srcDiskPaths ?? []
+    const canGive = (diskPath: string) => srcDiskPaths.length === 0 || srcDiskPaths.includes(diskPath)
+
+    // Every scanned path per hardlinked inode, so linked paths move together
+    const linkedPaths = new Map<string, FileEntry[]>()
+    for (const file of worldView.files) {
+      const key = hardlinkKey(file)
+      if (key === undefined) continue
+      const paths = linkedPaths.get(key) ?? []
+      paths.push(file)
+      linkedPaths.set(key, paths)
+    }
+
+    /** The files that must leave a disk with a folder part, or undefined if some link was not scanned */
+    const withLinks = (files: ReadonlyArray<FileEntry>): FileEntry[] | undefined => {
+      const moving = new Map(files.map((f) => [f.absolutePath, f]))
+      for (const file of files) {
+        const key = hardlinkKey(file)
+        if (key === undefined) continue
+        const paths = linkedPaths.get(key) ?? []
+        if (paths.length < (file.linkCount ?? 1)) return undefined
+        for (const path of paths) moving.set(path.absolutePath, path)
+      }
+      return [...moving.values()]
+    }
+
+    // Every scanned path per disk, so no move lands on a file already there
+    const pathsOn = new Map<string, Set<string>>()
+    for (const file of worldView.files) {
+      const paths = pathsOn.get(file.diskPath) ?? new Set<string>()
+      paths.add(file.relativePath)
+      pathsOn.set(file.diskPath, paths)
+    }
+    const conflictsOn = (target: string, files: ReadonlyArray<FileEntry>) => {
+      const existing = pathsOn.get(target) ?? new Set<string>()
+      return (
+        files.some((f) => existing.has(f.relativePath)) ||
+        new Set(files.map((f) => f.relativePath)).size < files.length
+      )
+    }
+
+    const scattered = findScatteredFolders(candidateFiles, options.groupingRules)
+    const bytesOn = (folder: ScatteredFolder, diskPath: string) => uniqueBytes(folder.parts.get(diskPath) ?? [])
+    const largestPart = (folder: ScatteredFolder) =>
+      [...folder.parts.keys()].reduce((max, diskPath) => Math.max(max, bytesOn(folder, diskPath)), 0)
+
+    yield* Effect.logDebug(`Found ${scattered.length} folder(s) spread over more than one disk`)
+
+    const freeBytes = new Map(disks.map((d) => [d.path, d.freeBytes]))
+    const claimed = new Set<string>()
+    const moves: FileMove[] = []
+    let gathered = 0
+
+    const cheapestFirst = [...scattered].sort(
+      (a, b) => a.totalBytes - largestPart(a) - (b.totalBytes - largestPart(b))
+    )
+
+    for (const folder of cheapestFirst) {
+      // Targets by the bytes they already hold, most first
+      const targets = [...folder.parts.keys()].sort((a, b) => bytesOn(folder, b) - bytesOn(folder, a))
+
+      let planned: PackingUnit & { readonly target: string } | undefined
+      let reason = ""
+
+      for (const target of targets) {
+        const sources = [...folder.parts.keys()].filter((d) => d !== target)
+        if (!sources.every(canGive)) {
+          reason = "parts are on disks not in --src"
+          continue
+        }
+
+        const incoming = withLinks(sources.flatMap((d) => folder.parts.get(d) ?? []))
+        if (incoming === undefined) {
+          reason = "some files have hardlinks outside the scanned files"
+          continue
+        }
+        if (incoming.some((f) => claimed.has(f.absolutePath))) {
+          reason = "some files are hardlinked into another folder being gathered"
+          continue
+        }
+        if (conflictsOn(target, incoming)) {
+          reason = "some files already exist at the same path on the disk it would gather on"
+          continue
+        }
+
+        const unit: PackingUnit = {
+          id: `${target}/${folder.folderPath}/`,
+          files: incoming,
+          totalBytes: uniqueBytes(incoming),
+          folderPath: folder.folderPath,
+          isFolder: true,
+        }
+        const room = (freeBytes.get(target) ?? 0) - reservedBytesForUnit(options, unit, target)
+        if (unit.totalBytes <= room && unitAllowedOn(options, unit, target)) {
+          planned = { ...unit, target }
+          break
+        }
+        reason = "no disk holding part of it has room for the rest"
+      }
+
+      if (!planned) {
+        yield* Effect.logDebug(`Left ${folder.folderPath} on ${folder.parts.size} disks: ${reason}`)
+        continue
+      }
+
+      const { target, files, id } = planned
+      freeBytes.set(target, (freeBytes.get(target) ?? 0) - uniqueBytes(files))
+      for (const file of files) claimed.add(file.absolutePath)
+      moves.push(...files.map((file) => createFileMove(file, target, id)))
+      gathered++
+
+      yield* Effect.logDebug(
+        `Gathering ${folder.folderPath} on ${target}: ${formatSize(uniqueBytes(files))} from ${folder.parts.size - 1} other disk(s)`
+      )
+    }
+
+    return {
+      moves,
+      bytesConsolidated: uniqueBytes(moves.map((m) => m.file)),
+      foldersPlaced: gathered,
+      foldersExploded: 0,
+      destinations: [],
+      solverTimeouts: 0,
+      scatteredFolders: scattered.length,
+    }
+  })
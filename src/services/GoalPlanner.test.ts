@@ -0,0 +1,218 @@
+import { describe, test, expect } from "bun:test"
+import { Effect, Either } from "effect"
+import { parseGoal, planForGoal, type Goal } from "./GoalPlanner"
+import { packingStrategies } from "./PackingStrategy"
+import type { ConsolidationOptions } from "./SimpleConsolidator"
+import type { WorldView } from "../domain/WorldView"
+import { MB, createFile } from "../test/fixtures"
+
+const run = (worldView: WorldView, goal: Goal, options: Partial<ConsolidationOptions> = {}) =>
+  Effect.runPromise(
+    Effect.either(
+      planForGoal(worldView, goal, { minSpaceBytes: 0, ...options }, packingStrategies.simple.consolidate)
+    )
+  )
+
+const movedPaths = (result: Awaited<ReturnType<typeof run>>) =>
+  Either.isRight(result) ? result.right.moves.map((m) => m.file.relativePath).sort() : []
+
+describe("parseGoal", () => {
+  test("parses free and max-fill goals", () => {
+    expect(parseGoal("free:disk3")).toEqual({ kind: "free-disk", diskPath: "/mnt/disk3" })
+    expect(parseGoal("free:/mnt/disk3")).toEqual({ kind: "free-disk", diskPath: "/mnt/disk3" })
+    expect(parseGoal("free:2")).toEqual({ kind: "free-disks", count: 2 })
+    expect(parseGoal("max-fill:90%")).toEqual({ kind: "max-fill", maxFillPct: 90 })
+  })
+
+  test("throws on invalid goals", () => {
+    expect(() => parseGoal("free")).toThrow()
+    expect(() => parseGoal("free:0")).toThrow()
+    expect(() => parseGoal("max-fill:lots")).toThrow()
+    expect(() => parseGoal("empty:disk3")).toThrow()
+  })
+})
+
+describe("max-fill goal", () => {
+  test("moves only what takes a disk under the limit", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 50 * MB }, // 95%
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 500),
+        createFile("/mnt/disk1", "b.mkv", 300),
+        createFile("/mnt/disk1", "c.mkv", 100),
+        createFile("/mnt/disk1", "d.mkv", 50),
+        createFile("/mnt/disk2", "e.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "max-fill", maxFillPct: 90 })
+
+    expect(movedPaths(result)).toEqual(["d.mkv"])
+  })
+
+  test("finds the combination with the fewest bytes", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 50 * MB }, // 120MB over 83%
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "big.mkv", 795),
+        createFile("/mnt/disk1", "a.mkv", 100),
+        createFile("/mnt/disk1", "b.mkv", 30),
+        createFile("/mnt/disk1", "c.mkv", 25),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "max-fill", maxFillPct: 83 })
+
+    // 100 + 25 is the cheapest way to move at least 120MB
+    expect(movedPaths(result)).toEqual(["a.mkv", "c.mkv"])
+    expect(Either.isRight(result) && result.right.bytesConsolidated).toBe(125 * MB)
+  })
+
+  test("fails rather than push another disk over the limit", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 50 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 120 * MB }, // 88%, 20MB below the limit
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 950), createFile("/mnt/disk2", "b.mkv", 880)],
+    }
+
+    const result = await run(worldView, { kind: "max-fill", maxFillPct: 90 })
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("GoalUnreachable")
+  })
+
+  test("fails when too little of a disk's data may move", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 50 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 920), createFile("/mnt/disk1", "tiny.txt", 0.5)],
+    }
+
+    const result = await run(worldView, { kind: "max-fill", maxFillPct: 50 }, { pathPrefixes: ["/nothing"] })
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("GoalUnreachable")
+  })
+})
+
+describe("free goal", () => {
+  test("empties the disk holding the least data", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 400 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 600),
+        createFile("/mnt/disk2", "b.mkv", 200),
+        createFile("/mnt/disk3", "c.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "free-disks", count: 1 })
+
+    expect(movedPaths(result)).toEqual(["c.mkv"])
+  })
+
+  test("passes over a disk whose data does not fit elsewhere", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 50 * MB },
+        { path: "/mnt/disk2", totalBytes: 200 * MB, freeBytes: 20 * MB },
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // least data, nowhere to go
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 950),
+        createFile("/mnt/disk2", "b.mkv", 180),
+        createFile("/mnt/disk3", "c.mkv", 100),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "free-disks", count: 1 })
+
+    expect(movedPaths(result)).toEqual(["b.mkv"])
+  })
+
+  test("never moves data onto another disk being emptied", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 100),
+        createFile("/mnt/disk2", "b.mkv", 200),
+        createFile("/mnt/disk3", "c.mkv", 500),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "free-disks", count: 2 })
+
+    expect(movedPaths(result)).toEqual(["a.mkv", "b.mkv"])
+    expect(Either.isRight(result) && result.right.moves.every((m) => m.targetDiskPath === "/mnt/disk3")).toBe(true)
+  })
+
+  test("sends on what a disk emptied earlier gave the next one it empties", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 250 * MB }, // too full for b.mkv once a.mkv is in
+        { path: "/mnt/disk4", totalBytes: 1000 * MB, freeBytes: 50 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 100),
+        createFile("/mnt/disk2", "b.mkv", 200),
+        createFile("/mnt/disk3", "c.mkv", 300),
+        createFile("/mnt/disk4", "d.mkv", 950),
+      ],
+    }
+
+    const result = await run(worldView, { kind: "free-disks", count: 2 })
+
+    // disk1 is emptied into disk3; disk2 cannot be, so disk3 is, taking a.mkv along
+    const moves = Either.isRight(result) ? result.right.moves : []
+    expect(moves.map((m) => [m.file.absolutePath, m.targetDiskPath]).sort()).toEqual([
+      ["/mnt/disk1/a.mkv", "/mnt/disk2"],
+      ["/mnt/disk3/c.mkv", "/mnt/disk2"],
+    ])
+  })
+
+  test("fails when not enough disks can be emptied", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 100 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 900), createFile("/mnt/disk2", "b.mkv", 900)],
+    }
+
+    const result = await run(worldView, { kind: "free-disks", count: 1 })
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("GoalUnreachable")
+  })
+
+  test("empties a named disk", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      ],
+      files: [createFile("/mnt/disk1", "a.mkv", 100), createFile("/mnt/disk2", "b.mkv", 500)],
+    }
+
+    const result = await run(worldView, { kind: "free-disk", diskPath: "/mnt/disk2" })
+
+    expect(movedPaths(result)).toEqual(["b.mkv"])
+  })
+})
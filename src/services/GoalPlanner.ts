@@ -0,0 +1,349 @@
+/**
+ * GoalPlanner - reach an explicit end state while moving as little as possible
+ *
+ * Consolidation fills destinations as well as it can and does not care how
+ * much data that takes. With a goal, the planner only moves what the goal
+ * needs, since every byte moved costs parity writes and array time:
+ *
+ * - free:disk3   Empty that disk (the same all-or-nothing plan as --evacuate)
+ * - free:2       Empty the two disks that hold the least data and whose data
+ *                fits on the others
+ * - max-fill:90% Bring every disk to at most 90% full, moving the fewest bytes
+ *                off each disk above it
+ *
+ * For max-fill, the least data to move off a disk is found as the most data
+ * that can stay: an exact subset-sum fill of the allowed used space, under
+ * the solver time budget. The units that have to go are then placed largest
+ * first on the disk with the least room that still takes them, so no disk
+ * ends up above the limit.
+ */
+
+import { Data, Effect, Either } from "effect"
+import { isArrayDisk } from "../domain/Disk"
+import { uniqueBytes } from "../domain/FileEntry"
+import { createFileMove, type FileMove } from "../domain/MovePlan"
+import type { WorldView } from "../domain/WorldView"
+import { parsePercent, formatSize } from "../lib/parseSize"
+import { solveSubsetSum } from "../lib/subsetSum"
+import { evacuateDisk, type EvacuationIncomplete } from "./Evacuator"
+import {
+  DEFAULT_SOLVER_TIME_BUDGET_MS,
+  SOLVER_SLACK_BYTES,
+  packingUnitsForDisk,
+  reservedBytesFor,
+  reservedBytesForUnit,
+  selectCandidateFiles,
+  splitOversizedUnits,
+  unitAllowedOn,
+  type ConsolidationOptions,
+  type ConsolidationResult,
+  type PackingUnit,
+} from "./SimpleConsolidator"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Goal =
+  | { readonly kind: "free-disk"; readonly diskPath: string }
+  | { readonly kind: "free-disks"; readonly count: number }
+  | { readonly kind: "max-fill"; readonly maxFillPct: number }
+
+export class GoalUnreachable extends Data.TaggedError("GoalUnreachable")<{
+  readonly goal: string
+  readonly reason: string
+}> {}
+
+type Consolidate = (worldView: WorldView, options: ConsolidationOptions) => Effect.Effect<ConsolidationResult, never>
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a --goal value.
+ *
+ * @example
+ *   parseGoal("free:disk3")    // { kind: "free-disk", diskPath: "/mnt/disk3" }
+ *   parseGoal("free:2")        // { kind: "free-disks", count: 2 }
+ *   parseGoal("max-fill:90%")  // { kind: "max-fill", maxFillPct: 90 }
+ */
+export const parseGoal = (input: string): Goal => {
+  const [kind, value = ""] = input.trim().split(/:(.*)/)
+
+  if (kind === "free" && /^\d+$/.test(value)) {
+    const count = parseInt(value, 10)
+    if (count > 0) return { kind: "free-disks", count }
+  } else if (kind === "free" && value !== "") {
+    return { kind: "free-disk", diskPath: value.startsWith("/") ? value : `/mnt/${value}` }
+  }
+  if (kind === "max-fill" && value !== "") {
+    return { kind: "max-fill", maxFillPct: parsePercent(value) }
+  }
+
+  throw new Error(`Invalid goal: "${input}". Use formats like: free:disk3, free:2, max-fill:90%`)
+}
+
+export const describeGoal = (goal: Goal): string => {
+  switch (goal.kind) {
+    case "free-disk":
+      return `empty ${goal.diskPath}`
+    case "free-disks":
+      return `empty ${goal.count} disk(s)`
+    case "max-fill":
+      return `every disk at most ${goal.maxFillPct}% full`
+  }
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+export const planForGoal = (
+  worldView: WorldView,
+  goal: Goal,
+  options: ConsolidationOptions,
+  consolidate: Consolidate
+): Effect.Effect<ConsolidationResult, GoalUnreachable | EvacuationIncomplete> => {
+  switch (goal.kind) {
+    case "free-disk":
+      return evacuateDisk(worldView, goal.diskPath, options, consolidate)
+    case "free-disks":
+      return freeCheapestDisks(worldView, goal.count, options, consolidate)
+    case "max-fill":
+      return capDiskFill(worldView, goal.maxFillPct, options)
+  }
+}
+
+/**
+ * Empty the disks holding the least data, one at a time, into every disk not
+ * picked to be emptied. A disk that cannot be emptied is passed over for the
+ * next cheapest, which may already have been given files by the disks
+ * emptied before it; those are sent on with its own.
+ */
+const freeCheapestDisks = (
+  worldView: WorldView,
+  count: number,
+  options: ConsolidationOptions,
+  consolidate: Consolidate
+): Effect.Effect<ConsolidationResult, GoalUnreachable> =>
+  Effect.gen(function* () {
+    const disks = worldView.disks.filter(isArrayDisk)
+    const filesOn = (diskPath: string) => worldView.files.filter((f) => f.diskPath === diskPath)
+
+    const pool = disks
+      .map((d) => ({ path: d.path, bytes: uniqueBytes(filesOn(d.path)) }))
+      .filter((d) => d.bytes > 0)
+      .sort((a, b) => a.bytes - b.bytes)
+      .map((d) => d.path)
+
+    const freeBytes = new Map(disks.map((d) => [d.path, d.freeBytes]))
+    const freed: string[] = []
+    // By original source path, so a file sent on keeps a single move
+    const moves = new Map<string, FileMove>()
+    let foldersPlaced = 0
+    let foldersExploded = 0
+    let solverTimeouts = 0
+
+    while (freed.length < count && pool.length > 0) {
+      const candidate = pool.shift() ?? ""
+      const stillToEmpty = new Set([...freed, candidate, ...pool.slice(0, count - freed.length - 1)])
+
+      // Files already planned onto the candidate, as they will be once moved
+      const incoming = new Map(
+        [...moves.values()].filter((m) => m.targetDiskPath === candidate).map((m) => [m.destinationPath, m])
+      )
+      const received = [...incoming.values()].map((m) => ({
+        ...m.file,
+        absolutePath: m.destinationPath,
+        diskPath: candidate,
+      }))
+
+      const attempt = yield* Effect.either(
+        evacuateDisk(
+          {
+            disks: disks
+              .filter((d) => d.path === candidate || !stillToEmpty.has(d.path))
+              .map((d) => ({ ...d, freeBytes: freeBytes.get(d.path) ?? d.freeBytes })),
+            files: [...filesOn(candidate), ...received],
+          },
+          candidate,
+          options,
+          consolidate
+        )
+      )
+
+      if (Either.isLeft(attempt)) {
+        yield* Effect.logDebug(
+          `Cannot empty ${candidate}: ${attempt.left.unplaced.length} item(s) do not fit, trying the next disk`
+        )
+        continue
+      }
+
+      const result = attempt.right
+      for (const [target, files] of groupByTarget(result.moves)) {
+        freeBytes.set(target, (freeBytes.get(target) ?? 0) - uniqueBytes(files))
+      }
+      for (const move of result.moves) {
+        const earlier = incoming.get(move.file.absolutePath)
+        if (earlier) {
+          moves.set(earlier.file.absolutePath, createFileMove(earlier.file, move.targetDiskPath, move.unitId))
+        } else {
+          moves.set(move.file.absolutePath, move)
+        }
+      }
+      foldersPlaced += result.foldersPlaced
+      foldersExploded += result.foldersExploded
+      solverTimeouts += result.solverTimeouts
+      freed.push(candidate)
+
+      yield* Effect.logDebug(`Emptying ${candidate}: ${formatSize(result.bytesConsolidated)} to move`)
+    }
+
+    if (freed.length < count) {
+      return yield* Effect.fail(
+        new GoalUnreachable({
+          goal: describeGoal({ kind: "free-disks", count }),
+          reason: `Only ${freed.length} disk(s) can be emptied into the free space on the others.`,
+        })
+      )
+    }
+
+    return {
+      moves: [...moves.values()],
+      bytesConsolidated: uniqueBytes([...moves.values()].map((m) => m.file)),
+      foldersPlaced,
+      foldersExploded,
+      destinations: [],
+      solverTimeouts,
+    }
+  })
+
+/**
+ * Bring every disk to at most maxFillPct full, moving the fewest bytes off
+ * each disk above the limit.
+ */
+const capDiskFill = (
+  worldView: WorldView,
+  maxFillPct: number,
+  options: ConsolidationOptions
+): Effect.Effect<ConsolidationResult, GoalUnreachable> =>
+  Effect.gen(function* () {
+    const goal = describeGoal({ kind: "max-fill", maxFillPct })
+    const candidateFiles = yield* selectCandidateFiles(worldView.files, options)
+    const disks = worldView.disks.filter((d) => isArrayDisk(d) && d.totalBytes > 0)
+    const limitBytes = (totalBytes: number) => Math.floor((totalBytes * maxFillPct) / 100)
+
+    // Room each disk at or below the limit has left, above min-space
+    const room = new Map<string, number>()
+    const freeBytes = new Map<string, number>()
+    for (const disk of disks) {
+      const used = disk.totalBytes - disk.freeBytes
+      if (used > limitBytes(disk.totalBytes)) continue
+      room.set(disk.path, Math.min(limitBytes(disk.totalBytes) - used, disk.freeBytes - reservedBytesFor(options, disk.path)))
+      freeBytes.set(disk.path, disk.freeBytes)
+    }
+    // A share's floor or disk list can rule a disk out for some units only
+    const takes = (diskPath: string, unit: PackingUnit, available: number) =>
+      available >= unit.totalBytes &&
+      (freeBytes.get(diskPath) ?? 0) - unit.totalBytes >= reservedBytesForUnit(options, unit, diskPath) &&
+      unitAllowedOn(options, unit, diskPath)
+
+    const largestRoom = [...room.values()].reduce((max, r) => Math.max(max, r), 0)
+
+    const overLimit = disks
+      .map((d) => ({ disk: d, excess: d.totalBytes - d.freeBytes - limitBytes(d.totalBytes) }))
+      .filter((d) => d.excess > 0)
+      .sort((a, b) => b.excess - a.excess)
+
+    // Choose what leaves each disk: the most data that can stay is the least that must move
+    const leaving: Array<{ readonly sourceDisk: string; readonly unit: PackingUnit }> = []
+    let solverTimeouts = 0
+    for (const { disk, excess } of overLimit) {
+      // Folders grouped by a rule that no disk has room for move as their parts
+      const units = splitOversizedUnits(
+        yield* packingUnitsForDisk(disk.path, candidateFiles, worldView.files, options),
+        largestRoom
+      )
+      const movable = units.reduce((sum, u) => sum + u.totalBytes, 0)
+
+      if (movable < excess) {
+        return yield* Effect.fail(
+          new GoalUnreachable({
+            goal,
+            reason: `${disk.path} needs ${formatSize(excess)} moved off, but only ${formatSize(movable)} of its files can be moved.`,
+          })
+        )
+      }
+
+      const keep = solveSubsetSum(
+        units.map((u) => u.totalBytes),
+        movable - excess,
+        {
+          slack: SOLVER_SLACK_BYTES,
+          deadline: Date.now() + (options.solverTimeBudgetMs ?? DEFAULT_SOLVER_TIME_BUDGET_MS),
+        }
+      )
+      if (!keep.complete) solverTimeouts++
+
+      const kept = new Set(keep.indices)
+      const toMove = units.filter((_, i) => !kept.has(i))
+      leaving.push(...toMove.map((unit) => ({ sourceDisk: disk.path, unit })))
+
+      yield* Effect.logDebug(
+        `${disk.path}: ${formatSize(excess)} over the limit, moving ${formatSize(movable - keep.total)} in ${toMove.length} item(s)`
+      )
+    }
+
+    // Place largest first on the disk with the least room that takes it
+    const moves: FileMove[] = []
+    let foldersPlaced = 0
+    const explodedFolders = new Set<string>()
+    for (const { sourceDisk, unit } of [...leaving].sort((a, b) => b.unit.totalBytes - a.unit.totalBytes)) {
+      let target: string | undefined
+      for (const [diskPath, available] of room) {
+        if (takes(diskPath, unit, available) && (target === undefined || available < (room.get(target) ?? 0))) {
+          target = diskPath
+        }
+      }
+
+      if (target === undefined) {
+        const path = unit.isFolder ? `${sourceDisk}/${unit.folderPath}` : (unit.files[0]?.absolutePath ?? unit.id)
+        return yield* Effect.fail(
+          new GoalUnreachable({
+            goal,
+            reason: `No disk has room for ${path} (${formatSize(unit.totalBytes)}) without going over ${maxFillPct}%.`,
+          })
+        )
+      }
+
+      const targetDisk = target
+      room.set(targetDisk, (room.get(targetDisk) ?? 0) - unit.totalBytes)
+      freeBytes.set(targetDisk, (freeBytes.get(targetDisk) ?? 0) - unit.totalBytes)
+      moves.push(...unit.files.map((file) => createFileMove(file, targetDisk, unit.id)))
+      if (unit.isFolder) {
+        foldersPlaced++
+      } else if (unit.folderPath !== "") {
+        explodedFolders.add(`${sourceDisk}/${unit.folderPath}`)
+      }
+    }
+
+    return {
+      moves,
+      bytesConsolidated: uniqueBytes(moves.map((m) => m.file)),
+      foldersPlaced,
+      foldersExploded: explodedFolders.size,
+      destinations: [],
+      solverTimeouts,
+    }
+  })
+
+const groupByTarget = (moves: ReadonlyArray<FileMove>): Map<string, FileMove["file"][]> => {
+  const groups = new Map<string, FileMove["file"][]>()
+  for (const move of moves) {
+    const files = groups.get(move.targetDiskPath) ?? []
+    files.push(move.file)
+    groups.set(move.targetDiskPath, files)
+  }
+  return groups
+}
@@ -5,6 +5,12 @@
 import { Context, Effect, Layer, Console } from "effect"
 import type { Disk } from "../domain/Disk"
 import { formatSize } from "../lib/parseSize"
+import type { DiskScanSummary, ScanProgress } from "./ScannerService"
+import type { DestinationFill } from "./SimpleConsolidator"
+import type { FillSpread } from "./Balancer"
+import type { ArrayReport } from "./Analyzer"
+import type { ScanCacheStats } from "../infra/ScanCacheService"
+import type { ShareConfig } from "../domain/ShareConfig"
 
 // =============================================================================
 // Service interface
@@ -15,11 +21,22 @@ export interface LoggerService {
     readonly header: Effect.Effect<void>
     readonly discoveringDisks: Effect.Effect<void>
     readonly noDisksFound: Effect.Effect<void>
-    readonly diskInfo: (disk: Disk, isFinal: boolean) => Effect.Effect<void>
+    readonly diskInfo: (disk: Disk, isFinal: boolean, reservedBytes?: number) => Effect.Effect<void>
+    readonly shareSettings: (sharesDir: string, shares: ReadonlyArray<ShareConfig>) => Effect.Effect<void>
+    readonly excludedStay: (diskPath: string, patterns: ReadonlyArray<string>) => Effect.Effect<void>
+    readonly scanProgress: (progress: ScanProgress) => Effect.Effect<void>
+    readonly scanSummary: (summary: DiskScanSummary) => Effect.Effect<void>
     readonly existingPlanWarning: (stats: { completed: number; failed: number; pending: number }) => Effect.Effect<void>
     readonly validating: Effect.Effect<void>
     readonly validationComplete: (successful: number) => Effect.Effect<void>
     readonly planStats: (stats: { movesPlanned?: number; skipped?: number; totalBytes: number; totalMoves?: number; disksEvacuated?: number; foldersPlaced?: number; foldersExploded?: number }) => Effect.Effect<void>
+    readonly packingEfficiency: (destinations: ReadonlyArray<DestinationFill>, solverTimeouts: number) => Effect.Effect<void>
+    readonly goalCost: (cost: { goal: string; bytesMoved: number; filesMoved: number; arrayUsedBytes: number }) => Effect.Effect<void>
+    readonly fillSpread: (before: FillSpread, after: FillSpread, tolerancePct: number) => Effect.Effect<void>
+    readonly gatherSummary: (scattered: number, gathered: number) => Effect.Effect<void>
+    readonly undoing: (path: string, createdAt: string) => Effect.Effect<void>
+    readonly undoSummary: (completedMoves: number, skipped: ReadonlyArray<string>) => Effect.Effect<void>
+    readonly nothingToUndo: Effect.Effect<void>
     readonly noMovesNeeded: Effect.Effect<void>
     readonly savingPlan: (path: string) => Effect.Effect<void>
     readonly planSaved: Effect.Effect<void>
@@ -40,13 +57,19 @@ export interface LoggerService {
     readonly diskStatsChanged: Effect.Effect<void>
     readonly diskStatsChangedWarning: (changes: ReadonlyArray<{ disk: string; before: number; after: number }>) => Effect.Effect<void>
     readonly planValidated: Effect.Effect<void>
+    readonly staleAborted: (count: number) => Effect.Effect<void>
+    readonly staleSkipped: (count: number) => Effect.Effect<void>
+    readonly changedSinceValidation: (files: ReadonlyArray<string>) => Effect.Effect<void>
     readonly dryRunMode: Effect.Effect<void>
     readonly executing: (count: number, concurrency: number) => Effect.Effect<void>
     readonly transferStats: (successful: number, failed: number, skipped?: number) => Effect.Effect<void>
+    readonly verificationSummary: (verified: number, mismatched: number) => Effect.Effect<void>
+    readonly prunedDirectories: (removed: number, kept: number) => Effect.Effect<void>
     readonly transferComplete: (dryRun: boolean) => Effect.Effect<void>
     readonly allComplete: Effect.Effect<void>
     readonly someFailedRetry: Effect.Effect<void>
     readonly planDeleted: Effect.Effect<void>
+    readonly planKept: (path: string) => Effect.Effect<void>
   }
   readonly show: {
     readonly header: Effect.Effect<void>
@@ -60,6 +83,18 @@ export interface LoggerService {
     readonly moveEntry: (entry: { status: "pending" | "completed" | "failed"; size: number; sourcePath: string; destPath: string }) => Effect.Effect<void>
     readonly separator: Effect.Effect<void>
   }
+  readonly analyze: {
+    readonly header: Effect.Effect<void>
+    readonly report: (report: ArrayReport) => Effect.Effect<void>
+  }
+  readonly cache: {
+    readonly stats: (stats: ScanCacheStats) => Effect.Effect<void>
+    readonly cleared: (path: string) => Effect.Effect<void>
+  }
+  readonly export: {
+    readonly noPlanFound: (path: string) => Effect.Effect<void>
+    readonly exported: (path: string, moves: number) => Effect.Effect<void>
+  }
 }
 
 export class LoggerServiceTag extends Context.Tag("LoggerService")<
@@ -78,14 +113,53 @@ export const LoggerServiceLive = Layer.succeed(
       header: Console.log("\n📦 Unraid Bin-Pack - Plan\n"),
       discoveringDisks: Console.log("🔍 Discovering disks..."),
       noDisksFound: Console.error("❌ No disks found"),
-      diskInfo: (disk, isFinal) => {
+      diskInfo: (disk, isFinal, reservedBytes) => {
         const used = disk.totalBytes - disk.freeBytes
         const usedPct = ((used / disk.totalBytes) * 100).toFixed(1)
         const prefix = isFinal ? "  →" : "   "
+        const reserved = reservedBytes !== undefined ? `, ${formatSize(reservedBytes)} reserved` : ""
         return Console.log(
-          `${prefix} ${disk.path}: ${formatSize(used)}/${formatSize(disk.totalBytes)} (${usedPct}% full, ${formatSize(disk.freeBytes)} free)`
+          `${prefix} ${disk.path}: ${formatSize(used)}/${formatSize(disk.totalBytes)} (${usedPct}% full, ${formatSize(disk.freeBytes)} free${reserved})`
         )
       },
+      shareSettings: (sharesDir, shares) =>
+        Effect.gen(function* () {
+          const rules = (share: ShareConfig) => [
+            ...(share.includeDisks.length > 0 ? [`only ${share.includeDisks.join(", ")}`] : []),
+            ...(share.excludeDisks.length > 0 ? [`not ${share.excludeDisks.join(", ")}`] : []),
+            ...(share.splitLevel !== undefined ? [`split level ${share.splitLevel}`] : []),
+            ...(share.floorBytes > 0 ? [`floor ${formatSize(share.floorBytes)}`] : []),
+          ]
+          const constrained = shares.filter((share) => rules(share).length > 0)
+          if (constrained.length === 0) return
+          yield* Console.log(`\n📁 Share settings (${sharesDir}):`)
+          for (const share of constrained) {
+            yield* Console.log(`   ${share.name}: ${rules(share).join("; ")}`)
+          }
+        }),
+      excludedStay: (diskPath, patterns) =>
+        Console.log(
+          `\n⚠️  Files matching --exclude (${patterns.join(", ")}) are not scanned, so they stay on ${diskPath}`
+        ),
+      scanProgress: (progress) =>
+        Console.log(
+          `   ${progress.diskPath}: scanning... ${progress.filesScanned} files, ${formatSize(progress.bytesScanned)}`
+        ),
+      scanSummary: (summary) =>
+        Effect.gen(function* () {
+          yield* Console.log(
+            `   ${summary.diskPath}: ${summary.filesFound} files${summary.filesExcluded > 0 ? ` (${summary.filesExcluded} excluded)` : ""}`
+          )
+          if (summary.cache) {
+            const { directoriesReused, directoriesRead } = summary.cache
+            yield* Console.log(
+              `      cache: ${directoriesReused} directories reused, ${directoriesRead} re-read`
+            )
+          }
+          for (const rule of summary.excludedByRule) {
+            yield* Console.log(`      - ${rule.pattern} [${rule.source}]: ${rule.count} files`)
+          }
+        }),
       existingPlanWarning: (stats) =>
         Effect.gen(function* () {
           yield* Console.log("\n⚠️  Existing plan file found with partial progress:")
@@ -104,8 +178,58 @@ export const LoggerServiceLive = Layer.succeed(
           if (stats.skipped !== undefined) yield* Console.log(`   Skipped: ${stats.skipped}`)
           if (stats.totalMoves !== undefined) yield* Console.log(`   Total moves: ${stats.totalMoves}`)
           yield* Console.log(`   Total data: ${formatSize(stats.totalBytes)}`)
+          if (stats.foldersPlaced !== undefined) yield* Console.log(`   Folders placed whole: ${stats.foldersPlaced}`)
+          if (stats.foldersExploded !== undefined) yield* Console.log(`   Folders split by file: ${stats.foldersExploded}`)
           if (stats.disksEvacuated !== undefined) yield* Console.log(`   Disks to evacuate: ${stats.disksEvacuated}`)
         }),
+      packingEfficiency: (destinations, solverTimeouts) =>
+        Effect.gen(function* () {
+          if (destinations.length === 0) return
+          yield* Console.log(`\n🎯 Packing efficiency (free space above min-space that was filled):`)
+          for (const d of destinations) {
+            const pct = d.availableBytes > 0 ? ((d.placedBytes / d.availableBytes) * 100).toFixed(1) : "100.0"
+            yield* Console.log(`   ${d.diskPath}: ${formatSize(d.placedBytes)} of ${formatSize(d.availableBytes)} (${pct}%)`)
+          }
+          if (solverTimeouts > 0) {
+            yield* Console.log(`   Solver ran out of time on ${solverTimeouts} search(es) - raise --solver-time-budget for a tighter fit`)
+          }
+        }),
+      goalCost: (cost) =>
+        Effect.gen(function* () {
+          const share = cost.arrayUsedBytes > 0 ? ((cost.bytesMoved / cost.arrayUsedBytes) * 100).toFixed(1) : "0.0"
+          yield* Console.log(`\n💰 Cost to reach goal (${cost.goal}):`)
+          yield* Console.log(`   ${formatSize(cost.bytesMoved)} in ${cost.filesMoved} file(s) - ${share}% of the data on the array`)
+        }),
+      fillSpread: (before, after, tolerancePct) =>
+        Effect.gen(function* () {
+          const range = (spread: FillSpread) =>
+            `${spread.minPct.toFixed(1)}% - ${spread.maxPct.toFixed(1)}% (spread ${(spread.maxPct - spread.minPct).toFixed(1)} points)`
+          yield* Console.log(`\n⚖️  Disk fill (target ${after.averagePct.toFixed(1)}% ± ${tolerancePct}%):`)
+          yield* Console.log(`   Before: ${range(before)}`)
+          yield* Console.log(`   After:  ${range(after)}`)
+        }),
+      gatherSummary: (scattered, gathered) =>
+        Effect.gen(function* () {
+          yield* Console.log(`\n🧲 Scattered folders: ${scattered} on more than one disk, ${gathered} to gather`)
+          if (gathered < scattered) {
+            yield* Console.log(`   ${scattered - gathered} left as they are - no disk holding them has room (see --debug)`)
+          }
+        }),
+      undoing: (path, createdAt) => Console.log(`↩️  Undoing the plan at ${path} (created ${createdAt})\n`),
+      undoSummary: (completedMoves, skipped) =>
+        Effect.gen(function* () {
+          yield* Console.log(`\n↩️  ${completedMoves - skipped.length} of ${completedMoves} completed moves can go back`)
+          if (skipped.length > 0) {
+            yield* Console.log(`   Left where they are:`)
+            for (const file of skipped.slice(0, 10)) {
+              yield* Console.log(`   ${file}`)
+            }
+            if (skipped.length > 10) {
+              yield* Console.log(`   ... and ${skipped.length - 10} more`)
+            }
+          }
+        }),
+      nothingToUndo: Console.log("\n✓ Nothing to undo - no completed move can go back\n"),
       noMovesNeeded: Console.log("\n✓ No moves needed - all disks adequately filled\n"),
       savingPlan: (path) => Console.log(`\n💾 Saving plan to ${path}...`),
       planSaved: Console.log("✓ Plan saved\n"),
@@ -127,7 +251,7 @@ export const LoggerServiceLive = Layer.succeed(
       allSourceFilesExist: (count?) => Console.log(`✓ All source files exist${count ? ` (${count})` : ""}`),
       missingSourceFiles: (files, count?) =>
         Effect.gen(function* () {
-          yield* Console.error(`\n❌ Missing source files (${files.length}):`)
+          yield* Console.error(`\n❌ Missing or changed source files (${files.length}):`)
           for (const file of files.slice(0, 10)) {
             yield* Console.error(`   ${file}`)
           }
@@ -170,16 +294,42 @@ export const LoggerServiceLive = Layer.succeed(
           }
         }),
       planValidated: Console.log("✓ Plan validated\n"),
+      staleAborted: (count) =>
+        Console.error(
+          `\n❌ ${count} moves no longer match the filesystem - nothing was moved.\n   Re-run 'plan', or apply with --on-stale skip to run the rest.\n`
+        ),
+      staleSkipped: (count) => Console.log(`⚠️  Skipping ${count} moves that no longer match the filesystem\n`),
+      changedSinceValidation: (files) =>
+        Effect.gen(function* () {
+          yield* Console.log(`\n⚠️  Skipped ${files.length} moves whose source changed before its batch started:`)
+          for (const file of files.slice(0, 10)) {
+            yield* Console.log(`   ${file}`)
+          }
+          if (files.length > 10) {
+            yield* Console.log(`   ... and ${files.length - 10} more`)
+          }
+        }),
       dryRunMode: Console.log("🧪 DRY RUN MODE - no files will be moved\n"),
       executing: (count, concurrency) =>
         Console.log(`\n📤 Transferring ${count} files (concurrency: ${concurrency})...\n`),
       transferStats: (successful, failed, skipped?) =>
         Console.log(`\n   ✓ ${successful} successful, ❌ ${failed} failed${skipped ? `, ⏭️  ${skipped} skipped` : ""}`),
+      verificationSummary: (verified, mismatched) =>
+        Console.log(
+          mismatched > 0
+            ? `   🔐 ${verified} copies verified, ⚠️  ${mismatched} checksum mismatches (sources kept)`
+            : `   🔐 ${verified} copies verified by checksum`
+        ),
+      prunedDirectories: (removed, kept) =>
+        Console.log(
+          `   🧹 ${removed} empty source directories removed${kept > 0 ? `, ${kept} still in use kept` : ""}`
+        ),
       transferComplete: (dryRun) =>
         Console.log(dryRun ? "\n✓ Dry run complete\n" : "\n✓ Transfer complete\n"),
       allComplete: Console.log("✅ All moves completed successfully!\n"),
       someFailedRetry: Console.log("\n⚠️  Some moves failed. Run 'apply' again to retry failed moves.\n"),
       planDeleted: Console.log("🗑️  Plan deleted\n"),
+      planKept: (path) => Console.log(`📦 Plan kept at ${path} - 'plan --undo ${path}' moves it all back\n`),
     },
     show: {
       header: Console.log("\n📋 Unraid Bin-Pack - Show Plan\n"),
@@ -209,5 +359,60 @@ export const LoggerServiceLive = Layer.succeed(
       },
       separator: Console.log("\n" + "=".repeat(80) + "\n"),
     },
+    analyze: {
+      header: Console.log("\n🔬 Unraid Bin-Pack - Analyze\n"),
+      report: (report) =>
+        Effect.gen(function* () {
+          yield* Console.log("\n💽 Disk fill:")
+          for (const disk of report.disks) {
+            const clutter = disk.smallFiles > 0 ? `, ${disk.smallFiles} small files (${formatSize(disk.smallFileBytes)})` : ""
+            yield* Console.log(
+              `   ${disk.path}: ${disk.usedPct.toFixed(1).padStart(5)}% full, ${formatSize(disk.freeBytes)} free of ${formatSize(disk.totalBytes)}, ${disk.files} files${clutter}`
+            )
+          }
+
+          yield* Console.log(`\n🧩 Split folders: ${report.splitFolders} on more than one disk (${formatSize(report.scatteredBytes)} to gather)`)
+          for (const split of report.largestSplits) {
+            const parts = split.disks.map((part) => `${part.diskPath} ${formatSize(part.bytes)}`).join(", ")
+            yield* Console.log(`   ${split.folderPath}: ${parts}`)
+          }
+
+          const shown = report.oversizedFiles.slice(0, 10)
+          yield* Console.log(`\n🐘 Too large for any other disk: ${report.oversizedFiles.length} files`)
+          for (const file of shown) {
+            yield* Console.log(`   ${formatSize(file.sizeBytes)}: ${file.path} (largest room ${formatSize(file.largestRoomBytes)})`)
+          }
+          if (report.oversizedFiles.length > shown.length) {
+            yield* Console.log(`   ... and ${report.oversizedFiles.length - shown.length} more (see --json)`)
+          }
+
+          const { count, bytes, minFileSizeBytes } = report.smallFiles
+          yield* Console.log(
+            `\n🧹 Small-file clutter: ${count} files below ${formatSize(minFileSizeBytes)}, ${formatSize(bytes)} in total - never moved\n`
+          )
+        }),
+    },
+    cache: {
+      stats: (stats) =>
+        Effect.gen(function* () {
+          yield* Console.log(`\n🗂️  Scan cache: ${stats.path} (${formatSize(stats.sizeBytes)})\n`)
+          if (stats.disks.length === 0) {
+            yield* Console.log("   Empty - the next plan run will populate it\n")
+            return
+          }
+          for (const disk of stats.disks) {
+            yield* Console.log(
+              `   ${disk.diskPath}: ${disk.files} files in ${disk.directories} directories, ${formatSize(disk.totalBytes)} (scanned ${disk.scannedAt})`
+            )
+          }
+          yield* Console.log("")
+        }),
+      cleared: (path) => Console.log(`\n✓ Scan cache cleared (${path})\n`),
+    },
+    export: {
+      noPlanFound: (path) => Console.error(`\n❌ No plan file found at ${path}\n   Run 'plan' command first.\n`),
+      exported: (path, moves) =>
+        Console.log(`\n✓ Wrote ${moves} remaining moves to ${path}\n   Moves run by the script are not recorded in the plan.\n`),
+    },
   }
 )
@@ -0,0 +1,213 @@
+/**
+ * PackingStrategy tests - every strategy must honour the same placement rules
+ * (min space, folders, hardlinks, source disks); each then has its own
+ * placement behaviour.
+ */
+
+import { describe, test, expect } from "bun:test"
+import { Effect } from "effect"
+import { packingStrategies, type StrategyName } from "./PackingStrategy"
+import type { ConsolidationResult } from "./SimpleConsolidator"
+import type { WorldView } from "../domain/WorldView"
+import { MB, createFile, createLinkedFile } from "../test/fixtures"
+
+const run = (name: StrategyName, worldView: WorldView, minSpaceBytes = 0) =>
+  Effect.runPromise(packingStrategies[name].consolidate(worldView, { minSpaceBytes }))
+
+const targetOf = (result: ConsolidationResult, relativePath: string) =>
+  result.moves.find((m) => m.file.relativePath === relativePath)?.targetDiskPath
+
+// =============================================================================
+// Rules shared by every strategy
+// =============================================================================
+
+const placementRules = (name: StrategyName) => {
+  test("respects the min-space reservation", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+      ],
+      files: [createFile("/mnt/disk2", "file.mkv", 100)],
+    }
+
+    const result = await run(name, worldView, 450 * MB)
+
+    expect(result.moves).toHaveLength(0)
+  })
+
+  test("respects per-disk reservations over the shared min-space", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB }, // reserves 450MB
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 300 * MB },
+      ],
+      files: [createFile("/mnt/disk2", "file.mkv", 100)],
+    }
+
+    const result = await Effect.runPromise(
+      packingStrategies[name].consolidate(worldView, {
+        minSpaceBytes: 0,
+        reservedBytesByDisk: new Map([["/mnt/disk1", 450 * MB]]),
+      })
+    )
+
+    expect(targetOf(result, "file.mkv")).toBe("/mnt/disk3")
+  })
+
+  test("never moves files onto a disk already emptied as a source", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source 1 (least full)
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 800 * MB }, // source 2
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk1", "a.mkv", 100),
+        createFile("/mnt/disk2", "b.mkv", 200),
+        createFile("/mnt/disk3", "c.mkv", 500),
+      ],
+    }
+
+    const result = await run(name, worldView)
+
+    const fromLaterSources = result.moves.filter((m) => m.file.diskPath !== "/mnt/disk1")
+    expect(fromLaterSources.every((m) => m.targetDiskPath !== "/mnt/disk1")).toBe(true)
+    expect(result.moves.every((m) => m.targetDiskPath !== m.file.diskPath)).toBe(true)
+  })
+
+  test("keeps movie folders together on one disk", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 2000 * MB, freeBytes: 1000 * MB },
+        { path: "/mnt/disk2", totalBytes: 2000 * MB, freeBytes: 1500 * MB }, // source
+        { path: "/mnt/disk3", totalBytes: 2000 * MB, freeBytes: 901 * MB }, // fits only the mkv
+      ],
+      files: [
+        createFile("/mnt/disk2", "Movies/Film (2020)/film.mkv", 900),
+        createFile("/mnt/disk2", "Movies/Film (2020)/film.srt", 1),
+        createFile("/mnt/disk2", "Movies/Film (2020)/film.nfo", 1),
+      ],
+    }
+
+    const result = await run(name, worldView)
+
+    const fromDisk2 = result.moves.filter((m) => m.file.diskPath === "/mnt/disk2")
+    expect(fromDisk2).toHaveLength(3)
+    expect(new Set(fromDisk2.map((m) => m.targetDiskPath))).toEqual(new Set(["/mnt/disk1"]))
+  })
+
+  test("moves hardlinked paths together and counts their data once", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 700 * MB },
+        { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3000 * MB }, // source
+      ],
+      files: [
+        createLinkedFile("/mnt/disk2", "torrents/film.mkv", 600, 42, 2),
+        createLinkedFile("/mnt/disk2", "Movies/Film/film.mkv", 600, 42, 2),
+      ],
+    }
+
+    const result = await run(name, worldView)
+
+    expect(result.moves).toHaveLength(2)
+    expect(result.bytesConsolidated).toBe(600 * MB)
+  })
+}
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+describe("simple", () => {
+  placementRules("simple")
+
+  test("prefers a combination that fills a destination better than one large file", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 545 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 100 * MB }, // source
+      ],
+      files: [
+        createFile("/mnt/disk2", "file1.mkv", 540),
+        createFile("/mnt/disk2", "file2.mkv", 345),
+        createFile("/mnt/disk2", "file3.mkv", 200),
+      ],
+    }
+
+    const result = await run("simple", worldView)
+
+    expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual(["file2.mkv", "file3.mkv"])
+  })
+})
+
+describe("ffd", () => {
+  placementRules("ffd")
+
+  test("places the largest file first, on the first disk in order with room", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk2", "small.mkv", 100),
+        createFile("/mnt/disk2", "large.mkv", 450),
+      ],
+    }
+
+    const result = await run("ffd", worldView)
+
+    // large takes disk1 first, leaving no room there for small
+    expect(targetOf(result, "large.mkv")).toBe("/mnt/disk1")
+    expect(targetOf(result, "small.mkv")).toBe("/mnt/disk3")
+  })
+})
+
+describe("bfd", () => {
+  placementRules("bfd")
+
+  test("places each file on the disk it fills most tightly", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 350 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk2", "a.mkv", 300),
+        createFile("/mnt/disk2", "b.mkv", 200),
+      ],
+    }
+
+    const result = await run("bfd", worldView)
+
+    expect(targetOf(result, "a.mkv")).toBe("/mnt/disk3")
+    expect(targetOf(result, "b.mkv")).toBe("/mnt/disk1")
+  })
+})
+
+describe("worst-fit", () => {
+  placementRules("worst-fit")
+
+  test("spreads files across the disks with the most free space", async () => {
+    const worldView: WorldView = {
+      disks: [
+        { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 1000 * MB },
+        { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+        { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 800 * MB },
+      ],
+      files: [
+        createFile("/mnt/disk2", "a.mkv", 300),
+        createFile("/mnt/disk2", "b.mkv", 300),
+      ],
+    }
+
+    const result = await run("worst-fit", worldView)
+
+    expect(new Set(result.moves.map((m) => m.targetDiskPath))).toEqual(new Set(["/mnt/disk1", "/mnt/disk3"]))
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * PackingStrategy - interchangeable policies for deciding what moves where
+ *
+ * Every strategy shares the consolidation loop from SimpleConsolidator
+ * (filters, folder and hardlink units, least-full source disk first) and
+ * differs only in how units from a source disk are assigned to destinations:
+ *
+ * - simple:    exact best fill of one destination at a time (the default)
+ * - ffd:       first-fit decreasing - largest unit first, first destination in disk order that fits
+ * - bfd:       best-fit decreasing - largest unit first, tightest destination that fits
+ * - worst-fit: largest unit first, destination with the most room (spreads data out)
+ */
+
+import type { Effect } from "effect"
+import type { WorldView } from "../domain/WorldView"
+import {
+  consolidateSimple,
+  consolidateWith,
+  type ChooseMove,
+  type ConsolidationOptions,
+  type ConsolidationResult,
+  type Destination,
+  type PackingUnit,
+} from "./SimpleConsolidator"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const STRATEGY_NAMES = ["simple", "ffd", "bfd", "worst-fit"] as const
+
+export type StrategyName = (typeof STRATEGY_NAMES)[number]
+
+export interface PackingStrategy {
+  readonly name: StrategyName
+  readonly description: string
+  readonly consolidate: (
+    worldView: WorldView,
+    options: ConsolidationOptions
+  ) => Effect.Effect<ConsolidationResult, never>
+}
+
+// =============================================================================
+// Decreasing-order placement
+// =============================================================================
+
+/**
+ * Place the largest unit that fits anywhere, on the destination chosen by
+ * pickDestination. Repeating this is the classic "decreasing" heuristic: a
+ * unit that fits nowhere now never will, since free space only shrinks.
+ */
+const placeLargestFirst =
+  (pickDestination: (fitting: ReadonlyArray<Destination>) => Destination | undefined): ChooseMove =>
+  (units, destinations) => {
+    const room = Math.max(...destinations.map((d) => d.availableBytes))
+
+    let largest: PackingUnit | undefined
+    for (const unit of units) {
+      if (unit.totalBytes <= room && (!largest || unit.totalBytes > largest.totalBytes)) largest = unit
+    }
+    if (!largest) return null
+
+    const unitBytes = largest.totalBytes
+    const target = pickDestination(destinations.filter((d) => d.availableBytes >= unitBytes))
+    if (!target) return null
+
+    return {
+      units: [largest],
+      totalBytes: unitBytes,
+      targetDisk: target.diskPath,
+      wastedSpace: target.availableBytes - unitBytes,
+      score: unitBytes / target.availableBytes,
+    }
+  }
+
+const firstFit = placeLargestFirst((fitting) => fitting[0])
+
+const bestFit = placeLargestFirst((fitting) =>
+  fitting.reduce<Destination | undefined>(
+    (best, d) => (!best || d.availableBytes < best.availableBytes ? d : best),
+    undefined
+  )
+)
+
+const worstFit = placeLargestFirst((fitting) =>
+  fitting.reduce<Destination | undefined>(
+    (best, d) => (!best || d.availableBytes > best.availableBytes ? d : best),
+    undefined
+  )
+)
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const packingStrategies: Record<StrategyName, PackingStrategy> = {
+  simple: {
+    name: "simple",
+    description: "Fill one destination at a time as completely as possible",
+    consolidate: consolidateSimple,
+  },
+  ffd: {
+    name: "ffd",
+    description: "First-fit decreasing: largest first, onto the first disk with room",
+    consolidate: (worldView, options) => consolidateWith(worldView, options, firstFit),
+  },
+  bfd: {
+    name: "bfd",
+    description: "Best-fit decreasing: largest first, onto the disk it fills most tightly",
+    consolidate: (worldView, options) => consolidateWith(worldView, options, bestFit),
+  },
+  "worst-fit": {
+    name: "worst-fit",
+    description: "Largest first, onto the disk with the most free space (spreads data)",
+    consolidate: (worldView, options) => consolidateWith(worldView, options, worstFit),
+  },
+}
+
+export const DEFAULT_STRATEGY: StrategyName = "simple"
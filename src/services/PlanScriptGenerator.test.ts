@@ -71,7 +71,7 @@ describe("PlanScriptGenerator", () => {
       })
     )
 
-    expect(result).toContain("rsync -a --remove-source-files")
+    expect(result).toContain("rsync -aH --remove-source-files")
     expect(result).toContain("/mnt/disk1/")
     expect(result).toContain("/mnt/disk2/")
   })
@@ -324,4 +324,41 @@ describe("PlanScriptGenerator", () => {
     expect(result).not.toContain("completed.mkv")
     expect(result).not.toContain("skipped.mkv")
   })
+
+  describe("concurrency", () => {
+    const move = (relativePath: string, fromDisk: string, toDisk: string): FileMove => ({
+      file: {
+        absolutePath: `${fromDisk}/${relativePath}`,
+        relativePath,
+        diskPath: fromDisk,
+        sizeBytes: 1000000,
+      },
+      targetDiskPath: toDisk,
+      destinationPath: `${toDisk}/${relativePath}`,
+      status: "pending",
+    })
+
+    const generate = (moves: FileMove[], concurrency = 2) =>
+      Effect.runSync(
+        PlanScriptGenerator.generate({ moves, sourceDisk: "/mnt/disk1", diskStats: {}, concurrency })
+      )
+
+    test("limits running batches to the configured concurrency", () => {
+      const result = generate([move("a.mkv", "/mnt/disk1", "/mnt/disk2")], 3)
+
+      expect(result).toContain("MAX_JOBS=3")
+      expect(result).toContain("wait -n")
+      expect(result).toMatch(/^throttle\nrsync /m)
+    })
+
+    test("batches moves from different source disks separately", () => {
+      const result = generate([
+        move("a.mkv", "/mnt/disk1", "/mnt/disk3"),
+        move("b.mkv", "/mnt/disk2", "/mnt/disk3"),
+      ])
+
+      expect(result).toContain(') "/mnt/disk1/" "/mnt/disk3/" &')
+      expect(result).toContain(') "/mnt/disk2/" "/mnt/disk3/" &')
+    })
+  })
 })
@@ -1,7 +1,8 @@
 /**
  * PlanScriptGenerator - generates executable bash scripts for file moves
  *
- * Instead of storing plans in SQLite, we generate a bash script with rsync commands.
+ * The plan itself lives in the SQLite plan database; `export` writes its
+ * remaining moves out as a bash script of rsync commands.
  * Benefits:
  * - Human readable and auditable
  * - No domain-specific knowledge needed (just rsync)
@@ -12,6 +13,7 @@
 
 import { Effect } from "effect"
 import type { FileMove } from "../domain/MovePlan"
+import { uniqueBytes } from "../domain/FileEntry"
 import type { DiskStats } from "../domain/Disk"
 
 // =============================================================================
@@ -37,35 +39,31 @@ interface Batch {
 // =============================================================================
 
 /**
- * Group moves by target disk for batched rsync commands
+ * Group moves by source and target disk for batched rsync commands
  */
-const groupByTargetDisk = (moves: readonly FileMove[]): Batch[] => {
-  const batches = new Map<string, { files: string[]; sizeBytes: number; sourceDisk: string }>()
+const groupByDiskPair = (moves: readonly FileMove[]): Batch[] => {
+  const batches = new Map<string, { files: string[]; sizeBytes: number; sourceDisk: string; targetDisk: string }>()
 
   for (const move of moves) {
     if (move.status !== "pending") continue
 
-    const target = move.targetDiskPath
-    const existing = batches.get(target)
+    const key = `${move.file.diskPath}\0${move.targetDiskPath}`
+    const existing = batches.get(key)
 
     if (existing) {
       existing.files.push(move.file.relativePath)
       existing.sizeBytes += move.file.sizeBytes
     } else {
-      batches.set(target, {
+      batches.set(key, {
         files: [move.file.relativePath],
         sizeBytes: move.file.sizeBytes,
         sourceDisk: move.file.diskPath,
+        targetDisk: move.targetDiskPath,
       })
     }
   }
 
-  return Array.from(batches.entries()).map(([targetDisk, { files, sizeBytes, sourceDisk }]) => ({
-    sourceDisk,
-    targetDisk,
-    files,
-    sizeBytes,
-  }))
+  return Array.from(batches.values())
 }
 
 // =============================================================================
@@ -87,7 +85,7 @@ const formatBytes = (bytes: number): string => {
  */
 const generateHeader = (options: PlanScriptOptions): string => {
   const pendingMoves = options.moves.filter((m) => m.status === "pending")
-  const totalBytes = pendingMoves.reduce((sum, m) => sum + m.file.sizeBytes, 0)
+  const totalBytes = uniqueBytes(pendingMoves.map((m) => m.file))
   const now = new Date().toISOString().split("T")[0]
 
   return `#!/bin/bash
@@ -103,6 +101,15 @@ const generateHeader = (options: PlanScriptOptions): string => {
 
 set -e  # Exit on error
 
+MAX_JOBS=${options.concurrency}
+
+# Wait for a free slot before starting the next batch
+throttle() {
+  while [ "$(jobs -rp | wc -l)" -ge "$MAX_JOBS" ]; do
+    wait -n
+  done
+}
+
 `
 }
 
@@ -116,7 +123,8 @@ const generateBatchCommand = (batch: Batch, index: number): string => {
   const fileList = batch.files.join("\n")
 
   return `# Batch ${index + 1}: ${batch.sourceDisk} -> ${batch.targetDisk} (${batch.files.length} files, ${formatBytes(batch.sizeBytes)})
-rsync -a --remove-source-files --files-from=<(cat <<'EOF'
+throttle
+rsync -aH --remove-source-files --files-from=<(cat <<'EOF'
 ${fileList}
 EOF
 ) "${src}" "${dst}" &
@@ -129,7 +137,7 @@ EOF
  */
 export const generate = (options: PlanScriptOptions): Effect.Effect<string> =>
   Effect.sync(() => {
-    const batches = groupByTargetDisk(options.moves)
+    const batches = groupByDiskPair(options.moves)
 
     if (batches.length === 0) {
       return `#!/bin/bash
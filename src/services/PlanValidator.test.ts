@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { Effect } from "effect"
+import { BunContext } from "@effect/platform-bun"
+import { mkdir, mkdtemp, rm, stat, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { findChangedSources, validatePlan } from "./PlanValidator"
+import { createFileMove, type FileMove } from "../domain/MovePlan"
+import type { DiskStat } from "../infra/PlanStorageService"
+import { MB } from "../test/fixtures"
+
+let root: string
+let src: string
+let dest: string
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "validate-test-"))
+  src = join(root, "disk1")
+  dest = join(root, "disk2")
+  await mkdir(src)
+  await mkdir(dest)
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+const writeBytes = async (path: string, bytes: number) => {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, new Uint8Array(bytes))
+}
+
+/** A move of a file already written to the source disk */
+const moveOf = (relativePath: string, sizeBytes: number, mtimeMs?: number): FileMove =>
+  createFileMove({ diskPath: src, relativePath, absolutePath: join(src, relativePath), sizeBytes, mtimeMs }, dest)
+
+/** The moves as one packing unit, e.g. a keep-together folder */
+const inUnit = (unitId: string, ...moves: FileMove[]): FileMove[] => moves.map((move) => ({ ...move, unitId }))
+
+const validate = (
+  moves: FileMove[],
+  destFreeBytes: number,
+  diskStats: Record<string, DiskStat> = {},
+  resumable?: ReadonlySet<string>
+) =>
+  Effect.runPromise(
+    validatePlan(moves, diskStats, [{ path: dest, totalBytes: 1000 * MB, freeBytes: destFreeBytes }], resumable).pipe(
+      Effect.provide(BunContext.layer)
+    )
+  )
+
+describe("validatePlan", () => {
+  test("passes a plan the filesystem still matches", async () => {
+    await writeBytes(join(src, "Movies/a.mkv"), 1000)
+
+    const result = await validate([moveOf("Movies/a.mkv", 1000)], 500 * MB)
+
+    expect(result.stale.size).toBe(0)
+    expect(result.missingSources).toEqual([])
+    expect(result.conflicts).toEqual([])
+    expect(result.insufficientSpace).toEqual([])
+  })
+
+  test("flags sources that are gone or changed size", async () => {
+    await writeBytes(join(src, "Movies/changed.mkv"), 2000)
+
+    const result = await validate([moveOf("Movies/gone.mkv", 1000), moveOf("Movies/changed.mkv", 1000)], 500 * MB)
+
+    expect(result.missingSources).toHaveLength(2)
+    expect(result.stale.get(join(src, "Movies/gone.mkv"))).toBe("source file no longer exists")
+    expect(result.stale.get(join(src, "Movies/changed.mkv"))).toContain("changed size")
+  })
+
+  test("flags destinations that already exist", async () => {
+    await writeBytes(join(src, "Movies/a.mkv"), 1000)
+    await writeBytes(join(dest, "Movies/a.mkv"), 1000)
+
+    const result = await validate([moveOf("Movies/a.mkv", 1000)], 500 * MB)
+
+    expect(result.conflicts).toEqual([join(dest, "Movies/a.mkv")])
+    expect(result.stale.get(join(src, "Movies/a.mkv"))).toBe("destination already exists")
+  })
+
+  test("lets a failed or interrupted move overwrite its own copy at the destination", async () => {
+    await writeBytes(join(src, "Movies/a.mkv"), 1000)
+    await writeBytes(join(dest, "Movies/a.mkv"), 1000)
+
+    const retried = await validate([moveOf("Movies/a.mkv", 1000)], 500, {}, new Set([join(src, "Movies/a.mkv")]))
+
+    expect(retried.stale.size).toBe(0)
+    expect(retried.conflicts).toEqual([])
+    // The copy already takes its room on the target
+    expect(retried.insufficientSpace).toEqual([])
+
+    const fresh = await validate([moveOf("Movies/a.mkv", 1000)], 500 * MB)
+    expect(fresh.stale.get(join(src, "Movies/a.mkv"))).toBe("destination already exists")
+  })
+
+  test("drops the moves that no longer fit above the plan's reservation, in plan order", async () => {
+    await writeBytes(join(src, "a.bin"), 1000)
+    await writeBytes(join(src, "b.bin"), 1000)
+    await writeBytes(join(src, "c.bin"), 1000)
+    const diskStats = { [dest]: { totalBytes: 1000 * MB, freeBytes: 10_000, bytesToMove: 3000, reservedBytes: 500 } }
+
+    const result = await validate([moveOf("a.bin", 1000), moveOf("b.bin", 1000), moveOf("c.bin", 1000)], 2600, diskStats)
+
+    expect(result.insufficientSpace).toEqual([{ disk: dest, needed: 3000, available: 2100 }])
+    expect([...result.stale.keys()]).toEqual([join(src, "c.bin")])
+  })
+
+  test("drops whole units when space is short, never part of a folder", async () => {
+    await writeBytes(join(src, "a.bin"), 1000)
+    await writeBytes(join(src, "Film/film.mkv"), 1500)
+    await writeBytes(join(src, "Film/film.nfo"), 100)
+    await writeBytes(join(src, "c.bin"), 500)
+
+    const result = await validate(
+      [
+        moveOf("a.bin", 1000),
+        ...inUnit("film", moveOf("Film/film.mkv", 1500), moveOf("Film/film.nfo", 100)),
+        moveOf("c.bin", 500),
+      ],
+      2500
+    )
+
+    expect([...result.stale.keys()].sort()).toEqual([join(src, "Film/film.mkv"), join(src, "Film/film.nfo")])
+  })
+
+  test("holds back the rest of a unit when one of its files cannot move", async () => {
+    await writeBytes(join(src, "Film/film.mkv"), 2000)
+    await writeBytes(join(src, "Film/film.nfo"), 100)
+    await writeBytes(join(src, "Show/ep02.mkv"), 1000)
+
+    const result = await validate(
+      [
+        ...inUnit("film", moveOf("Film/film.mkv", 1000), moveOf("Film/film.nfo", 100)),
+        ...inUnit("show", moveOf("Show/ep01.mkv", 1000), moveOf("Show/ep02.mkv", 1000)),
+      ],
+      500 * MB
+    )
+
+    expect(result.stale.get(join(src, "Film/film.nfo"))).toBe(
+      `moves together with ${join(src, "Film/film.mkv")}: source file changed size since the plan was made`
+    )
+    // A deleted file leaves nothing behind to keep the rest with
+    expect(result.stale.has(join(src, "Show/ep02.mkv"))).toBe(false)
+  })
+
+  test("reports targets with less free space than the plan expects", async () => {
+    await writeBytes(join(src, "a.bin"), 1000)
+    const diskStats = { [dest]: { totalBytes: 1000 * MB, freeBytes: 500 * MB, bytesToMove: 1000 } }
+
+    const result = await validate([moveOf("a.bin", 1000)], 200 * MB, diskStats)
+
+    expect(result.diskStatsChanges).toEqual([{ disk: dest, before: 500 * MB, after: 200 * MB }])
+    expect(result.stale.size).toBe(0)
+  })
+
+  test("flags sources modified since planning when the plan recorded an mtime", async () => {
+    const path = join(src, "TV/ep01.mkv")
+    await writeBytes(path, 1000)
+    const plannedMtime = (await stat(path)).mtimeMs
+    await utimes(path, new Date(), new Date(plannedMtime + 60_000))
+
+    const result = await validate([moveOf("TV/ep01.mkv", 1000, plannedMtime)], 500 * MB)
+
+    expect(result.stale.get(path)).toBe("source file was modified since the plan was made")
+  })
+})
+
+describe("findChangedSources", () => {
+  test("returns a reason only for sources that no longer match", async () => {
+    const same = join(src, "same.bin")
+    await writeBytes(same, 1000)
+    const mtimeMs = Math.floor((await stat(same)).mtimeMs) // scans record whole ms
+
+    const changed = await Effect.runPromise(
+      findChangedSources([moveOf("same.bin", 1000, mtimeMs), moveOf("gone.bin", 1000)]).pipe(
+        Effect.provide(BunContext.layer)
+      )
+    )
+
+    expect([...changed]).toEqual([[join(src, "gone.bin"), "source file no longer exists"]])
+  })
+
+  test("skips the rest of a changed file's unit in the batch", async () => {
+    await writeBytes(join(src, "a.mkv"), 2000)
+    await writeBytes(join(src, "b.mkv"), 1000)
+    await writeBytes(join(src, "c.mkv"), 1000)
+
+    const changed = await Effect.runPromise(
+      findChangedSources([...inUnit("links", moveOf("a.mkv", 1000), moveOf("b.mkv", 1000)), moveOf("c.mkv", 1000)]).pipe(
+        Effect.provide(BunContext.layer)
+      )
+    )
+
+    expect([...changed.keys()].sort()).toEqual([join(src, "a.mkv"), join(src, "b.mkv")])
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * PlanValidator - check a saved plan against the live filesystem before apply
+ *
+ * A plan can sit for days before it is applied; files get deleted, replaced
+ * or written to the target in the meantime, and other writes eat the free
+ * space the plan counted on. Before any transfer every remaining move is
+ * checked:
+ *
+ * - the source still exists with the planned size and modification time
+ * - nothing exists at the destination path yet, unless the move failed or
+ *   was interrupted: then it is the move's own copy, which the retry
+ *   overwrites (and verifies again with --verify)
+ * - its target still has room for it above the plan's reservation
+ *
+ * A move failing any check is stale, and so is the rest of its packing unit:
+ * a folder or hardlink group moves whole or not at all. Whether stale moves
+ * stop the apply or are dropped from it is the caller's policy (--on-stale).
+ */
+
+import { Effect, Option, pipe } from "effect"
+import { FileSystem } from "@effect/platform"
+import type { Disk } from "../domain/Disk"
+import { uniqueBytes } from "../domain/FileEntry"
+import { computeSummary, movesByUnit, type FileMove } from "../domain/MovePlan"
+import type { DiskStat } from "../infra/PlanStorageService"
+import { formatSize } from "../lib/parseSize"
+import { DEFAULT_STAT_CONCURRENCY } from "./ScannerService"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SpaceShortfall {
+  readonly disk: string
+  readonly needed: number
+  readonly available: number
+}
+
+export interface DiskStatsChange {
+  readonly disk: string
+  /** Free space expected from the plan, less what has already moved in */
+  readonly before: number
+  readonly after: number
+}
+
+export interface PlanValidation {
+  /** Sources that are gone or no longer match the planned size or mtime */
+  readonly missingSources: ReadonlyArray<string>
+  /** Destination paths that already exist */
+  readonly conflicts: ReadonlyArray<string>
+  readonly insufficientSpace: ReadonlyArray<SpaceShortfall>
+  /** Targets with noticeably less free space than the plan expects */
+  readonly diskStatsChanges: ReadonlyArray<DiskStatsChange>
+  /** Why each stale move cannot run, by absolute source path */
+  readonly stale: ReadonlyMap<string, string>
+}
+
+/** Free space may drift by this share of a disk before it is reported */
+const DISK_STATS_TOLERANCE = 0.01
+
+const SOURCE_GONE = "source file no longer exists"
+
+// =============================================================================
+// Source checks
+// =============================================================================
+
+interface SourceChange {
+  /** Stored as the move's reason */
+  readonly reason: string
+  /** Shown to the user */
+  readonly detail: string
+}
+
+/**
+ * How a move's source differs from the file that was planned, if it does.
+ * Plans made before mtimes were recorded are only checked by size.
+ */
+const checkSource = (fs: FileSystem.FileSystem, move: FileMove): Effect.Effect<SourceChange | undefined> => {
+  const source = move.file.absolutePath
+  return pipe(
+    fs.stat(source),
+    Effect.map((info): SourceChange | undefined => {
+      const sizeBytes = Number(info.size)
+      if (sizeBytes !== move.file.sizeBytes) {
+        return {
+          reason: "source file changed size since the plan was made",
+          detail: `${source} (was ${formatSize(move.file.sizeBytes)}, now ${formatSize(sizeBytes)})`,
+        }
+      }
+      const mtimeMs = Option.getOrUndefined(Option.map(info.mtime, (d) => d.getTime()))
+      if (move.file.mtimeMs !== undefined && mtimeMs !== undefined && mtimeMs !== move.file.mtimeMs) {
+        return {
+          reason: "source file was modified since the plan was made",
+          detail: `${source} (modified ${new Date(mtimeMs).toISOString()})`,
+        }
+      }
+      return undefined
+    }),
+    Effect.orElseSucceed((): SourceChange => ({ reason: SOURCE_GONE, detail: source }))
+  )
+}
+
+// =============================================================================
+// Units
+// =============================================================================
+
+/**
+ * Hold back the rest of every unit with a move that cannot run, so its
+ * folder or hardlink group is not split. A source that no longer exists
+ * leaves nothing behind, so it holds nothing back.
+ */
+const holdBackUnits = (moves: ReadonlyArray<FileMove>, stale: Map<string, string>): void => {
+  for (const unit of movesByUnit(moves)) {
+    const blocker = unit.find((m) => {
+      const reason = stale.get(m.file.absolutePath)
+      return reason !== undefined && reason !== SOURCE_GONE
+    })
+    if (!blocker) continue
+    const reason = `moves together with ${blocker.file.absolutePath}: ${stale.get(blocker.file.absolutePath)}`
+    for (const move of unit) {
+      if (!stale.has(move.file.absolutePath)) stale.set(move.file.absolutePath, reason)
+    }
+  }
+}
+
+/**
+ * Re-stat the sources of a batch of moves, just before they transfer.
+ * Returns why each changed move, and the rest of its unit in the batch,
+ * must not run, by absolute source path.
+ */
+export const findChangedSources = (
+  moves: ReadonlyArray<FileMove>
+): Effect.Effect<ReadonlyMap<string, string>, never, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const changed = new Map<string, string>()
+    yield* Effect.forEach(
+      moves,
+      (move) =>
+        Effect.map(checkSource(fs, move), (change) => {
+          if (change) changed.set(move.file.absolutePath, change.reason)
+        }),
+      { concurrency: DEFAULT_STAT_CONCURRENCY, discard: true }
+    )
+    holdBackUnits(moves, changed)
+    return changed
+  })
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate the moves still to run. `currentDisks` are the live stats of the
+ * target disks; `diskStats` are the ones stored in the plan. `resumable` are
+ * the sources of moves that failed or were interrupted, whose destinations
+ * may hold their own copies.
+ */
+export const validatePlan = (
+  moves: ReadonlyArray<FileMove>,
+  diskStats: Readonly<Record<string, DiskStat>>,
+  currentDisks: ReadonlyArray<Disk>,
+  resumable: ReadonlySet<string> = new Set()
+): Effect.Effect<PlanValidation, never, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const stale = new Map<string, string>()
+    const missingSources: string[] = []
+    const conflicts: string[] = []
+    // Resumed moves whose copies already take up room on their targets
+    const copied = new Set<string>()
+
+    yield* Effect.forEach(
+      moves,
+      (move) =>
+        Effect.gen(function* () {
+          const source = move.file.absolutePath
+          const change = yield* checkSource(fs, move)
+          if (change) {
+            missingSources.push(change.detail)
+            stale.set(source, change.reason)
+            return
+          }
+          const destExists = yield* pipe(fs.exists(move.destinationPath), Effect.orElseSucceed(() => false))
+          if (destExists && resumable.has(source)) {
+            copied.add(source)
+          } else if (destExists) {
+            conflicts.push(move.destinationPath)
+            stale.set(source, "destination already exists")
+          }
+        }),
+      { concurrency: DEFAULT_STAT_CONCURRENCY, discard: true }
+    )
+    holdBackUnits(moves, stale)
+
+    // Room on each target for the moves that are still good, in plan order
+    const currentByPath = new Map(currentDisks.map((d) => [d.path, d]))
+    const remaining = moves.filter((m) => !stale.has(m.file.absolutePath))
+    const plannedIn = computeSummary(moves).bytesPerDisk
+    const bytesIn = computeSummary(remaining.filter((m) => !copied.has(m.file.absolutePath))).bytesPerDisk
+    const insufficientSpace: SpaceShortfall[] = []
+    const diskStatsChanges: DiskStatsChange[] = []
+
+    for (const [diskPath, stillToMove] of plannedIn) {
+      const current = currentByPath.get(diskPath)
+      if (!current) continue
+      const planned = diskStats[diskPath]
+      const needed = bytesIn.get(diskPath) ?? 0
+      const available = current.freeBytes - (planned?.reservedBytes ?? 0)
+
+      if (planned) {
+        // What should be free now, given what the plan has already moved in
+        const expected = planned.freeBytes - (planned.bytesToMove - stillToMove)
+        if (expected - current.freeBytes > current.totalBytes * DISK_STATS_TOLERANCE) {
+          diskStatsChanges.push({ disk: diskPath, before: expected, after: current.freeBytes })
+        }
+      }
+
+      if (needed <= available) continue
+      insufficientSpace.push({ disk: diskPath, needed, available: Math.max(0, available) })
+
+      // Keep the units that still fit whole, in plan order
+      let room = available
+      for (const unit of movesByUnit(remaining.filter((m) => m.targetDiskPath === diskPath))) {
+        const unitBytes = uniqueBytes(unit.filter((m) => !copied.has(m.file.absolutePath)).map((m) => m.file))
+        if (unitBytes <= room) {
+          room -= unitBytes
+        } else {
+          for (const move of unit) stale.set(move.file.absolutePath, `not enough free space left on ${diskPath}`)
+        }
+      }
+    }
+
+    return { missingSources, conflicts, insufficientSpace, diskStatsChanges, stale }
+  })
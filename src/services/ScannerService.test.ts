@@ -1,21 +1,38 @@
-import { describe, expect, test } from "bun:test"
-import { Effect, Layer, pipe } from "effect"
+import { describe, expect, test, beforeAll, afterAll } from "bun:test"
+import { Chunk, Effect, Layer, Stream, pipe } from "effect"
+import { Error as PlatformError, FileSystem } from "@effect/platform"
 import { BunContext } from "@effect/platform-bun"
-import { ScannerServiceTag, ScannerServiceLive } from "./ScannerService"
+import { link, mkdtemp, mkdir, rm, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { ScannerServiceTag, ScannerServiceLive, type ScanProgress } from "./ScannerService"
 import { GlobServiceTag, GlobServiceLive } from "../infra/GlobService"
 import { FileStatServiceTag, FileStatServiceLive } from "../infra/FileStatService"
+import { SqliteScanCacheService } from "../infra/SqliteScanCacheService"
+import type { FileEntry } from "../domain/FileEntry"
 
 // =============================================================================
 // Stubs for unit testing
 // =============================================================================
 
+const stubPaths = (cwd: string): string[] =>
+  cwd === "/mnt/disk1"
+    ? ["file1.txt", "dir/file2.txt"]
+    : cwd === "/mnt/disk3"
+      ? [
+          ".binpackignore",
+          "Movies/film.mkv",
+          "Movies/film.nfo",
+          "Movies/@eaDir/thumb.jpg",
+          "Movies/.DS_Store",
+          "Downloads/incomplete.part",
+          "Downloads/keep.part",
+        ]
+      : ["other.txt"]
+
 const StubGlobService = Layer.succeed(GlobServiceTag, {
-  scan: (_pattern, cwd) =>
-    Effect.succeed(
-      cwd === "/mnt/disk1"
-        ? ["file1.txt", "dir/file2.txt"]
-        : ["other.txt"]
-    ),
+  scan: (_pattern, cwd) => Effect.succeed(stubPaths(cwd)),
+  stream: (_pattern, cwd) => Stream.fromIterable(stubPaths(cwd)),
 })
 
 const StubFileStatService = Layer.succeed(FileStatServiceTag, {
@@ -25,10 +42,26 @@ const StubFileStatService = Layer.succeed(FileStatServiceTag, {
     }),
 })
 
+// Only disk3 has an ignore file; reads elsewhere fail like a missing file
+const StubFileSystem = FileSystem.layerNoop({
+  readFileString: (path) =>
+    path === "/mnt/disk3/.binpackignore"
+      ? Effect.succeed("# junk\n@eaDir/\n.DS_Store\n")
+      : Effect.fail(
+          new PlatformError.SystemError({
+            reason: "NotFound",
+            module: "FileSystem",
+            method: "readFileString",
+            pathOrDescriptor: path,
+          })
+        ),
+})
+
 const TestScannerService = pipe(
   ScannerServiceLive,
   Layer.provide(StubGlobService),
-  Layer.provide(StubFileStatService)
+  Layer.provide(StubFileStatService),
+  Layer.provide(StubFileSystem)
 )
 
 // =============================================================================
@@ -74,6 +107,65 @@ describe("ScannerService (unit tests with stubs)", () => {
     expect(disk1Files).toHaveLength(2)
     expect(disk2Files).toHaveLength(1)
   })
+
+  test("streamDisk emits files and reports progress when done", async () => {
+    const reports: ScanProgress[] = []
+    const result = await pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) =>
+        Stream.runCollect(
+          svc.streamDisk("/mnt/disk1", {
+            statConcurrency: 1,
+            onProgress: (progress) => Effect.sync(() => reports.push(progress)),
+          })
+        )
+      ),
+      Effect.map(Chunk.toArray),
+      Effect.provide(TestScannerService),
+      Effect.runPromise
+    )
+
+    expect(result.map((f) => f.relativePath)).toEqual(["file1.txt", "dir/file2.txt"])
+    expect(reports).toEqual([
+      { diskPath: "/mnt/disk1", filesScanned: 2, bytesScanned: 3000, filesExcluded: 0, done: true },
+    ])
+  })
+
+  test("--exclude patterns are globs, not substrings", async () => {
+    const result = await pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) => svc.scanDisk("/mnt/disk1", { excludePatterns: ["*.txt", "!file1.txt"] })),
+      Effect.provide(TestScannerService),
+      Effect.runPromise
+    )
+
+    // "file" as a substring would have matched both files; "*.txt" with a negation keeps file1
+    expect(result.map((f) => f.relativePath)).toEqual(["file1.txt"])
+  })
+
+  test("scanDiskWithSummary applies .binpackignore and counts drops per rule", async () => {
+    const { files, summary } = await pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) =>
+        svc.scanDiskWithSummary("/mnt/disk3", { excludePatterns: ["*.part", "!keep.part"] })
+      ),
+      Effect.provide(TestScannerService),
+      Effect.runPromise
+    )
+
+    expect(files.map((f) => f.relativePath).sort()).toEqual([
+      "Downloads/keep.part",
+      "Movies/film.mkv",
+      "Movies/film.nfo",
+    ])
+    expect(summary.filesFound).toBe(3)
+    expect(summary.filesExcluded).toBe(3)
+    expect(summary.excludedByRule).toEqual([
+      { pattern: "*.part", source: "--exclude", count: 1 },
+      { pattern: "@eaDir/", source: "/mnt/disk3/.binpackignore", count: 1 },
+      { pattern: ".DS_Store", source: "/mnt/disk3/.binpackignore", count: 1 },
+    ])
+  })
 })
 
 // =============================================================================
@@ -104,3 +196,162 @@ describe("ScannerService (integration tests)", () => {
     expect(diskTs?.sizeBytes).toBeGreaterThan(0)
   })
 })
+
+// =============================================================================
+// Integration tests (scan cache)
+// =============================================================================
+
+const CachedScannerService = pipe(
+  ScannerServiceLive,
+  Layer.provide(GlobServiceLive),
+  Layer.provide(FileStatServiceLive),
+  Layer.provide(SqliteScanCacheService),
+  Layer.provide(BunContext.layer)
+)
+
+describe("ScannerService (scan cache)", () => {
+  let diskPath: string
+  let cachePath: string
+
+  // Directory mtimes are pinned to the past so any later change is visible
+  const pinMtime = (relDir: string) => {
+    const past = new Date("2020-01-01T00:00:00Z")
+    return utimes(join(diskPath, relDir), past, past)
+  }
+
+  beforeAll(async () => {
+    const root = await mkdtemp(join(tmpdir(), "scanner-cache-test-"))
+    diskPath = join(root, "disk1")
+    cachePath = join(root, "config", "scan-cache.db")
+
+    await mkdir(join(diskPath, "Movies"), { recursive: true })
+    await mkdir(join(diskPath, "TV", "Show", "Season 1"), { recursive: true })
+    await writeFile(join(diskPath, "Movies", "film.mkv"), "x".repeat(100))
+    await writeFile(join(diskPath, "Movies", "film.tmp"), "x".repeat(5))
+    await writeFile(join(diskPath, "TV", "Show", "Season 1", "e1.mkv"), "x".repeat(200))
+    for (const dir of ["", "Movies", "TV", "TV/Show", "TV/Show/Season 1"]) {
+      await pinMtime(dir)
+    }
+  })
+
+  afterAll(async () => {
+    await rm(join(diskPath, ".."), { recursive: true, force: true })
+  })
+
+  const scan = (refresh = false) =>
+    pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) =>
+        svc.scanDiskWithSummary(diskPath, {
+          excludePatterns: ["*.tmp"],
+          cache: { path: cachePath, refresh },
+        })
+      ),
+      Effect.provide(CachedScannerService),
+      Effect.runPromise
+    )
+
+  test("first scan lists every directory and fills the cache", async () => {
+    const { files, summary } = await scan()
+
+    expect(files.map((f) => f.relativePath).sort()).toEqual([
+      "Movies/film.mkv",
+      "TV/Show/Season 1/e1.mkv",
+    ])
+    expect(files.find((f) => f.relativePath === "Movies/film.mkv")?.sizeBytes).toBe(100)
+    expect(files.find((f) => f.relativePath === "Movies/film.mkv")?.mtimeMs).toBeGreaterThan(0)
+    expect(summary.filesExcluded).toBe(1)
+    expect(summary.cache).toEqual({ directoriesReused: 0, directoriesRead: 5 })
+  })
+
+  test("unchanged directories are reused from the cache", async () => {
+    const { files, summary } = await scan()
+
+    expect(files.map((f) => f.relativePath).sort()).toEqual([
+      "Movies/film.mkv",
+      "TV/Show/Season 1/e1.mkv",
+    ])
+    expect(summary.filesExcluded).toBe(1)
+    expect(summary.cache).toEqual({ directoriesReused: 5, directoriesRead: 0 })
+  })
+
+  test("a change deep in the tree only re-reads that directory", async () => {
+    await writeFile(join(diskPath, "TV", "Show", "Season 1", "e2.mkv"), "x".repeat(300))
+
+    const { files, summary } = await scan()
+
+    expect(files.map((f) => f.relativePath).sort()).toEqual([
+      "Movies/film.mkv",
+      "TV/Show/Season 1/e1.mkv",
+      "TV/Show/Season 1/e2.mkv",
+    ])
+    expect(summary.cache).toEqual({ directoriesReused: 4, directoriesRead: 1 })
+  })
+
+  test("refresh (--rescan) lists every directory again", async () => {
+    const { files, summary } = await scan(true)
+
+    expect(files).toHaveLength(3)
+    expect(summary.cache).toEqual({ directoriesReused: 0, directoriesRead: 5 })
+  })
+})
+
+describe("ScannerService (hardlinks)", () => {
+  let root: string
+  let diskPath: string
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "scanner-hardlink-test-"))
+    diskPath = join(root, "disk1")
+    await mkdir(join(diskPath, "torrents"), { recursive: true })
+    await mkdir(join(diskPath, "Movies"))
+    await writeFile(join(diskPath, "torrents", "film.mkv"), "x".repeat(100))
+    await link(join(diskPath, "torrents", "film.mkv"), join(diskPath, "Movies", "film.mkv"))
+    await writeFile(join(diskPath, "Movies", "poster.jpg"), "x".repeat(5))
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  const expectLinked = (files: ReadonlyArray<FileEntry>) => {
+    const torrent = files.find((f) => f.relativePath === "torrents/film.mkv")
+    const movie = files.find((f) => f.relativePath === "Movies/film.mkv")
+    const poster = files.find((f) => f.relativePath === "Movies/poster.jpg")
+
+    expect(torrent?.linkCount).toBe(2)
+    expect(torrent?.inode).toBeDefined()
+    expect(movie?.inode).toBe(torrent?.inode)
+    expect(movie?.device).toBe(torrent?.device)
+    // Single-link files carry no link info
+    expect(poster?.inode).toBeUndefined()
+  }
+
+  test("scanDisk records inode and link count for hardlinked files", async () => {
+    const files = await pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) => svc.scanDisk(diskPath)),
+      Effect.provide(RealScannerService),
+      Effect.runPromise
+    )
+
+    expectLinked(files)
+  })
+
+  test("link info survives a scan served from the cache", async () => {
+    const cachePath = join(root, "scan-cache.db")
+    const scan = pipe(
+      ScannerServiceTag,
+      Effect.flatMap((svc) => svc.scanDiskWithSummary(diskPath, { cache: { path: cachePath } })),
+      Effect.provide(CachedScannerService)
+    )
+
+    const { summary } = await Effect.runPromise(scan)
+    const cached = await Effect.runPromise(scan)
+
+    expect(summary.cache?.directoriesRead).toBe(3)
+    expect(cached.summary.cache?.directoriesReused).toBe(3)
+    expectLinked(cached.files)
+  })
+})
+
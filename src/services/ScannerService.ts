@@ -1,18 +1,49 @@
 /**
- * ScannerService - scans disks for files in parallel.
+ * ScannerService - scans disks for files.
  *
- * Map-reduce style:
- * 1. MAP: Scan each disk in parallel
- * 2. Within each disk: stat all files in parallel
- * 3. REDUCE: Flatten results
+ * Each disk is scanned as a streaming pipeline:
+ * 1. Walk the directory tree lazily (GlobService.stream)
+ * 2. Drop excluded paths as they are discovered
+ * 3. Stat the remaining files with bounded concurrency (backpressure on the walk)
+ *
+ * Paths are never collected into an intermediate array, so memory is bounded
+ * by the FileEntry results plus the stat window. The directory walk does not
+ * expose sizes, so every kept file costs one stat call.
+ *
+ * When a scan cache is available (see infra/ScanCacheService.ts), the disk is
+ * walked directory by directory instead: directories whose mtime matches the
+ * cache reuse their cached files and subdirectories, so only changed folders
+ * are listed and stat'ed. Subdirectories are still visited, since a change
+ * deep in the tree does not touch its ancestors' mtimes.
+ *
+ * Exclusions use .gitignore semantics (see lib/ignoreRules.ts). Rules come from
+ * the --exclude patterns plus an optional `.binpackignore` file at each disk root.
  *
  * Transforms infra errors (GlobError, FileStatError) into service-level ScannerError.
  */
 
-import { Context, Data, Effect, Layer, Match, pipe } from "effect"
+import { Context, Data, Effect, Layer, Match, Option, Stream, pipe } from "effect"
+import { FileSystem, type Error as PlatformError } from "@effect/platform"
 import { GlobServiceTag, type GlobError } from "../infra/GlobService"
 import { FileStatServiceTag, type FileStatError } from "../infra/FileStatService"
+import {
+  ScanCacheServiceTag,
+  type CachedDirectory,
+  type CachedFile,
+  type DiskIndex,
+  type ScanCacheService,
+} from "../infra/ScanCacheService"
 import type { FileEntry } from "../domain/FileEntry"
+import { createIgnoreMatcher, parseIgnoreFile, parseIgnoreRules, type IgnoreRule } from "../lib/ignoreRules"
+
+/** Per-disk ignore file, honored like .gitignore */
+export const IGNORE_FILE_NAME = ".binpackignore"
+
+/** Max concurrent stat calls per disk */
+export const DEFAULT_STAT_CONCURRENCY = 64
+
+/** Files between onProgress reports */
+export const PROGRESS_INTERVAL = 10_000
 
 // =============================================================================
 // Service errors - all possible failure modes
@@ -55,17 +86,108 @@ const fromFileStatError = (path: string) =>
     FileStatUnknownError: (e) => new FileStatFailed({ path, reason: e.cause }),
   })
 
+const fromPlatformError = (path: string) => (error: PlatformError.PlatformError): ScannerError =>
+  error._tag === "SystemError" && error.reason === "NotFound"
+    ? new ScanPathNotFound({ path })
+    : error._tag === "SystemError" && error.reason === "PermissionDenied"
+      ? new ScanPermissionDenied({ path })
+      : new ScanFailed({ path, reason: error.message })
+
+/**
+ * Link info is only kept for files with more than one link. That is all the
+ * planner needs to keep hardlinks together, and it keeps the millions of
+ * plain FileEntry objects small.
+ */
+const hardlinkInfo = (
+  device: number | undefined,
+  inode: number | undefined,
+  linkCount: number | undefined
+): Pick<FileEntry, "device" | "inode" | "linkCount"> =>
+  inode !== undefined && linkCount !== undefined && linkCount > 1
+    ? { device, inode, linkCount }
+    : {}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExcludeRuleCount {
+  /** The rule as written (e.g. "*.tmp", "@eaDir/") */
+  readonly pattern: string
+  /** Where the rule came from ("--exclude" or the ignore file path) */
+  readonly source: string
+  /** Number of files dropped by this rule */
+  readonly count: number
+}
+
+export interface DiskScanSummary {
+  readonly diskPath: string
+  /** Files kept after exclusions */
+  readonly filesFound: number
+  /** Files dropped by exclude rules */
+  readonly filesExcluded: number
+  /** Breakdown of dropped files per rule (only rules that matched something) */
+  readonly excludedByRule: ReadonlyArray<ExcludeRuleCount>
+  /** Directory reuse when the scan cache was used */
+  readonly cache?: {
+    readonly directoriesReused: number
+    readonly directoriesRead: number
+  }
+}
+
+export interface DiskScanResult {
+  readonly files: FileEntry[]
+  readonly summary: DiskScanSummary
+}
+
+export interface ScanProgress {
+  readonly diskPath: string
+  /** Files stat'ed so far */
+  readonly filesScanned: number
+  /** Total size of files stat'ed so far */
+  readonly bytesScanned: number
+  /** Files dropped by exclude rules so far */
+  readonly filesExcluded: number
+  /** True for the final report once the disk is done */
+  readonly done: boolean
+}
+
+export interface ScanOptions {
+  readonly excludePatterns?: string[]
+  /** Max concurrent stat calls (default: DEFAULT_STAT_CONCURRENCY) */
+  readonly statConcurrency?: number
+  /** Called every PROGRESS_INTERVAL files and once when the disk is done */
+  readonly onProgress?: (progress: ScanProgress) => Effect.Effect<void>
+  /**
+   * Walk through the scan cache at this path. With `refresh`, every directory
+   * is listed again and the cache is rebuilt (--rescan).
+   */
+  readonly cache?: { readonly path: string; readonly refresh?: boolean }
+}
+
 // =============================================================================
 // Service interface
 // =============================================================================
 
 export interface ScannerService {
+  /** Stream the files of a single disk as they are discovered */
+  readonly streamDisk: (
+    diskPath: string,
+    options?: ScanOptions
+  ) => Stream.Stream<FileEntry, ScannerError>
+
   /** Scan a single disk for all files */
   readonly scanDisk: (
     diskPath: string,
-    options?: { excludePatterns?: string[] }
+    options?: ScanOptions
   ) => Effect.Effect<FileEntry[], ScannerError>
 
+  /** Scan a single disk and report how many files each exclude rule dropped */
+  readonly scanDiskWithSummary: (
+    diskPath: string,
+    options?: ScanOptions
+  ) => Effect.Effect<DiskScanResult, ScannerError>
+
   /** Scan multiple disks in parallel, return flattened results */
   readonly scanAllDisks: (
     diskPaths: readonly string[],
@@ -87,6 +209,29 @@ export const ScannerServiceLive = Layer.effect(
   Effect.gen(function* () {
     const glob = yield* GlobServiceTag
     const fileStat = yield* FileStatServiceTag
+    const fs = yield* FileSystem.FileSystem
+    const scanCache = yield* Effect.serviceOption(ScanCacheServiceTag)
+
+    /**
+     * Load exclude rules for a disk: --exclude patterns first, then the
+     * disk's ignore file (so the file can override the command line).
+     * A missing or unreadable ignore file simply contributes no rules.
+     */
+    const loadRules = (
+      diskPath: string,
+      excludePatterns: readonly string[]
+    ): Effect.Effect<IgnoreRule[]> => {
+      const ignoreFilePath = `${diskPath}/${IGNORE_FILE_NAME}`
+      return pipe(
+        fs.readFileString(ignoreFilePath),
+        Effect.map((content) => parseIgnoreFile(content, ignoreFilePath)),
+        Effect.catchAll(() => Effect.succeed([] as IgnoreRule[])),
+        Effect.map((fileRules) => [
+          ...parseIgnoreRules(excludePatterns, "--exclude"),
+          ...fileRules,
+        ])
+      )
+    }
 
     const statFile = (
       diskPath: string,
@@ -100,30 +245,228 @@ export const ScannerServiceLive = Layer.effect(
           relativePath,
           sizeBytes: stat.size,
           diskPath,
+          mtimeMs: stat.mtimeMs,
+          ...hardlinkInfo(stat.device, stat.inode, stat.linkCount),
         })),
         Effect.mapError(fromFileStatError(absolutePath))
       )
     }
 
-    const scanDisk: ScannerService["scanDisk"] = (diskPath, options = {}) =>
-      pipe(
-        // Get all file paths via glob
-        glob.scan("**/*", diskPath, { onlyFiles: true }),
-        Effect.mapError(fromGlobError),
-        // Filter out excluded patterns
-        Effect.map((paths) => {
-          const excludePatterns = options.excludePatterns
-          if (!excludePatterns?.length) return paths
-          return paths.filter((p) =>
-            !excludePatterns.some((pattern) => p.includes(pattern))
-          )
-        }),
-        // MAP: stat each file in parallel
-        Effect.flatMap((relativePaths) =>
-          Effect.forEach(relativePaths, (relPath) => statFile(diskPath, relPath), {
-            concurrency: "unbounded",
+    /**
+     * Walk a disk directory by directory through the scan cache. Unchanged
+     * directories (same mtime) reuse their cached listing; changed ones are
+     * listed and their files stat'ed. The cache is updated once the walk
+     * completes. Cache read/write failures only cost the speed-up.
+     */
+    const openCachedWalk = (
+      cacheService: ScanCacheService,
+      diskPath: string,
+      cache: NonNullable<ScanOptions["cache"]>,
+      statConcurrency: number
+    ) =>
+      Effect.gen(function* () {
+        // Loaded even on refresh, so directories that disappeared get pruned
+        const index: DiskIndex = yield* pipe(
+          cacheService.loadDisk(cache.path, diskPath),
+          Effect.tapError((e) => Effect.logWarning(`Scan cache unavailable: ${e.reason}`)),
+          Effect.orElseSucceed(() => new Map())
+        )
+
+        const changed = new Map<string, CachedDirectory>()
+        const visited = new Set<string>()
+        const seenInodes = new Set<string>()
+        let directoriesReused = 0
+
+        const listDirectory = (relDir: string): Effect.Effect<CachedDirectory | undefined, ScannerError> =>
+          Effect.gen(function* () {
+            const absDir = relDir === "" ? diskPath : `${diskPath}/${relDir}`
+            const info = yield* Effect.mapError(fs.stat(absDir), fromPlatformError(absDir))
+
+            // Guard against symlink loops
+            const inode = `${info.dev}:${Option.getOrElse(info.ino, () => 0)}`
+            if (Option.isSome(info.ino) && seenInodes.has(inode)) return undefined
+            seenInodes.add(inode)
+            visited.add(relDir)
+
+            const mtimeMs = Option.match(info.mtime, { onNone: () => 0, onSome: (d) => d.getTime() })
+            const cached = cache.refresh ? undefined : index.get(relDir)
+            if (cached?.mtimeMs === mtimeMs) {
+              directoriesReused++
+              return cached
+            }
+
+            const names = yield* Effect.mapError(fs.readDirectory(absDir), fromPlatformError(absDir))
+            const entries = yield* Effect.forEach(
+              names,
+              (name) =>
+                pipe(
+                  fs.stat(`${absDir}/${name}`),
+                  Effect.mapError(fromPlatformError(`${absDir}/${name}`)),
+                  Effect.map((entry) => ({ name, entry }))
+                ),
+              { concurrency: statConcurrency }
+            )
+
+            const listing: CachedDirectory = {
+              mtimeMs,
+              files: entries
+                .filter(({ entry }) => entry.type === "File")
+                .map(({ name, entry }) => ({
+                  name,
+                  sizeBytes: Number(entry.size),
+                  mtimeMs: Option.getOrUndefined(Option.map(entry.mtime, (d) => d.getTime())),
+                  ...hardlinkInfo(entry.dev, Option.getOrUndefined(entry.ino), Option.getOrUndefined(entry.nlink)),
+                })),
+              subdirs: entries.filter(({ entry }) => entry.type === "Directory").map(({ name }) => name),
+            }
+            changed.set(relDir, listing)
+            return listing
           })
+
+        const walk = (relDir: string): Stream.Stream<CachedFile & { relativePath: string }, ScannerError> =>
+          Stream.unwrap(
+            Effect.map(listDirectory(relDir), (listing) => {
+              if (!listing) return Stream.empty
+              const prefix = relDir === "" ? "" : `${relDir}/`
+              return Stream.concat(
+                Stream.fromIterable(listing.files).pipe(
+                  Stream.map((file) => ({ ...file, relativePath: prefix + file.name }))
+                ),
+                Stream.flatMap(Stream.fromIterable(listing.subdirs), (name) => walk(prefix + name))
+              )
+            })
+          )
+
+        const save = Effect.suspend(() =>
+          pipe(
+            cacheService.saveDisk(cache.path, diskPath, {
+              changed,
+              removed: [...index.keys()].filter((relDir) => !visited.has(relDir)),
+            }),
+            Effect.catchAll((e) => Effect.logWarning(`Could not update scan cache: ${e.reason}`))
+          )
+        )
+
+        return {
+          stream: Stream.onEnd(walk(""), save),
+          stats: () => ({ directoriesReused, directoriesRead: changed.size }),
+        }
+      })
+
+    /**
+     * Open a streaming scan of one disk. The returned summary reads the
+     * counters accumulated so far, so call it after the stream completes.
+     */
+    const openDiskScan = (diskPath: string, options: ScanOptions) =>
+      Effect.gen(function* () {
+        const rules = yield* loadRules(diskPath, options.excludePatterns ?? [])
+        const isExcluded = createIgnoreMatcher(rules)
+        const onProgress = options.onProgress
+
+        const counts = new Map<IgnoreRule, number>()
+        let filesScanned = 0
+        let bytesScanned = 0
+        let filesExcluded = 0
+
+        const progress = (done: boolean): ScanProgress => ({
+          diskPath,
+          filesScanned,
+          bytesScanned,
+          filesExcluded,
+          done,
+        })
+
+        // Filter out excluded paths, counting drops per rule
+        const keep = (relPath: string): boolean => {
+          if (relPath === IGNORE_FILE_NAME) return false
+          const rule = isExcluded(relPath)
+          if (!rule) return true
+          counts.set(rule, (counts.get(rule) ?? 0) + 1)
+          filesExcluded++
+          return false
+        }
+
+        const statConcurrency = options.statConcurrency ?? DEFAULT_STAT_CONCURRENCY
+        const cachedWalk =
+          options.cache && Option.isSome(scanCache)
+            ? yield* openCachedWalk(scanCache.value, diskPath, options.cache, statConcurrency)
+            : undefined
+
+        const files: Stream.Stream<FileEntry, ScannerError> = cachedWalk
+          ? pipe(
+              cachedWalk.stream,
+              Stream.filter((file) => keep(file.relativePath)),
+              Stream.map((file) => ({
+                absolutePath: `${diskPath}/${file.relativePath}`,
+                relativePath: file.relativePath,
+                sizeBytes: file.sizeBytes,
+                diskPath,
+                mtimeMs: file.mtimeMs,
+                ...hardlinkInfo(file.device, file.inode, file.linkCount),
+              }))
+            )
+          : pipe(
+              glob.stream("**/*", diskPath, { onlyFiles: true }),
+              Stream.mapError(fromGlobError),
+              Stream.filter(keep),
+              // MAP: stat files with bounded concurrency
+              Stream.mapEffect((relPath) => statFile(diskPath, relPath), {
+                concurrency: statConcurrency,
+              })
+            )
+
+        const stream = pipe(
+          files,
+          Stream.tap((file) => {
+            filesScanned++
+            bytesScanned += file.sizeBytes
+            return onProgress && filesScanned % PROGRESS_INTERVAL === 0
+              ? onProgress(progress(false))
+              : Effect.void
+          }),
+          Stream.onEnd(onProgress ? Effect.suspend(() => onProgress(progress(true))) : Effect.void)
         )
+
+        const summary = (): DiskScanSummary => {
+          const excludedByRule = rules
+            .filter((rule) => counts.has(rule))
+            .map((rule) => ({
+              pattern: rule.pattern,
+              source: rule.source,
+              count: counts.get(rule) ?? 0,
+            }))
+          return {
+            diskPath,
+            filesFound: filesScanned,
+            filesExcluded,
+            excludedByRule,
+            ...(cachedWalk ? { cache: cachedWalk.stats() } : {}),
+          }
+        }
+
+        return { stream, summary }
+      })
+
+    const streamDisk: ScannerService["streamDisk"] = (diskPath, options = {}) =>
+      Stream.unwrap(
+        Effect.map(openDiskScan(diskPath, options), (scan) => scan.stream)
+      )
+
+    const scanDiskWithSummary: ScannerService["scanDiskWithSummary"] = (diskPath, options = {}) =>
+      Effect.gen(function* () {
+        const scan = yield* openDiskScan(diskPath, options)
+
+        // REDUCE: append straight into the result array
+        const files: FileEntry[] = []
+        yield* Stream.runForEach(scan.stream, (file) => Effect.sync(() => files.push(file)))
+
+        return { files, summary: scan.summary() }
+      })
+
+    const scanDisk: ScannerService["scanDisk"] = (diskPath, options = {}) =>
+      pipe(
+        scanDiskWithSummary(diskPath, options),
+        Effect.map((result) => result.files)
       )
 
     const scanAllDisks: ScannerService["scanAllDisks"] = (
@@ -141,6 +484,6 @@ export const ScannerServiceLive = Layer.effect(
         Effect.map((nested) => nested.flat())
       )
 
-    return { scanDisk, scanAllDisks }
+    return { streamDisk, scanDisk, scanDiskWithSummary, scanAllDisks }
   })
 )
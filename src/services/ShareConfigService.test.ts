@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test"
+import { Effect, Either, pipe } from "effect"
+import { BunContext } from "@effect/platform-bun"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { ShareConfigServiceTag, ShareConfigServiceLive } from "./ShareConfigService"
+import { parseShareConfig, shareAllowsDisk } from "../domain/ShareConfig"
+
+const FIXTURES = join(import.meta.dir, "../test/shares")
+
+const load = (sharesDir: string) =>
+  pipe(
+    ShareConfigServiceTag,
+    Effect.flatMap((svc) => svc.load(sharesDir)),
+    Effect.either,
+    Effect.provide(ShareConfigServiceLive),
+    Effect.provide(BunContext.layer),
+    Effect.runPromise
+  )
+
+describe("parseShareConfig", () => {
+  test("reads disks, split level and floor", () => {
+    const share = parseShareConfig(
+      "TV",
+      'shareInclude="disk1, disk2"\nshareExclude="disk3"\nshareSplitLevel="2"\nshareFloor="100GB"\n'
+    )
+
+    expect(share).toEqual({
+      name: "TV",
+      includeDisks: ["/mnt/disk1", "/mnt/disk2"],
+      excludeDisks: ["/mnt/disk3"],
+      splitLevel: 2,
+      floorBytes: 100 * 1024 ** 3,
+    })
+  })
+
+  test("treats a bare floor as KB and an empty split level as split anywhere", () => {
+    const share = parseShareConfig("backups", 'shareSplitLevel=""\nshareFloor="1024"\n')
+
+    expect(share.splitLevel).toBeUndefined()
+    expect(share.floorBytes).toBe(1024 * 1024)
+  })
+
+  test("throws on an unreadable split level or floor", () => {
+    expect(() => parseShareConfig("TV", 'shareSplitLevel="deep"')).toThrow()
+    expect(() => parseShareConfig("TV", 'shareFloor="lots"')).toThrow()
+  })
+})
+
+describe("shareAllowsDisk", () => {
+  test("applies the include list, then the exclude list", () => {
+    const share = parseShareConfig("TV", 'shareInclude="disk1,disk2"\nshareExclude="disk2"')
+
+    expect(shareAllowsDisk(share, "/mnt/disk1")).toBe(true)
+    expect(shareAllowsDisk(share, "/mnt/disk2")).toBe(false)
+    expect(shareAllowsDisk(share, "/mnt/disk3")).toBe(false)
+  })
+})
+
+describe("ShareConfigService (fixture .cfg files)", () => {
+  test("loads every share in the directory", async () => {
+    const result = await load(FIXTURES)
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      const shares = result.right
+      expect([...shares.keys()].sort()).toEqual(["Movies", "TV", "backups"])
+      expect(shares.get("Movies")?.includeDisks).toEqual(["/mnt/disk1", "/mnt/disk2"])
+      expect(shares.get("Movies")?.splitLevel).toBe(1)
+      expect(shares.get("TV")?.excludeDisks).toEqual(["/mnt/disk3"])
+      expect(shares.get("backups")?.floorBytes).toBe(50 * 1024 ** 3)
+    }
+  })
+
+  test("returns no shares when the directory does not exist", async () => {
+    const result = await load("/nonexistent/shares")
+
+    expect(Either.isRight(result) && result.right.size).toBe(0)
+  })
+
+  test("fails with ShareConfigInvalid naming the bad file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "shares-test-"))
+    try {
+      await writeFile(join(dir, "Broken.cfg"), 'shareSplitLevel="deep"\n')
+
+      const result = await load(dir)
+
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("ShareConfigInvalid")
+        expect(result.left.path).toBe(join(dir, "Broken.cfg"))
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
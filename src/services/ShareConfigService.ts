@@ -0,0 +1,84 @@
+/**
+ * ShareConfigService - reads Unraid share settings.
+ *
+ * Every <share>.cfg in the shares directory (/boot/config/shares on Unraid)
+ * is parsed into a ShareConfig keyed by share name. A missing directory is
+ * not an error: off Unraid there are simply no share constraints.
+ */
+
+import { Context, Data, Effect, Layer, pipe } from "effect"
+import { FileSystem } from "@effect/platform"
+import { parseShareConfig, type ShareConfig } from "../domain/ShareConfig"
+
+export const DEFAULT_SHARES_DIR = "/boot/config/shares"
+
+// =============================================================================
+// Service errors
+// =============================================================================
+
+export class ShareConfigReadFailed extends Data.TaggedError("ShareConfigReadFailed")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+export class ShareConfigInvalid extends Data.TaggedError("ShareConfigInvalid")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+export type ShareConfigError = ShareConfigReadFailed | ShareConfigInvalid
+
+// =============================================================================
+// Service interface
+// =============================================================================
+
+export interface ShareConfigService {
+  readonly load: (sharesDir: string) => Effect.Effect<ReadonlyMap<string, ShareConfig>, ShareConfigError>
+}
+
+export class ShareConfigServiceTag extends Context.Tag("ShareConfigService")<
+  ShareConfigServiceTag,
+  ShareConfigService
+>() {}
+
+// =============================================================================
+// Live implementation
+// =============================================================================
+
+export const ShareConfigServiceLive = Layer.effect(
+  ShareConfigServiceTag,
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+
+    const readFailed = (path: string) => (e: unknown) =>
+      new ShareConfigReadFailed({ path, reason: e instanceof Error ? e.message : String(e) })
+
+    return {
+      load: (sharesDir: string) =>
+        Effect.gen(function* () {
+          const exists = yield* pipe(fs.exists(sharesDir), Effect.mapError(readFailed(sharesDir)))
+          if (!exists) {
+            yield* Effect.logDebug(`No share settings at ${sharesDir}`)
+            return new Map<string, ShareConfig>()
+          }
+
+          const entries = yield* pipe(fs.readDirectory(sharesDir), Effect.mapError(readFailed(sharesDir)))
+          const shares = new Map<string, ShareConfig>()
+
+          for (const entry of entries.filter((e) => e.endsWith(".cfg")).sort()) {
+            const path = `${sharesDir}/${entry}`
+            const name = entry.slice(0, -".cfg".length)
+            const content = yield* pipe(fs.readFileString(path), Effect.mapError(readFailed(path)))
+            const share = yield* Effect.try({
+              try: () => parseShareConfig(name, content),
+              catch: (e) => new ShareConfigInvalid({ path, reason: e instanceof Error ? e.message : String(e) }),
+            })
+            shares.set(name, share)
+          }
+
+          yield* Effect.logDebug(`Loaded settings for ${shares.size} share(s) from ${sharesDir}`)
+          return shares
+        }),
+    }
+  })
+)
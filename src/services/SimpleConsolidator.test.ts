@@ -9,20 +9,8 @@ import { describe, test, expect } from "bun:test"
 import { Effect } from "effect"
 import { consolidateSimple } from "./SimpleConsolidator"
 import type { WorldView } from "../domain/WorldView"
-import type { FileEntry } from "../domain/FileEntry"
-
-const MB = 1024 * 1024
-
-const createFile = (
-  diskPath: string,
-  relativePath: string,
-  sizeMB: number
-): FileEntry => ({
-  diskPath,
-  relativePath,
-  absolutePath: `${diskPath}/${relativePath}`,
-  sizeBytes: sizeMB * MB,
-})
+import { parseShareConfig } from "../domain/ShareConfig"
+import { MB, createFile, createLinkedFile } from "../test/fixtures"
 
 describe("SimpleConsolidator", () => {
   test("should prefer combination that fills space better", async () => {
@@ -174,4 +162,428 @@ describe("SimpleConsolidator", () => {
     // Should move all 3 files (3 * 100MB = 300MB fits perfectly)
     expect(result.moves.length).toBe(3)
   })
+
+  describe("exact solver", () => {
+    test("should fill a destination exactly with files a size sample would miss", async () => {
+      // All files are in the 100MB+ bucket; sampling only tries 101, 310 and 500
+      // (911MB), while 500 + 270 + 230 fills the destination exactly
+      const sizes = [101, 150, 190, 230, 270, 310, 350, 390, 450, 500]
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 1000 * MB }, // destination
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 1000 * MB }, // source
+        ],
+        files: sizes.map((size) => createFile("/mnt/disk2", `file${size}.mkv`, size)),
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0 })
+      )
+
+      expect(result.bytesConsolidated).toBe(1000 * MB)
+      expect(result.solverTimeouts).toBe(0)
+    })
+
+    test("should report how much of each destination was filled", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 500 * MB }, // destination
+          { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+        ],
+        files: [
+          createFile("/mnt/disk2", "a.mkv", 200),
+          createFile("/mnt/disk2", "b.mkv", 200),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 100 * MB })
+      )
+
+      expect(result.destinations).toEqual([
+        { diskPath: "/mnt/disk1", availableBytes: 400 * MB, placedBytes: 400 * MB },
+      ])
+    })
+  })
+
+  describe("folder grouping", () => {
+    test("should keep movie folders together on one disk", async () => {
+      // Movie folder: 900MB mkv + small subs/nfo (dominant file → keepTogether)
+      // disk1 can fit the whole folder, disk3 only has room for the mkv
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 2000 * MB, freeBytes: 1000 * MB }, // dest (fits whole folder)
+          { path: "/mnt/disk2", totalBytes: 2000 * MB, freeBytes: 1500 * MB }, // source (least full)
+          { path: "/mnt/disk3", totalBytes: 2000 * MB, freeBytes: 901 * MB },  // dest (fits only the mkv)
+        ],
+        files: [
+          createFile("/mnt/disk2", "Movies/Film (2020)/film.mkv", 900),
+          createFile("/mnt/disk2", "Movies/Film (2020)/film.srt", 1),
+          createFile("/mnt/disk2", "Movies/Film (2020)/film.nfo", 1),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, minFileSizeBytes: 1 * MB })
+      )
+
+      const fromDisk2 = result.moves.filter((m) => m.file.diskPath === "/mnt/disk2")
+      expect(fromDisk2).toHaveLength(3)
+      expect(new Set(fromDisk2.map((m) => m.targetDiskPath)).size).toBe(1)
+      expect(result.foldersPlaced).toBeGreaterThanOrEqual(1)
+    })
+
+    test("should move small companion files with their folder even below min file size", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 2000 * MB, freeBytes: 1000 * MB },
+          { path: "/mnt/disk2", totalBytes: 2000 * MB, freeBytes: 1500 * MB },
+        ],
+        files: [
+          createFile("/mnt/disk2", "Movies/Film/film.mkv", 500),
+          createFile("/mnt/disk2", "Movies/Film/film.srt", 0.1),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, minFileSizeBytes: 1 * MB })
+      )
+
+      expect(result.moves).toHaveLength(2)
+      expect(result.moves.some((m) => m.file.relativePath === "Movies/Film/film.srt")).toBe(true)
+    })
+
+    test("should not move a keep-together folder that only fits partially", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 2000 * MB, freeBytes: 500 * MB }, // too small for folder
+          { path: "/mnt/disk2", totalBytes: 2000 * MB, freeBytes: 1500 * MB }, // source
+        ],
+        files: [
+          createFile("/mnt/disk2", "Movies/Film/film.mkv", 450),
+          createFile("/mnt/disk2", "Movies/Film/extras.mkv", 100),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0 })
+      )
+
+      // 550MB folder < 1GB min split size → atomic, doesn't fit in 500MB
+      expect(result.moves).toHaveLength(0)
+      expect(result.foldersPlaced).toBe(0)
+    })
+
+    test("should explode split-able folders and report them", async () => {
+      // TV season: 4 x 400MB episodes = 1600MB > 1GB, no dominant file → split-able
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 800 * MB },
+          { path: "/mnt/disk3", totalBytes: 4000 * MB, freeBytes: 800 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 2400 * MB }, // source
+        ],
+        files: [
+          createFile("/mnt/disk2", "TV/Show/Season 1/e01.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/e02.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/e03.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/e04.mkv", 400),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, srcDiskPaths: ["/mnt/disk2"] })
+      )
+
+      expect(result.moves).toHaveLength(4)
+      expect(new Set(result.moves.map((m) => m.targetDiskPath)).size).toBe(2)
+      expect(result.foldersExploded).toBe(1)
+      expect(result.foldersPlaced).toBe(0)
+    })
+  })
+
+  describe("include patterns", () => {
+    test("should only consider folders containing a matching file", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3500 * MB }, // source
+        ],
+        files: [
+          createFile("/mnt/disk2", "Movies/Film/film.mkv", 300),
+          createFile("/mnt/disk2", "Movies/Film/poster.jpg", 2),
+          createFile("/mnt/disk2", "Photos/2020/img001.jpg", 5),
+          createFile("/mnt/disk2", "Photos/2020/img002.jpg", 5),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, includePatterns: ["*.mkv", "*.mp4"] })
+      )
+
+      const moved = result.moves.map((m) => m.file.relativePath).sort()
+      // Whole movie folder moves (including the non-matching poster), photos stay
+      expect(moved).toEqual(["Movies/Film/film.mkv", "Movies/Film/poster.jpg"])
+    })
+
+    test("should move a matching folder whole even when it could be split", async () => {
+      // 1.6GB of episodes would normally split across disk1 and disk3
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 1000 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3500 * MB }, // source
+          { path: "/mnt/disk3", totalBytes: 4000 * MB, freeBytes: 1700 * MB },
+        ],
+        files: [
+          createFile("/mnt/disk2", "TV/Show/Season 1/ep01.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/ep02.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/ep03.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/ep04.mkv", 400),
+          createFile("/mnt/disk2", "TV/Show/Season 1/tvshow.nfo", 0.01),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, {
+          minSpaceBytes: 0,
+          includePatterns: ["*.mkv"],
+          minFileSizeBytes: MB,
+          srcDiskPaths: ["/mnt/disk2"],
+        })
+      )
+
+      expect(result.moves.map((m) => [m.file.relativePath, m.targetDiskPath]).sort()).toEqual([
+        ["TV/Show/Season 1/ep01.mkv", "/mnt/disk3"],
+        ["TV/Show/Season 1/ep02.mkv", "/mnt/disk3"],
+        ["TV/Show/Season 1/ep03.mkv", "/mnt/disk3"],
+        ["TV/Show/Season 1/ep04.mkv", "/mnt/disk3"],
+        ["TV/Show/Season 1/tvshow.nfo", "/mnt/disk3"],
+      ])
+      expect(result.foldersPlaced).toBe(1)
+    })
+
+    test("should move nothing when no folder matches", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3500 * MB },
+        ],
+        files: [createFile("/mnt/disk2", "Music/Album/track.flac", 30)],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, includePatterns: ["*.mkv"] })
+      )
+
+      expect(result.moves).toHaveLength(0)
+    })
+  })
+
+  describe("hardlinks", () => {
+    test("should move hardlinked paths together and count their data once", async () => {
+      // 600MB of data linked from two folders - only fits on disk1 if counted once
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 700 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3000 * MB }, // source
+        ],
+        files: [
+          createLinkedFile("/mnt/disk2", "torrents/film.mkv", 600, 42, 2),
+          createLinkedFile("/mnt/disk2", "Movies/Film/film.mkv", 600, 42, 2),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, srcDiskPaths: ["/mnt/disk2"] })
+      )
+
+      expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual([
+        "Movies/Film/film.mkv",
+        "torrents/film.mkv",
+      ])
+      expect(new Set(result.moves.map((m) => m.targetDiskPath))).toEqual(new Set(["/mnt/disk1"]))
+      expect(result.bytesConsolidated).toBe(600 * MB)
+    })
+
+    test("should pull in linked paths excluded by the path filter", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+        ],
+        files: [
+          createLinkedFile("/mnt/disk2", "data/torrents/film.mkv", 600, 42, 2),
+          createLinkedFile("/mnt/disk2", "data/media/Film/film.mkv", 600, 42, 2),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, {
+          minSpaceBytes: 0,
+          srcDiskPaths: ["/mnt/disk2"],
+          pathPrefixes: ["/data/media"],
+        })
+      )
+
+      expect(result.moves.map((m) => m.file.relativePath).sort()).toEqual([
+        "data/media/Film/film.mkv",
+        "data/torrents/film.mkv",
+      ])
+    })
+
+    test("should skip files with links that were not scanned", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+          { path: "/mnt/disk2", totalBytes: 4000 * MB, freeBytes: 3000 * MB },
+        ],
+        files: [
+          createLinkedFile("/mnt/disk2", "Movies/Film/film.mkv", 600, 42, 2),
+          createFile("/mnt/disk2", "Movies/Other/other.mkv", 300),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, srcDiskPaths: ["/mnt/disk2"] })
+      )
+
+      expect(result.moves.map((m) => m.file.relativePath)).toEqual(["Movies/Other/other.mkv"])
+    })
+  })
+
+  describe("share settings", () => {
+    const sharesFrom = (configs: Record<string, string>) =>
+      new Map(Object.entries(configs).map(([name, cfg]) => [name, parseShareConfig(name, cfg)]))
+
+    test("never moves a share onto a disk it excludes", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB }, // source
+          { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 200 * MB }, // tightest fit, excluded
+          { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        ],
+        files: [createFile("/mnt/disk1", "Movies/Film/film.mkv", 100)],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, shares: sharesFrom({ Movies: 'shareExclude="disk2"' }) })
+      )
+
+      expect(result.moves.map((m) => m.targetDiskPath)).toEqual(["/mnt/disk3"])
+    })
+
+    test("only uses the disks a share includes", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+          { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 200 * MB },
+          { path: "/mnt/disk3", totalBytes: 1000 * MB, freeBytes: 500 * MB },
+        ],
+        files: [createFile("/mnt/disk1", "Movies/Film/film.mkv", 100), createFile("/mnt/disk1", "TV/Show/e01.mkv", 100)],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, shares: sharesFrom({ Movies: 'shareInclude="disk1,disk3"' }) })
+      )
+
+      const targetOf = (path: string) => result.moves.find((m) => m.file.relativePath === path)?.targetDiskPath
+      expect(targetOf("Movies/Film/film.mkv")).toBe("/mnt/disk3")
+      expect(targetOf("TV/Show/e01.mkv")).toBe("/mnt/disk2")
+    })
+
+    test("leaves the share's floor free on the destination", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 1000 * MB, freeBytes: 900 * MB },
+          { path: "/mnt/disk2", totalBytes: 1000 * MB, freeBytes: 150 * MB },
+        ],
+        files: [createFile("/mnt/disk1", "Movies/Film/film.mkv", 100)],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, { minSpaceBytes: 0, shares: sharesFrom({ Movies: 'shareFloor="100MB"' }) })
+      )
+
+      expect(result.moves).toHaveLength(0)
+    })
+
+    test("keeps folders below the split level together", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 10000 * MB, freeBytes: 9000 * MB },
+          { path: "/mnt/disk2", totalBytes: 10000 * MB, freeBytes: 5000 * MB },
+        ],
+        files: [
+          createFile("/mnt/disk1", "TV/Show/Season 1/e01.mkv", 600),
+          createFile("/mnt/disk1", "TV/Show/Season 1/e02.mkv", 600),
+          createFile("/mnt/disk1", "TV/Show/Season 2/e01.mkv", 600),
+        ],
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, {
+          minSpaceBytes: 0,
+          minSplitSizeBytes: 1000 * MB,
+          shares: sharesFrom({ TV: 'shareSplitLevel="1"' }),
+        })
+      )
+
+      // Level 1 splits only the share itself, so the whole show is one unit
+      expect(result.moves).toHaveLength(3)
+      expect(result.foldersPlaced).toBe(1)
+      expect(result.foldersExploded).toBe(0)
+    })
+  })
+
+  describe("grouping rules", () => {
+    const showFiles = [
+      createFile("/mnt/disk1", "TV/Show/Season 1/e01.mkv", 600),
+      createFile("/mnt/disk1", "TV/Show/Season 1/e02.mkv", 600),
+      createFile("/mnt/disk1", "TV/Show/Season 2/e01.mkv", 600),
+      createFile("/mnt/disk1", "TV/Show/Season 2/e02.mkv", 600),
+    ]
+
+    test("moves a whole show as one unit when it fits", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 10000 * MB, freeBytes: 7600 * MB },
+          { path: "/mnt/disk2", totalBytes: 10000 * MB, freeBytes: 3000 * MB },
+        ],
+        files: showFiles,
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, {
+          minSpaceBytes: 0,
+          minSplitSizeBytes: 1000 * MB,
+          groupingRules: [{ prefix: "TV", depth: 1 }],
+        })
+      )
+
+      expect(result.moves).toHaveLength(4)
+      expect(result.foldersPlaced).toBe(1)
+      expect(result.foldersExploded).toBe(0)
+    })
+
+    test("falls back to season-level units when the show fits nowhere whole", async () => {
+      const worldView: WorldView = {
+        disks: [
+          { path: "/mnt/disk1", totalBytes: 10000 * MB, freeBytes: 7600 * MB },
+          { path: "/mnt/disk2", totalBytes: 10000 * MB, freeBytes: 1300 * MB },
+        ],
+        files: showFiles,
+      }
+
+      const result = await Effect.runPromise(
+        consolidateSimple(worldView, {
+          minSpaceBytes: 0,
+          minSplitSizeBytes: 1000 * MB,
+          groupingRules: [{ prefix: "TV", depth: 1 }],
+        })
+      )
+
+      // Seasons are split-able (1.2GB, no dominant file), so files move one by one
+      expect(result.moves).toHaveLength(2)
+      expect(result.bytesConsolidated).toBe(1200 * MB)
+    })
+  })
 })
@@ -10,14 +10,49 @@
  * 3. Move to next source disk
  *
  * Key: Finds combinations of files (e.g., 345MB + 200MB) that fit better
- * than single large files (e.g., 540MB alone).
+ * than single large files (e.g., 540MB alone). Each destination is filled by
+ * an exact subset-sum search; when that runs out of its time budget, the
+ * better of its best fill so far and the bucket-sampling heuristic is used.
+ *
+ * The loop (consolidateWith) is shared with the strategies in
+ * PackingStrategy.ts, which only swap out the choice of what moves where.
+ *
+ * Folders are grouped with groupByImmediateFolder before packing. Folders
+ * marked keepTogether (movie-like or small) are packed as one atomic item so
+ * their files always land on the same disk. Split-able folders (TV seasons)
+ * are exploded and packed file by file. Grouping rules (--group-depth) can
+ * keep a whole show together instead; when it fits on no destination it is
+ * packed as its seasons again.
+ *
+ * Unraid share settings, when given, constrain placement: a unit only goes
+ * to disks its share includes and does not exclude, leaves the share's floor
+ * free on the destination, and folders below the share's split level are
+ * kept together as one unit.
+ *
+ * Hardlinks: all scanned paths sharing an inode are merged into one unit, even
+ * across folders and path filters, so they move together (rsync -H keeps them
+ * linked) and their data is only counted once. If a file has links that were
+ * not scanned, moving it would copy the data without freeing the source, so
+ * its unit is skipped.
  */
 
 import { Array, Effect, Order, pipe } from "effect"
-import type { FileEntry } from "../domain/FileEntry"
+import { isArrayDisk } from "../domain/Disk"
+import { hardlinkKey, uniqueBytes, type FileEntry } from "../domain/FileEntry"
+import {
+  groupAtDepth,
+  groupByImmediateFolder,
+  ruleDepthFor,
+  type FolderGroup,
+  type FolderGroupOptions,
+  type GroupingRule,
+} from "../domain/FolderGroup"
 import type { FileMove } from "../domain/MovePlan"
 import { createFileMove } from "../domain/MovePlan"
 import type { WorldView, DiskState } from "../domain/WorldView"
+import { shareAllowsDisk, shareOf, type ShareConfig } from "../domain/ShareConfig"
+import { createGlobMatcher } from "../lib/glob"
+import { solveSubsetSum } from "../lib/subsetSum"
 
 // =============================================================================
 // Types
@@ -25,15 +60,71 @@ import type { WorldView, DiskState } from "../domain/WorldView"
 
 export interface ConsolidationOptions {
   readonly minSpaceBytes: number
+  readonly reservedBytesByDisk?: ReadonlyMap<string, number> // Per-disk min-space, overriding minSpaceBytes
   readonly minFileSizeBytes?: number // Min file size to consider (default: 0, move all files)
   readonly pathPrefixes?: readonly string[] // Path prefixes to include (default: all paths)
   readonly maxCombinationSize?: number // Max files to consider in a combination (default: 5)
   readonly srcDiskPaths?: readonly string[] // If specified, only move files from these disks
+  readonly minSplitSizeBytes?: number // Folders smaller than this are never split (default: 1GB)
+  readonly folderThreshold?: number // Keep folder together if largest file is >= this ratio (default: 0.9)
+  readonly includePatterns?: readonly string[] // Only folders containing a matching file are considered, each moved whole (default: all)
+  readonly solverTimeBudgetMs?: number // Time limit for filling one destination exactly (default: 1000)
+  readonly shares?: ReadonlyMap<string, ShareConfig> // Unraid share settings by share name (default: none)
+  readonly groupingRules?: readonly GroupingRule[] // Group folders at a depth below a prefix (default: none)
+}
+
+/** Free space to keep on a disk: its own reservation, else the min-space */
+export const reservedBytesFor = (options: ConsolidationOptions, diskPath: string): number =>
+  options.reservedBytesByDisk?.get(diskPath) ?? options.minSpaceBytes
+
+/** Settings of the shares a unit's files belong to (hardlinks can span shares) */
+const unitShares = (options: ConsolidationOptions, unit: PackingUnit): ShareConfig[] => {
+  const shares = options.shares
+  if (!shares || shares.size === 0) return []
+  const names = new Set(unit.files.map(shareOf))
+  return [...names].flatMap((name) => {
+    const share = shares.get(name)
+    return share ? [share] : []
+  })
+}
+
+/** Whether every share of the unit may use the disk */
+export const unitAllowedOn = (options: ConsolidationOptions, unit: PackingUnit, diskPath: string): boolean =>
+  unitShares(options, unit).every((share) => shareAllowsDisk(share, diskPath))
+
+/** Free space to keep on a disk when placing the unit: the disk's reservation, raised to its shares' floor */
+export const reservedBytesForUnit = (options: ConsolidationOptions, unit: PackingUnit, diskPath: string): number =>
+  Math.max(reservedBytesFor(options, diskPath), ...unitShares(options, unit).map((share) => share.floorBytes))
+
+/** Default time the exact solver may spend on one destination */
+export const DEFAULT_SOLVER_TIME_BUDGET_MS = 1000
+
+/**
+ * The exact search stops once a destination is this close to full - finding
+ * the last few bytes is not worth searching every remaining combination.
+ */
+export const SOLVER_SLACK_BYTES = 1024 * 1024
+
+/** How well one destination disk was filled */
+export interface DestinationFill {
+  readonly diskPath: string
+  /** Free space above the min-space reservation before any moves */
+  readonly availableBytes: number
+  /** Data planned onto the disk */
+  readonly placedBytes: number
 }
 
 export interface ConsolidationResult {
   readonly moves: ReadonlyArray<FileMove>
   readonly bytesConsolidated: number
+  /** Keep-together folders that were moved as a single unit */
+  readonly foldersPlaced: number
+  /** Split-able folders whose files were packed individually */
+  readonly foldersExploded: number
+  /** Fill achieved on each destination that receives data */
+  readonly destinations: ReadonlyArray<DestinationFill>
+  /** Destination searches where the exact solver ran out of time */
+  readonly solverTimeouts: number
 }
 
 interface DiskWithUsage extends DiskState {
@@ -41,6 +132,48 @@ interface DiskWithUsage extends DiskState {
   readonly usedPct: number
 }
 
+/**
+ * An atomic item for packing: either a whole keep-together folder
+ * or a single file from a split-able folder.
+ */
+export interface PackingUnit {
+  /** Unique key (folder path for folder units, absolute path for file units) */
+  readonly id: string
+  readonly files: ReadonlyArray<FileEntry>
+  readonly totalBytes: number
+  /** Folder the unit came from (relative to disk root, "" for root-level files) */
+  readonly folderPath: string
+  /** True when the unit is a whole keep-together folder */
+  readonly isFolder: boolean
+  /** Smaller units to move instead when this one fits nowhere (grouping rules only) */
+  readonly parts?: ReadonlyArray<PackingUnit>
+}
+
+/** A disk that can receive units, with the min-space reservation taken off */
+export interface Destination {
+  readonly diskPath: string
+  readonly availableBytes: number
+}
+
+/** Units to move together to one destination */
+export interface CombinationCandidate {
+  readonly units: ReadonlyArray<PackingUnit>
+  readonly totalBytes: number
+  readonly targetDisk: string
+  readonly wastedSpace: number
+  readonly score: number
+}
+
+/**
+ * Placement policy: pick the next units to move off the current source disk
+ * and where they go, or null when nothing more should move. Destinations
+ * never include the source or disks already processed as a source.
+ */
+export type ChooseMove = (
+  units: ReadonlyArray<PackingUnit>,
+  destinations: ReadonlyArray<Destination>
+) => CombinationCandidate | null
+
 // =============================================================================
 // Main API
 // =============================================================================
@@ -54,47 +187,39 @@ export const consolidateSimple = (
   options: ConsolidationOptions
 ): Effect.Effect<ConsolidationResult, never> =>
   Effect.gen(function* () {
-    const maxCombinationSize = options.maxCombinationSize ?? 5
-    const minFileSizeBytes = options.minFileSizeBytes ?? 0
-    const pathPrefixes = options.pathPrefixes ?? []
-
-    // Filter files by size and path
-    let filteredFiles = worldView.files
-
-    // Filter by file size
-    if (minFileSizeBytes > 0) {
-      const beforeSize = filteredFiles.length
-      filteredFiles = filteredFiles.filter((f) => f.sizeBytes >= minFileSizeBytes)
-      const filteredCount = beforeSize - filteredFiles.length
-      if (filteredCount > 0) {
-        yield* Effect.logDebug(
-          `Filtered out ${filteredCount} files smaller than ${(minFileSizeBytes / 1024 / 1024).toFixed(2)}MB`
-        )
-      }
+    const solver: SolverSettings = {
+      timeBudgetMs: options.solverTimeBudgetMs ?? DEFAULT_SOLVER_TIME_BUDGET_MS,
+      timeouts: 0,
     }
 
-    // Filter by path prefixes
-    if (pathPrefixes.length > 0) {
-      const beforePath = filteredFiles.length
-      filteredFiles = filteredFiles.filter((f) =>
-        pathPrefixes.some((prefix) => {
-          // Extract path after /mnt/diskN/ to match against prefix
-          const diskMatch = f.absolutePath.match(/^\/mnt\/disk\d+(.*)$/)
-          if (diskMatch && diskMatch[1]) {
-            return diskMatch[1].startsWith(prefix)
-          }
-          // Fallback to full path check (for non-standard paths)
-          return f.absolutePath.startsWith(prefix)
-        })
+    const result = yield* consolidateWith(
+      worldView,
+      options,
+      findBestCombination(options.maxCombinationSize ?? 5, solver)
+    )
+
+    if (solver.timeouts > 0) {
+      yield* Effect.logDebug(
+        `Exact solver hit its ${solver.timeBudgetMs}ms budget on ${solver.timeouts} destination search(es)`
       )
-      const filteredCount = beforePath - filteredFiles.length
-      if (filteredCount > 0) {
-        yield* Effect.logDebug(
-          `Filtered out ${filteredCount} files not matching path prefixes: ${pathPrefixes.join(", ")}`
-        )
-      }
     }
 
+    return { ...result, solverTimeouts: solver.timeouts }
+  })
+
+/**
+ * The consolidation loop shared by every packing strategy: filter the files,
+ * build packing units, then empty source disks from least full to most full,
+ * asking chooseMove where each unit goes.
+ */
+export const consolidateWith = (
+  worldView: WorldView,
+  options: ConsolidationOptions,
+  chooseMove: ChooseMove
+): Effect.Effect<ConsolidationResult, never> =>
+  Effect.gen(function* () {
+    const filteredFiles = yield* selectCandidateFiles(worldView.files, options)
+
     const filteredWorldView: WorldView = {
       ...worldView,
       files: filteredFiles,
@@ -103,8 +228,8 @@ export const consolidateSimple = (
     // Rank disks by fullness (least full first)
     let rankedDisks = rankDisksByFullness(filteredWorldView)
 
-    // Always exclude /mnt/disks from consolidation
-    rankedDisks = rankedDisks.filter((d) => d.path !== "/mnt/disks")
+    // Unassigned devices are never consolidated
+    rankedDisks = rankedDisks.filter(isArrayDisk)
 
     // Filter to only specified source disks if provided
     if (options.srcDiskPaths && options.srcDiskPaths.length > 0) {
@@ -121,17 +246,23 @@ export const consolidateSimple = (
     )
 
     // Track available space on each disk as we move files
-    // Exclude /mnt/disks from destinations
+    // Unassigned devices are never destinations
     const availableSpace = new Map<string, number>(
       filteredWorldView.disks
-        .filter((d) => d.path !== "/mnt/disks")
+        .filter(isArrayDisk)
         .map((d) => [d.path, d.freeBytes])
     )
 
-    // Track which files have been moved
-    const movedFiles = new Set<string>()
+    const initialAvailable = new Map(availableSpace)
+
+    // Track which units have been moved
+    const movedUnits = new Set<string>()
     const allMoves: FileMove[] = []
 
+    // Track folder placement stats
+    let foldersPlaced = 0
+    const explodedFolders = new Set<string>()
+
     // Track which disks have been processed (removed from destination consideration)
     const processedDisks = new Set<string>()
 
@@ -141,89 +272,100 @@ export const consolidateSimple = (
         `Processing source disk: ${sourceDisk.path} (${sourceDisk.usedPct.toFixed(1)}% full)`
       )
 
-      // Get files on this disk that haven't been moved yet
-      let remainingFiles = pipe(
+      const units = yield* packingUnitsForDisk(
+        sourceDisk.path,
         filteredWorldView.files,
-        Array.filter(
-          (f) => f.diskPath === sourceDisk.path && !movedFiles.has(f.absolutePath)
-        )
+        worldView.files,
+        options
       )
 
-      // Get current available space on this source disk for comparison
-      const sourceAvailableSpace = availableSpace.get(sourceDisk.path) ?? 0
-
-      // Keep finding and applying best combinations until no more can be moved
-      while (remainingFiles.length > 0) {
-        // Find the best combination across all destination disks (excluding processed ones)
-        const bestMove = findBestCombination(
-          remainingFiles,
-          sourceDisk.path,
-          availableSpace,
-          options.minSpaceBytes,
-          maxCombinationSize,
-          sourceAvailableSpace,
-          processedDisks
-        )
+      // Units whose shares have the same placement rules are packed together
+      for (const group of groupByShareRules(units.filter((u) => !movedUnits.has(u.id)), options)) {
+        let remainingUnits = group.units
 
-        if (!bestMove) {
-          // No more combinations can be moved from this disk
-          yield* Effect.logDebug(
-            `No more files can be moved from ${sourceDisk.path}`
+        // Keep finding and applying moves until no more can be moved
+        while (remainingUnits.length > 0) {
+          // Destinations exclude the source, disks already processed and
+          // disks the units' shares may not use
+          const destinations = [...availableSpace.entries()]
+            .filter(([diskPath]) => diskPath !== sourceDisk.path && !processedDisks.has(diskPath) && group.allows(diskPath))
+            .map(([diskPath, freeBytes]) => ({ diskPath, availableBytes: freeBytes - group.reservedBytes(diskPath) }))
+            .filter((d) => d.availableBytes > 0)
+
+          // A rule-grouped folder too big for every destination falls back to its parts
+          remainingUnits = splitOversizedUnits(
+            remainingUnits,
+            destinations.reduce((max, d) => Math.max(max, d.availableBytes), 0)
           )
 
-          // Log diagnostic info about why we stopped
-          const sortedRemaining = [...remainingFiles].sort((a, b) => a.sizeBytes - b.sizeBytes)
-          const smallestFile = sortedRemaining[0]
-          if (smallestFile) {
+          const bestMove = destinations.length > 0 ? chooseMove(remainingUnits, destinations) : null
+
+          if (!bestMove) {
+            // No more combinations can be moved from this disk
             yield* Effect.logDebug(
-              `  Smallest remaining file: ${(smallestFile.sizeBytes / 1024 / 1024).toFixed(3)}MB`
+              `No more files can be moved from ${sourceDisk.path}`
             )
-          }
 
-          // Log available space on destinations
-          const destinations = [...availableSpace.entries()]
-            .filter(([diskPath]) => diskPath !== sourceDisk.path && !processedDisks.has(diskPath))
-            .sort((a, b) => b[1] - a[1]) // Sort by free space descending
+            // Log diagnostic info about why we stopped
+            const sortedRemaining = [...remainingUnits].sort((a, b) => a.totalBytes - b.totalBytes)
+            const smallestUnit = sortedRemaining[0]
+            if (smallestUnit) {
+              yield* Effect.logDebug(
+                `  Smallest remaining item: ${(smallestUnit.totalBytes / 1024 / 1024).toFixed(3)}MB`
+              )
+            }
+
+            // Log available space on destinations
+            const destinations = [...availableSpace.entries()]
+              .filter(([diskPath]) => diskPath !== sourceDisk.path && !processedDisks.has(diskPath))
+              .sort((a, b) => b[1] - a[1]) // Sort by free space descending
 
-          yield* Effect.logDebug(
-            `  Available destinations: ${destinations.length}`
-          )
-          for (const [diskPath, freeSpace] of destinations.slice(0, 3)) {
-            const availableForFiles = freeSpace - options.minSpaceBytes
             yield* Effect.logDebug(
-              `    ${diskPath}: ${(freeSpace / 1024 / 1024).toFixed(2)}MB free, ${(availableForFiles / 1024 / 1024).toFixed(2)}MB available for files`
+              `  Available destinations: ${destinations.length}`
             )
+            for (const [diskPath, freeSpace] of destinations.slice(0, 3)) {
+              const availableForFiles = freeSpace - reservedBytesFor(options, diskPath)
+              yield* Effect.logDebug(
+                `    ${diskPath}: ${(freeSpace / 1024 / 1024).toFixed(2)}MB free, ${(availableForFiles / 1024 / 1024).toFixed(2)}MB available for files`
+              )
+            }
+
+            break
           }
 
-          break
-        }
+          // Apply the move
+          const moves = bestMove.units.flatMap((unit) =>
+            unit.files.map((file) => createFileMove(file, bestMove.targetDisk, unit.id))
+          )
 
-        // Apply the move
-        const moves = bestMove.files.map((file) =>
-          createFileMove(file, bestMove.targetDisk)
-        )
+          for (const unit of bestMove.units) {
+            movedUnits.add(unit.id)
+            if (unit.isFolder) {
+              foldersPlaced++
+            } else if (unit.folderPath !== "") {
+              explodedFolders.add(`${sourceDisk.path}/${unit.folderPath}`)
+            }
+          }
 
-        for (const move of moves) {
-          allMoves.push(move)
-          movedFiles.add(move.file.absolutePath)
+          allMoves.push(...moves)
 
-          // Update available space
+          // Update available space (unit totals count hardlinked data once)
           const currentSpace = availableSpace.get(bestMove.targetDisk) ?? 0
           availableSpace.set(
             bestMove.targetDisk,
-            currentSpace - move.file.sizeBytes
+            currentSpace - bestMove.totalBytes
           )
-        }
 
-        yield* Effect.logDebug(
-          `Moved ${moves.length} file(s) (${(bestMove.totalBytes / 1024 / 1024).toFixed(1)}MB) from ${sourceDisk.path} to ${bestMove.targetDisk}`
-        )
+          yield* Effect.logDebug(
+            `Moved ${moves.length} file(s) (${(bestMove.totalBytes / 1024 / 1024).toFixed(1)}MB) from ${sourceDisk.path} to ${bestMove.targetDisk}`
+          )
 
-        // Update remaining files
-        remainingFiles = pipe(
-          remainingFiles,
-          Array.filter((f) => !movedFiles.has(f.absolutePath))
-        )
+          // Update remaining units
+          remainingUnits = pipe(
+            remainingUnits,
+            Array.filter((u) => !movedUnits.has(u.id))
+          )
+        }
       }
 
       // Mark this disk as processed - it won't be a destination for future disks
@@ -231,14 +373,25 @@ export const consolidateSimple = (
       yield* Effect.logDebug(`Disk ${sourceDisk.path} processed and removed from destination pool`)
     }
 
-    const bytesConsolidated = allMoves.reduce(
-      (sum, m) => sum + m.file.sizeBytes,
-      0
-    )
+    const bytesConsolidated = uniqueBytes(allMoves.map((m) => m.file))
 
     yield* Effect.logDebug(
       `Consolidation complete: ${allMoves.length} moves, ${(bytesConsolidated / 1024 / 1024).toFixed(1)}MB consolidated`
     )
+    yield* Effect.logDebug(
+      `Folders placed whole: ${foldersPlaced}, folders exploded: ${explodedFolders.size}`
+    )
+
+    const placedBytes = new Map<string, number>()
+    for (const [diskPath, initialFree] of initialAvailable) {
+      const placed = initialFree - (availableSpace.get(diskPath) ?? initialFree)
+      if (placed > 0) placedBytes.set(diskPath, placed)
+    }
+    const destinations = [...placedBytes].map(([diskPath, placed]) => ({
+      diskPath,
+      availableBytes: Math.max(0, (initialAvailable.get(diskPath) ?? 0) - reservedBytesFor(options, diskPath)),
+      placedBytes: placed,
+    }))
 
     // Log final disk state
     yield* Effect.logDebug(`Final disk state:`)
@@ -255,9 +408,435 @@ export const consolidateSimple = (
     return {
       moves: allMoves,
       bytesConsolidated,
+      foldersPlaced,
+      foldersExploded: explodedFolders.size,
+      destinations,
+      solverTimeouts: 0,
+    }
+  })
+
+// =============================================================================
+// Share Rules
+// =============================================================================
+
+/** Units that share placement rules, with those rules */
+interface ShareRuleGroup {
+  readonly units: ReadonlyArray<PackingUnit>
+  /** Whether the units may go to the disk */
+  readonly allows: (diskPath: string) => boolean
+  /** Free space to keep on the disk when placing the units */
+  readonly reservedBytes: (diskPath: string) => number
+}
+
+/**
+ * Split units by the shares they belong to, so each group can be packed
+ * against only the destinations its shares allow. Without share settings
+ * every unit is in one group.
+ */
+const groupByShareRules = (
+  units: ReadonlyArray<PackingUnit>,
+  options: ConsolidationOptions
+): ReadonlyArray<ShareRuleGroup> => {
+  const groups = new Map<string, PackingUnit[]>()
+  for (const unit of units) {
+    const key = unitShares(options, unit).map((share) => share.name).sort().join(",")
+    const members = groups.get(key) ?? []
+    members.push(unit)
+    groups.set(key, members)
+  }
+
+  return [...groups.values()].flatMap((members) => {
+    const first = members[0]
+    if (!first) return []
+    return [{
+      units: members,
+      allows: (diskPath: string) => unitAllowedOn(options, first, diskPath),
+      reservedBytes: (diskPath: string) => reservedBytesForUnit(options, first, diskPath),
+    }]
+  })
+}
+
+// =============================================================================
+// Candidate Selection
+// =============================================================================
+
+/**
+ * Apply the path prefix and include filters to the scanned files. The min
+ * file size is applied later, when building packing units, so small
+ * companions of keep-together folders still move with their folder.
+ */
+export const selectCandidateFiles = (
+  files: ReadonlyArray<FileEntry>,
+  options: ConsolidationOptions
+): Effect.Effect<ReadonlyArray<FileEntry>, never> =>
+  Effect.gen(function* () {
+    const pathPrefixes = options.pathPrefixes ?? []
+    let filteredFiles = files
+
+    // Filter by path prefixes
+    if (pathPrefixes.length > 0) {
+      const beforePath = filteredFiles.length
+      filteredFiles = filteredFiles.filter((f) =>
+        pathPrefixes.some((prefix) => {
+          // Extract path after /mnt/diskN/ to match against prefix
+          const diskMatch = f.absolutePath.match(/^\/mnt\/disk\d+(.*)$/)
+          if (diskMatch && diskMatch[1]) {
+            return diskMatch[1].startsWith(prefix)
+          }
+          // Fallback to full path check (for non-standard paths)
+          return f.absolutePath.startsWith(prefix)
+        })
+      )
+      const filteredCount = beforePath - filteredFiles.length
+      if (filteredCount > 0) {
+        yield* Effect.logDebug(
+          `Filtered out ${filteredCount} files not matching path prefixes: ${pathPrefixes.join(", ")}`
+        )
+      }
+    }
+
+    // Filter by include patterns (folder granularity)
+    const includePatterns = options.includePatterns ?? []
+    if (includePatterns.length > 0) {
+      const beforeInclude = filteredFiles.length
+      filteredFiles = filterFoldersByInclude(filteredFiles, includePatterns)
+      const filteredCount = beforeInclude - filteredFiles.length
+      if (filteredCount > 0) {
+        yield* Effect.logDebug(
+          `Filtered out ${filteredCount} files in folders without a match for: ${includePatterns.join(", ")}`
+        )
+      }
     }
+
+    return filteredFiles
   })
 
+/**
+ * Build the packing units for one disk: folder units from the candidate
+ * files, then hardlinked units merged using every scanned file on the disk.
+ */
+export const packingUnitsForDisk = (
+  diskPath: string,
+  candidateFiles: ReadonlyArray<FileEntry>,
+  scannedFiles: ReadonlyArray<FileEntry>,
+  options: ConsolidationOptions
+): Effect.Effect<ReadonlyArray<PackingUnit>, never> =>
+  Effect.gen(function* () {
+    const minFileSizeBytes = options.minFileSizeBytes ?? 0
+    const folderOptions: FolderGroupOptions = {
+      minSplitSizeBytes: options.minSplitSizeBytes ?? 1024 * 1024 * 1024,
+      folderThreshold: options.folderThreshold ?? 0.9,
+    }
+
+    const { units: fileUnits, smallFilesSkipped } = buildPackingUnits(
+      candidateFiles.filter((f) => f.diskPath === diskPath),
+      {
+        folderOptions,
+        shares: options.shares,
+        rules: options.groupingRules,
+        wholeFolders: (options.includePatterns ?? []).length > 0,
+      },
+      minFileSizeBytes
+    )
+
+    if (smallFilesSkipped > 0) {
+      yield* Effect.logDebug(
+        `Filtered out ${smallFilesSkipped} files smaller than ${(minFileSizeBytes / 1024 / 1024).toFixed(2)}MB`
+      )
+    }
+
+    // Hardlinks are resolved against the full scan, not just the filtered files
+    const { units, incompleteUnits } = mergeHardlinkedUnits(
+      fileUnits,
+      scannedFiles.filter((f) => f.diskPath === diskPath)
+    )
+
+    if (incompleteUnits > 0) {
+      yield* Effect.logDebug(
+        `Skipped ${incompleteUnits} item(s) on ${diskPath} with hardlinks outside the scanned files`
+      )
+    }
+
+    return units
+  })
+
+// =============================================================================
+// Include Filtering
+// =============================================================================
+
+/**
+ * Keep only files whose folder contains at least one file matching the
+ * include patterns. Non-matching siblings (subtitles, artwork, .nfo) stay in
+ * the candidate set, and packing turns each such folder into one unit, so
+ * the folder moves as a whole.
+ *
+ * Folders are keyed per disk, so a show folder that exists on two disks is
+ * evaluated separately on each.
+ */
+const filterFoldersByInclude = (
+  files: ReadonlyArray<FileEntry>,
+  includePatterns: readonly string[]
+): ReadonlyArray<FileEntry> => {
+  const matches = createGlobMatcher(includePatterns)
+
+  const folderKey = (file: FileEntry): string => {
+    const lastSlash = file.relativePath.lastIndexOf("/")
+    const folder = lastSlash === -1 ? "" : file.relativePath.slice(0, lastSlash)
+    return `${file.diskPath}/${folder}`
+  }
+
+  const qualifyingFolders = new Set(
+    files.filter((f) => matches(f.relativePath)).map(folderKey)
+  )
+
+  return files.filter((f) => qualifyingFolders.has(folderKey(f)))
+}
+
+// =============================================================================
+// Packing Units
+// =============================================================================
+
+/** How a disk's files are grouped into folders before packing */
+interface GroupingSettings {
+  readonly folderOptions: FolderGroupOptions
+  readonly shares?: ReadonlyMap<string, ShareConfig> | undefined
+  readonly rules?: readonly GroupingRule[] | undefined
+  /** Every folder is one unit with all its files, whatever their size (--include) */
+  readonly wholeFolders?: boolean | undefined
+}
+
+const folderDepth = (folderPath: string): number => (folderPath === "" ? 0 : folderPath.split("/").length)
+
+/**
+ * Turn a disk's files into packing units.
+ *
+ * - Keep-together folders become a single unit containing every file in the
+ *   folder (including small companions like .srt/.nfo), as long as the folder
+ *   as a whole meets the min file size.
+ * - Split-able folders and root-level files become one unit per file, with
+ *   files below the min file size skipped.
+ * - Files of a share with a split level are grouped at the first folder
+ *   Unraid would not split: level N keeps each folder N+1 levels below the
+ *   disk root (the share being level 1) on one disk. Manual split level (0)
+ *   is treated as level 1, so folders directly under the share move whole.
+ * - A folder grouped by a --group-depth rule (coarser than any split level)
+ *   is one unit whose parts are the units its files would otherwise form,
+ *   so it can fall back to them when it fits nowhere whole.
+ * - With wholeFolders (folders selected by --include), a folder that could
+ *   be split is still one unit, and no file in it is skipped for its size.
+ */
+const buildPackingUnits = (
+  files: ReadonlyArray<FileEntry>,
+  grouping: GroupingSettings,
+  minFileSizeBytes: number
+): { units: ReadonlyArray<PackingUnit>; smallFilesSkipped: number } => {
+  const { folderOptions, shares, rules, wholeFolders = false } = grouping
+  let smallFilesSkipped = 0
+
+  const folderUnit = (group: FolderGroup): PackingUnit => ({
+    id: `${group.files[0]?.diskPath ?? ""}/${group.folderPath}/`,
+    files: group.files,
+    totalBytes: group.totalBytes,
+    folderPath: group.folderPath,
+    isFolder: true,
+  })
+
+  const toUnits = (groups: ReadonlyArray<FolderGroup>, countSkipped: boolean): PackingUnit[] => {
+    const units: PackingUnit[] = []
+    for (const group of groups) {
+      // A group that may split still keeps each of its folders whole
+      if (wholeFolders && group.folderPath !== "") {
+        units.push(
+          ...(group.keepTogether ? [group] : groupByImmediateFolder(group.files, folderOptions)).map(folderUnit)
+        )
+        continue
+      }
+
+      // Files at the disk root don't share a folder - always pack individually
+      if (group.keepTogether && group.folderPath !== "") {
+        if (group.totalBytes >= minFileSizeBytes) {
+          units.push(folderUnit(group))
+        } else if (countSkipped) {
+          smallFilesSkipped += group.files.length
+        }
+        continue
+      }
+
+      for (const file of group.files) {
+        if (file.sizeBytes < minFileSizeBytes) {
+          if (countSkipped) smallFilesSkipped++
+          continue
+        }
+        units.push({
+          id: file.absolutePath,
+          files: [file],
+          totalBytes: file.sizeBytes,
+          folderPath: group.folderPath,
+          isFolder: false,
+        })
+      }
+    }
+    return units
+  }
+
+  if ((!shares || shares.size === 0) && (!rules || rules.length === 0)) {
+    return { units: toUnits(groupByImmediateFolder(files, folderOptions), true), smallFilesSkipped }
+  }
+
+  // Partition by the depth each file must be kept together at (split level)
+  // and the coarser depth a grouping rule asks for
+  const partitions = new Map<string, { splitDepth?: number; ruleDepth?: number; files: FileEntry[] }>()
+  for (const file of files) {
+    const splitLevel = shares?.get(shareOf(file))?.splitLevel
+    const splitDepth = splitLevel !== undefined ? Math.max(splitLevel, 1) + 1 : undefined
+    const requested = rules ? ruleDepthFor(file.relativePath, rules) : undefined
+    const ruleDepth = requested !== undefined && requested < (splitDepth ?? Infinity) ? requested : undefined
+
+    const key = `${splitDepth ?? ""}:${ruleDepth ?? ""}`
+    const partition = partitions.get(key) ?? { splitDepth, ruleDepth, files: [] }
+    partition.files.push(file)
+    partitions.set(key, partition)
+  }
+
+  const units: PackingUnit[] = []
+  for (const { splitDepth, ruleDepth, files: members } of partitions.values()) {
+    const required = (fs: readonly FileEntry[]) =>
+      splitDepth !== undefined ? groupAtDepth(fs, splitDepth, folderOptions) : groupByImmediateFolder(fs, folderOptions)
+
+    if (ruleDepth === undefined) {
+      units.push(...toUnits(required(members), true))
+      continue
+    }
+
+    for (const group of groupAtDepth(members, ruleDepth, folderOptions)) {
+      // Files above the rule's depth are grouped as usual
+      if (folderDepth(group.folderPath) < ruleDepth) {
+        units.push(...toUnits([group], true))
+        continue
+      }
+      if (!wholeFolders && group.totalBytes < minFileSizeBytes) {
+        smallFilesSkipped += group.files.length
+        continue
+      }
+      units.push({ ...folderUnit(group), parts: toUnits(required(group.files), false) })
+    }
+  }
+
+  return { units, smallFilesSkipped }
+}
+
+/**
+ * Replace units too large for the room available with their parts, so a
+ * folder grouped by a --group-depth rule moves in pieces when it does not
+ * fit anywhere whole.
+ */
+export const splitOversizedUnits = (
+  units: ReadonlyArray<PackingUnit>,
+  largestRoomBytes: number
+): ReadonlyArray<PackingUnit> =>
+  units.some((u) => u.parts !== undefined && u.totalBytes > largestRoomBytes)
+    ? units.flatMap((u) => (u.parts !== undefined && u.totalBytes > largestRoomBytes ? u.parts : [u]))
+    : units
+
+/**
+ * Merge units that share hardlinked files into a single unit.
+ *
+ * Every scanned path of a hardlinked inode on the disk is pulled into the
+ * unit, even if it was filtered out (e.g. the /data/torrents side of an
+ * *arr import). Units whose files have more links than were scanned are
+ * dropped: moving only some of the paths would copy the data and leave the
+ * source space in use. Units with hardlinks lose their parts for the same
+ * reason.
+ */
+const mergeHardlinkedUnits = (
+  units: ReadonlyArray<PackingUnit>,
+  diskFiles: ReadonlyArray<FileEntry>
+): { units: ReadonlyArray<PackingUnit>; incompleteUnits: number } => {
+  // All scanned paths per hardlinked inode
+  const linkedPaths = new Map<string, FileEntry[]>()
+  for (const file of diskFiles) {
+    const key = hardlinkKey(file)
+    if (key === undefined) continue
+    const paths = linkedPaths.get(key) ?? []
+    paths.push(file)
+    linkedPaths.set(key, paths)
+  }
+
+  if (linkedPaths.size === 0) return { units, incompleteUnits: 0 }
+
+  // Union-find over units that share an inode
+  const parent = units.map((_, i) => i)
+  const find = (i: number): number => {
+    let root = i
+    while ((parent[root] ?? root) !== root) root = parent[root] ?? root
+    parent[i] = root
+    return root
+  }
+
+  const ownerByKey = new Map<string, number>()
+  units.forEach((unit, i) => {
+    for (const file of unit.files) {
+      const key = hardlinkKey(file)
+      if (key === undefined) continue
+      const owner = ownerByKey.get(key)
+      if (owner === undefined) {
+        ownerByKey.set(key, i)
+      } else {
+        parent[find(i)] = find(owner)
+      }
+    }
+  })
+
+  const groups = new Map<number, PackingUnit[]>()
+  units.forEach((unit, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), unit])
+  })
+
+  let incompleteUnits = 0
+  const merged: PackingUnit[] = []
+
+  for (const members of groups.values()) {
+    const first = members[0]
+    if (!first) continue
+
+    const keys = new Set(
+      members.flatMap((m) => m.files.map(hardlinkKey)).filter((k): k is string => k !== undefined)
+    )
+
+    if (keys.size === 0) {
+      merged.push(first)
+      continue
+    }
+
+    // Every link of every inode must have been scanned
+    const complete = [...keys].every((key) => {
+      const paths = linkedPaths.get(key) ?? []
+      return paths.length >= (paths[0]?.linkCount ?? 1)
+    })
+    if (!complete) {
+      incompleteUnits++
+      continue
+    }
+
+    const files = new Map<string, FileEntry>()
+    for (const file of members.flatMap((m) => m.files)) files.set(file.absolutePath, file)
+    for (const key of keys) {
+      for (const file of linkedPaths.get(key) ?? []) files.set(file.absolutePath, file)
+    }
+
+    merged.push({
+      id: first.id,
+      files: [...files.values()],
+      totalBytes: uniqueBytes(files.values()),
+      folderPath: first.folderPath,
+      isFolder: members.some((m) => m.isFolder),
+    })
+  }
+
+  return { units: merged, incompleteUnits }
+}
+
 // =============================================================================
 // Disk Ranking
 // =============================================================================
@@ -289,54 +868,36 @@ const rankDisksByFullness = (worldView: WorldView): ReadonlyArray<DiskWithUsage>
 // Combination Finding
 // =============================================================================
 
-interface CombinationCandidate {
-  readonly files: ReadonlyArray<FileEntry>
-  readonly totalBytes: number
-  readonly targetDisk: string
-  readonly wastedSpace: number
-  readonly score: number
+/** Time budget for the exact solver, and how often it ran out */
+interface SolverSettings {
+  readonly timeBudgetMs: number
+  timeouts: number
 }
 
 /**
- * Find the best combination of files to move to any destination disk.
+ * Find the best combination of units to move to any destination disk.
  *
- * Tries all combinations up to maxCombinationSize and picks the one that:
+ * Fills each destination as completely as possible and picks the one that:
  * 1. Fits in the destination (including minSpace reservation)
  * 2. Wastes the least space (fills most completely)
  *
  * Returns null if no combination can be moved.
  */
 const findBestCombination = (
-  files: ReadonlyArray<FileEntry>,
-  sourceDiskPath: string,
-  availableSpace: Map<string, number>,
-  minSpaceBytes: number,
   maxCombinationSize: number,
-  _sourceAvailableSpace: number, // Keep for compatibility but don't use
-  processedDisks: Set<string>
-): CombinationCandidate | null => {
-  // Get all destination disks (not the source, and not already processed)
-  // Once a disk is processed, it's removed from the destination pool
-  const destinations = [...availableSpace.entries()].filter(
-    ([diskPath]) => diskPath !== sourceDiskPath && !processedDisks.has(diskPath)
-  )
-
-  if (destinations.length === 0) return null
-
+  solver: SolverSettings
+): ChooseMove => (units, destinations) => {
   let bestCandidate: CombinationCandidate | null = null
 
   // Try each destination disk
-  for (const [targetDisk, freeSpace] of destinations) {
-    const availableForFiles = freeSpace - minSpaceBytes
-
-    if (availableForFiles <= 0) continue
-
+  for (const { diskPath, availableBytes } of destinations) {
     // Find best combination for this destination
     const combination = findBestCombinationForDisk(
-      files,
-      availableForFiles,
-      targetDisk,
-      maxCombinationSize
+      units,
+      availableBytes,
+      diskPath,
+      maxCombinationSize,
+      solver
     )
 
     if (!combination) continue
@@ -351,20 +912,62 @@ const findBestCombination = (
 }
 
 /**
- * Bucket for grouping files by size range
+ * Find the combination that fills one destination best.
+ *
+ * Runs the exact subset-sum search within the time budget. If the budget runs
+ * out, falls back to the bucket-sampling heuristic and keeps whichever of the
+ * two fills the destination more.
+ */
+const findBestCombinationForDisk = (
+  units: ReadonlyArray<PackingUnit>,
+  availableBytes: number,
+  targetDisk: string,
+  maxCombinationSize: number,
+  solver: SolverSettings
+): CombinationCandidate | null => {
+  const fittingUnits = units.filter((u) => u.totalBytes <= availableBytes)
+
+  if (fittingUnits.length === 0) return null
+
+  const solution = solveSubsetSum(
+    fittingUnits.map((u) => u.totalBytes),
+    availableBytes,
+    { slack: SOLVER_SLACK_BYTES, deadline: Date.now() + solver.timeBudgetMs }
+  )
+
+  const exact: CombinationCandidate | null =
+    solution.total > 0
+      ? {
+          units: solution.indices.flatMap((i) => fittingUnits[i] ?? []),
+          totalBytes: solution.total,
+          targetDisk,
+          wastedSpace: availableBytes - solution.total,
+          score: solution.total / availableBytes,
+        }
+      : null
+
+  if (solution.complete) return exact
+
+  solver.timeouts++
+  const sampled = sampleCombinationForDisk(fittingUnits, availableBytes, targetDisk, maxCombinationSize)
+  return sampled && (!exact || sampled.score > exact.score) ? sampled : exact
+}
+
+/**
+ * Bucket for grouping units by size range
  */
-interface FileBucket {
+interface UnitBucket {
   readonly minSize: number
   readonly maxSize: number
-  readonly files: FileEntry[]
+  readonly units: PackingUnit[]
   readonly avgSize: number
 }
 
 /**
- * Create size-based buckets for files
+ * Create size-based buckets for units
  * Buckets: 0-100KB, 100KB-1MB, 1MB-10MB, 10MB-100MB, 100MB+
  */
-const createFileBuckets = (files: ReadonlyArray<FileEntry>): ReadonlyArray<FileBucket> => {
+const createUnitBuckets = (units: ReadonlyArray<PackingUnit>): ReadonlyArray<UnitBucket> => {
   const KB = 1024
   const MB = 1024 * 1024
 
@@ -377,21 +980,21 @@ const createFileBuckets = (files: ReadonlyArray<FileEntry>): ReadonlyArray<FileB
   ]
 
   return bucketRanges.map(range => {
-    const bucketFiles = files.filter(
-      f => f.sizeBytes >= range.min && f.sizeBytes < range.max
+    const bucketUnits = units.filter(
+      u => u.totalBytes >= range.min && u.totalBytes < range.max
     )
 
-    const avgSize = bucketFiles.length > 0
-      ? bucketFiles.reduce((sum, f) => sum + f.sizeBytes, 0) / bucketFiles.length
+    const avgSize = bucketUnits.length > 0
+      ? bucketUnits.reduce((sum, u) => sum + u.totalBytes, 0) / bucketUnits.length
       : 0
 
     return {
       minSize: range.min,
       maxSize: range.max,
-      files: bucketFiles,
+      units: bucketUnits,
       avgSize,
     }
-  }).filter(bucket => bucket.files.length > 0) // Only non-empty buckets
+  }).filter(bucket => bucket.units.length > 0) // Only non-empty buckets
 }
 
 /**
@@ -402,32 +1005,32 @@ const createFileBuckets = (files: ReadonlyArray<FileEntry>): ReadonlyArray<FileB
  * 2. Use greedy knapsack with buckets
  * 3. Sample files from buckets to build combinations
  */
-const findBestCombinationForDisk = (
-  files: ReadonlyArray<FileEntry>,
+const sampleCombinationForDisk = (
+  units: ReadonlyArray<PackingUnit>,
   availableBytes: number,
   targetDisk: string,
   maxCombinationSize: number
 ): CombinationCandidate | null => {
-  // Filter to only files that fit
-  const fittingFiles = files.filter(f => f.sizeBytes <= availableBytes)
+  // Filter to only units that fit
+  const fittingUnits = units.filter(u => u.totalBytes <= availableBytes)
 
-  if (fittingFiles.length === 0) return null
+  if (fittingUnits.length === 0) return null
 
   // Create buckets grouped by size
-  const buckets = createFileBuckets(fittingFiles)
+  const buckets = createUnitBuckets(fittingUnits)
 
   let best: CombinationCandidate | null = null
 
-  // Strategy 1: Try single files (greedy - pick largest that fits)
-  for (const file of fittingFiles) {
-    if (file.sizeBytes <= availableBytes) {
-      const wastedSpace = availableBytes - file.sizeBytes
-      const score = file.sizeBytes / availableBytes
+  // Strategy 1: Try single units (greedy - pick largest that fits)
+  for (const unit of fittingUnits) {
+    if (unit.totalBytes <= availableBytes) {
+      const wastedSpace = availableBytes - unit.totalBytes
+      const score = unit.totalBytes / availableBytes
 
       if (!best || score > best.score) {
         best = {
-          files: [file],
-          totalBytes: file.sizeBytes,
+          units: [unit],
+          totalBytes: unit.totalBytes,
           targetDisk,
           wastedSpace,
           score,
@@ -437,31 +1040,31 @@ const findBestCombinationForDisk = (
   }
 
   // Strategy 2: Try combinations from buckets (sample-based)
-  // For each bucket, sample a few files to try in combinations
-  const sampledFiles: FileEntry[] = []
+  // For each bucket, sample a few units to try in combinations
+  const sampledUnits: PackingUnit[] = []
   for (const bucket of buckets) {
-    // Sample up to 3 files from each bucket (smallest, median, largest)
-    const sorted = [...bucket.files].sort((a, b) => a.sizeBytes - b.sizeBytes)
+    // Sample up to 3 units from each bucket (smallest, median, largest)
+    const sorted = [...bucket.units].sort((a, b) => a.totalBytes - b.totalBytes)
     const samples = [
       sorted[0],                                    // smallest
       sorted[Math.floor(sorted.length / 2)],        // median
       sorted[sorted.length - 1],                    // largest
-    ].filter(Boolean) as FileEntry[]
+    ].filter(Boolean) as PackingUnit[]
 
-    sampledFiles.push(...samples)
+    sampledUnits.push(...samples)
   }
 
   // Remove duplicates
   const uniqueSamples = [...new Map(
-    sampledFiles.map(f => [f.absolutePath, f])
+    sampledUnits.map(u => [u.id, u])
   ).values()]
 
-  // Try combinations of sampled files (much smaller set!)
+  // Try combinations of sampled units (much smaller set!)
   for (let size = 2; size <= Math.min(maxCombinationSize, uniqueSamples.length); size++) {
     const combinations = generateCombinations(uniqueSamples, size)
 
     for (const combo of combinations) {
-      const totalBytes = combo.reduce((sum, f) => sum + f.sizeBytes, 0)
+      const totalBytes = combo.reduce((sum, u) => sum + u.totalBytes, 0)
 
       if (totalBytes > availableBytes) continue
 
@@ -470,7 +1073,7 @@ const findBestCombinationForDisk = (
 
       if (!best || score > best.score) {
         best = {
-          files: combo,
+          units: combo,
           totalBytes,
           targetDisk,
           wastedSpace,
@@ -2,8 +2,10 @@ import { describe, expect, test } from "bun:test"
 import { Effect, Layer, pipe } from "effect"
 import { TransferServiceTag, RsyncTransferService } from "./TransferService"
 import { ShellServiceTag } from "../infra/ShellService"
+import { ChecksumFailed, ChecksumServiceTag } from "../infra/ChecksumService"
 import type { MovePlan, FileMove } from "../domain/MovePlan"
 import type { FileEntry } from "../domain/FileEntry"
+import type { BatchProgress } from "../lib/transferProgress"
 
 // =============================================================================
 // Test data factories
@@ -228,5 +230,347 @@ describe("RsyncTransferService", () => {
       expect(progressCalls).toHaveLength(1)
       expect(progressCalls[0]).toEqual({ completed: 2, total: 2 })
     })
+
+    test("hands each finished batch to onBatchComplete", async () => {
+      const TestLayer = pipe(RsyncTransferService, Layer.provide(makeStubShellService()))
+
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk2"),
+        makeMove("b.txt", "/mnt/disk1", "/mnt/disk2"),
+        makeMove("c.txt", "/mnt/disk1", "/mnt/disk3"),
+      ])
+
+      const batches: string[][] = []
+
+      await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, {
+            dryRun: false,
+            concurrency: 2,
+            preserveAttrs: true,
+            deleteSource: true,
+            onBatchComplete: (results) =>
+              Effect.sync(() => {
+                batches.push(results.map((r) => r.move.file.relativePath))
+              }),
+          })
+        ),
+        Effect.provide(TestLayer),
+        Effect.runPromise
+      )
+
+      expect(batches.map((b) => b.sort()).sort()).toEqual([["a.txt", "b.txt"], ["c.txt"]])
+    })
+
+    test("skips the moves checkBatch rejects and transfers the rest", async () => {
+      const commands: string[] = []
+      const TestLayer = pipe(
+        RsyncTransferService,
+        Layer.provide(
+          Layer.succeed(ShellServiceTag, {
+            exec: (command) =>
+              Effect.sync(() => {
+                commands.push(command)
+                return { stdout: "", stderr: "", exitCode: 0 }
+              }),
+          })
+        )
+      )
+
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk2"),
+        makeMove("b.txt", "/mnt/disk1", "/mnt/disk2"),
+      ])
+
+      const report = await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, {
+            dryRun: false,
+            concurrency: 1,
+            preserveAttrs: true,
+            deleteSource: true,
+            checkBatch: () => Effect.succeed(new Map([["/mnt/disk1/b.txt", "source file was modified"]])),
+          })
+        ),
+        Effect.provide(TestLayer),
+        Effect.runPromise
+      )
+
+      expect(report.successful).toBe(1)
+      expect(report.failed).toBe(0)
+      expect(report.skipped).toBe(1)
+      const skipped = report.results.find((r) => r.move.file.relativePath === "b.txt")
+      expect(skipped?.move.status).toBe("skipped")
+      expect(skipped?.move.reason).toBe("source file was modified")
+      const fileList = commands.find((c) => c.startsWith("cat >")) ?? ""
+      expect(fileList).toContain("\na.txt\n")
+      expect(fileList).not.toContain("\nb.txt\n")
+    })
+
+    test("verify removes only the sources whose copies hash the same", async () => {
+      const commands: string[] = []
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command) =>
+          Effect.sync(() => {
+            commands.push(command)
+            return { stdout: "", stderr: "", exitCode: 0 }
+          }),
+      })
+      const hashes: Record<string, string> = {
+        "/mnt/disk1/a.txt": "aaa",
+        "/mnt/disk2/a.txt": "aaa",
+        "/mnt/disk1/b.txt": "bbb",
+        "/mnt/disk2/b.txt": "bad",
+      }
+      const StubChecksums = Layer.succeed(ChecksumServiceTag, {
+        algorithm: "sha256",
+        hashFile: (path) =>
+          hashes[path] ? Effect.succeed(hashes[path]) : Effect.fail(new ChecksumFailed({ path, reason: "missing" })),
+      })
+
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk2"),
+        makeMove("b.txt", "/mnt/disk1", "/mnt/disk2"),
+      ])
+
+      const report = await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, { dryRun: false, concurrency: 1, preserveAttrs: true, deleteSource: true, verify: true })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell), Layer.provide(StubChecksums))),
+        Effect.runPromise
+      )
+
+      expect(report.successful).toBe(1)
+      expect(report.failed).toBe(1)
+      expect(report.verification).toEqual({ verified: 1, mismatched: 1 })
+      const mismatch = report.results.find((r) => r.move.file.relativePath === "b.txt")
+      expect(mismatch?.success).toBe(false)
+      expect(mismatch?.checksums).toEqual({ source: "bbb", destination: "bad" })
+      expect(mismatch?.error).toContain("source sha256 bbb, destination bad")
+
+      // The copy keeps sources; only the second pass removes them, for a.txt alone
+      const rsyncs = commands.filter((c) => c.startsWith("rsync"))
+      expect(rsyncs).toHaveLength(2)
+      expect(rsyncs[0]).not.toContain("--remove-source-files")
+      expect(rsyncs[1]).toContain("--remove-source-files")
+      const lists = commands.filter((c) => c.startsWith("cat >"))
+      expect(lists[1]).toContain("\na.txt\n")
+      expect(lists[1]).not.toContain("\nb.txt\n")
+      // The mismatched copy is deleted so a later apply can copy it again
+      expect(commands.filter((c) => c.startsWith("rm -f --"))).toEqual(["rm -f -- '/mnt/disk2/b.txt'"])
+    })
+
+    test("verify retries a mismatched copy on the next apply", async () => {
+      const commands: string[] = []
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command) =>
+          Effect.sync(() => {
+            commands.push(command)
+            return { stdout: "", stderr: "", exitCode: 0 }
+          }),
+      })
+      // The first copy is corrupted, the second is good
+      const copies = ["bad", "aaa"]
+      const StubChecksums = Layer.succeed(ChecksumServiceTag, {
+        algorithm: "sha256",
+        hashFile: (path) => Effect.succeed(path.startsWith("/mnt/disk1") ? "aaa" : copies.shift() ?? "aaa"),
+      })
+      const started: string[][] = []
+      const apply = pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(makePlan([makeMove("it's.txt", "/mnt/disk1", "/mnt/disk2")]), {
+            dryRun: false,
+            concurrency: 1,
+            preserveAttrs: true,
+            deleteSource: true,
+            verify: true,
+            onBatchStart: (moves) => Effect.sync(() => started.push(moves.map((m) => m.file.relativePath))),
+          })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell), Layer.provide(StubChecksums)))
+      )
+
+      const first = await Effect.runPromise(apply)
+      expect(first.failed).toBe(1)
+      expect(commands.filter((c) => c.startsWith("rm -f --"))).toEqual([`rm -f -- '/mnt/disk2/it'\\''s.txt'`])
+      expect(commands.filter((c) => c.includes("--remove-source-files"))).toHaveLength(0)
+
+      const second = await Effect.runPromise(apply)
+      expect(second.successful).toBe(1)
+      expect(commands.filter((c) => c.includes("--remove-source-files"))).toHaveLength(1)
+      expect(started).toEqual([["it's.txt"], ["it's.txt"]])
+    })
+
+    test("verify keeps every source when no checksum service is available", async () => {
+      const rsyncCommands: string[] = []
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command) => {
+          if (command.startsWith("rsync")) rsyncCommands.push(command)
+          return Effect.succeed({ stdout: "", stderr: "", exitCode: 0 })
+        },
+      })
+
+      const report = await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(makePlan([makeMove("a.txt", "/mnt/disk1", "/mnt/disk2")]), {
+            dryRun: false,
+            concurrency: 1,
+            preserveAttrs: true,
+            deleteSource: true,
+            verify: true,
+          })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell))),
+        Effect.runPromise
+      )
+
+      expect(report.failed).toBe(1)
+      expect(rsyncCommands).toHaveLength(1)
+      expect(rsyncCommands[0]).not.toContain("--remove-source-files")
+    })
+
+    test("batches moves per source and target disk pair", async () => {
+      const rsyncCommands: string[] = []
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command) => {
+          if (command.startsWith("rsync")) rsyncCommands.push(command)
+          return Effect.succeed({ stdout: "", stderr: "", exitCode: 0 })
+        },
+      })
+
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk3"),
+        makeMove("b.txt", "/mnt/disk2", "/mnt/disk3"),
+      ])
+
+      await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, { dryRun: false, concurrency: 4, preserveAttrs: true, deleteSource: true })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell))),
+        Effect.runPromise
+      )
+
+      expect(rsyncCommands).toHaveLength(2)
+      expect(rsyncCommands.some((c) => c.endsWith(`"/mnt/disk1/" "/mnt/disk3/"`))).toBe(true)
+      expect(rsyncCommands.some((c) => c.endsWith(`"/mnt/disk2/" "/mnt/disk3/"`))).toBe(true)
+    })
+
+    test("never runs more batches per disk than the per-disk limits", async () => {
+      const running = new Map<string, number>()
+      const peak = new Map<string, number>()
+      let peakOverall = 0
+
+      const track = (disks: string[], delta: number) => {
+        for (const disk of disks) {
+          const count = (running.get(disk) ?? 0) + delta
+          running.set(disk, count)
+          peak.set(disk, Math.max(peak.get(disk) ?? 0, count))
+        }
+      }
+
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command) => {
+          const disks = command.startsWith("rsync") ? [...command.matchAll(/"(\/mnt\/disk\d+)\/"/g)].map((m) => `${m[1]}`) : []
+          if (disks.length === 0) return Effect.succeed({ stdout: "", stderr: "", exitCode: 0 })
+          const [source, target] = disks
+          const keys = [`src:${source}`, `dst:${target}`, "all"]
+          return pipe(
+            Effect.sync(() => {
+              track(keys, 1)
+              peakOverall = Math.max(peakOverall, running.get("all") ?? 0)
+            }),
+            Effect.zipRight(Effect.sleep("10 millis")),
+            Effect.zipRight(Effect.sync(() => track(keys, -1))),
+            Effect.as({ stdout: "", stderr: "", exitCode: 0 })
+          )
+        },
+      })
+
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk3"),
+        makeMove("b.txt", "/mnt/disk1", "/mnt/disk4"),
+        makeMove("c.txt", "/mnt/disk2", "/mnt/disk3"),
+        makeMove("d.txt", "/mnt/disk2", "/mnt/disk4"),
+        makeMove("e.txt", "/mnt/disk5", "/mnt/disk6"),
+      ])
+
+      const report = await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, {
+            dryRun: false,
+            concurrency: 4,
+            sourceConcurrency: 1,
+            targetConcurrency: 1,
+            preserveAttrs: true,
+            deleteSource: true,
+          })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell))),
+        Effect.runPromise
+      )
+
+      expect(report.successful).toBe(5)
+      for (const [key, count] of peak) {
+        if (key !== "all") expect(count).toBe(1)
+      }
+      // Disjoint disk pairs still run side by side
+      expect(peakOverall).toBeGreaterThan(1)
+    })
+
+    test("reports live batch progress from rsync output", async () => {
+      const rsyncCommands: string[] = []
+      const StubShell = Layer.succeed(ShellServiceTag, {
+        exec: (command: string, onLine?: (line: string) => void) => {
+          if (command.startsWith("rsync")) {
+            rsyncCommands.push(command)
+            onLine?.("a.txt")
+            onLine?.("            50  25%    1.00kB/s    0:00:01")
+            onLine?.("b.txt")
+          }
+          return Effect.succeed({ stdout: "", stderr: "", exitCode: 0 })
+        },
+      })
+
+      const updates: BatchProgress[] = []
+      const plan = makePlan([
+        makeMove("a.txt", "/mnt/disk1", "/mnt/disk2"),
+        makeMove("b.txt", "/mnt/disk1", "/mnt/disk2"),
+      ])
+
+      await pipe(
+        TransferServiceTag,
+        Effect.flatMap((svc) =>
+          svc.executeAll(plan, {
+            dryRun: false,
+            concurrency: 1,
+            preserveAttrs: true,
+            deleteSource: true,
+            onBatchProgress: (progress) => updates.push(progress),
+          })
+        ),
+        Effect.provide(pipe(RsyncTransferService, Layer.provide(StubShell))),
+        Effect.runPromise
+      )
+
+      expect(rsyncCommands[0]).toContain("--info=progress2,name1")
+      expect(updates.map((u) => [u.status, u.bytesTransferred, u.currentFile])).toEqual([
+        ["running", 0, ""],
+        ["running", 0, "a.txt"],
+        ["running", 50, "a.txt"],
+        ["running", 50, "b.txt"],
+        ["done", 200, "b.txt"],
+      ])
+      expect(updates[2]?.speedBytesPerSec).toBe(1024)
+      expect(updates[4]?.totalBytes).toBe(200)
+    })
   })
 })
@@ -5,9 +5,12 @@
  * an rsync-based implementation (RsyncTransferService).
  */
 
-import { Context, Data, Effect, Layer, pipe } from "effect"
-import { ShellServiceTag } from "../infra/ShellService"
-import type { FileMove, MovePlan } from "../domain/MovePlan"
+import { Context, Data, Effect, Layer, Option, pipe } from "effect"
+import { ShellServiceTag, type ShellError, type ShellResult } from "../infra/ShellService"
+import { ChecksumServiceTag } from "../infra/ChecksumService"
+import { skipMove, type FileMove, type MovePlan } from "../domain/MovePlan"
+import { uniqueBytes } from "../domain/FileEntry"
+import { parseRsyncProgress, type BatchProgress } from "../lib/transferProgress"
 
 // =============================================================================
 // Service errors - all possible failure modes
@@ -55,6 +58,8 @@ export interface TransferResult {
   readonly move: FileMove
   readonly success: boolean
   readonly error?: string
+  /** Source and destination hashes, when the copy was verified */
+  readonly checksums?: { readonly source: string; readonly destination: string }
 }
 
 export interface TransferReport {
@@ -62,14 +67,38 @@ export interface TransferReport {
   readonly successful: number
   readonly failed: number
   readonly skipped: number
+  /** With verify: copies whose hashes matched, and those that did not */
+  readonly verification?: { readonly verified: number; readonly mismatched: number }
 }
 
 export interface TransferOptions {
   readonly dryRun: boolean
+  /** Maximum rsync batches running at once */
   readonly concurrency: number
+  /** Maximum batches reading from the same source disk (default: no limit) */
+  readonly sourceConcurrency?: number
+  /** Maximum batches writing to the same target disk (default: no limit) */
+  readonly targetConcurrency?: number
   readonly preserveAttrs: boolean
   readonly deleteSource: boolean
+  /**
+   * Copy without removing, hash source and destination, and remove only the
+   * sources whose copies match. Mismatched copies fail and keep the source.
+   */
+  readonly verify?: boolean
   readonly onProgress?: (completed: number, total: number, current: FileMove) => void
+  /** Live byte counts per batch, parsed from rsync --info=progress2 */
+  readonly onBatchProgress?: (progress: BatchProgress) => void
+  /** Runs as soon as each batch finishes, e.g. to persist move statuses */
+  readonly onBatchComplete?: (results: readonly TransferResult[]) => Effect.Effect<void>
+  /**
+   * Runs just before each batch transfers. Moves given a reason, by source
+   * path, are skipped rather than transferred (e.g. sources changed since
+   * planning).
+   */
+  readonly checkBatch?: (moves: readonly FileMove[]) => Effect.Effect<ReadonlyMap<string, string>>
+  /** Runs with the moves of each batch as it starts, e.g. to mark them in progress */
+  readonly onBatchStart?: (moves: readonly FileMove[]) => Effect.Effect<void>
 }
 
 // =============================================================================
@@ -104,6 +133,9 @@ interface DiskBatch {
 // Rsync command generation
 // =============================================================================
 
+/** Quote a path for sh, whatever characters it holds */
+const shellQuote = (path: string): string => `'${path.replaceAll("'", `'\\''`)}'`
+
 /**
  * Build a batched rsync command using --files-from.
  * This is more efficient for many files going to the same target disk.
@@ -112,12 +144,14 @@ const buildBatchedRsyncCommand = (
   sourceDisk: string,
   targetDisk: string,
   filesFromPath: string,
-  options: { preserveAttrs: boolean; deleteSource: boolean; dryRun: boolean }
+  options: { preserveAttrs: boolean; deleteSource: boolean; dryRun: boolean; reportProgress: boolean }
 ): string => {
   const flags = [
     "-a", // archive mode
+    "-H", // preserve hardlinks between files in the batch
     ...(options.deleteSource && !options.dryRun ? ["--remove-source-files"] : []),
     ...(options.dryRun ? ["--dry-run", "-v"] : []), // verbose for dry-run output
+    ...(options.reportProgress && !options.dryRun ? ["--info=progress2,name1"] : []), // running total + file names
   ]
 
   // Ensure trailing slashes for directory rsync
@@ -128,21 +162,22 @@ const buildBatchedRsyncCommand = (
 }
 
 /**
- * Group moves by target disk for batched transfer.
+ * Group moves by source and target disk for batched transfer.
+ * rsync copies relative to one source root, so each disk pair is its own batch.
  */
-const groupMovesByTargetDisk = (moves: readonly FileMove[]): DiskBatch[] => {
+const groupMovesByDiskPair = (moves: readonly FileMove[]): DiskBatch[] => {
   const batches = moves.reduce((acc, move) => {
-    const target = move.targetDiskPath
-    const existing = acc.get(target)
+    const key = `${move.file.diskPath}\0${move.targetDiskPath}`
+    const existing = acc.get(key)
     if (existing) {
-      acc.set(target, { moves: [...existing.moves, move], sourceDisk: existing.sourceDisk })
+      existing.moves.push(move)
     } else {
-      acc.set(target, { moves: [move], sourceDisk: move.file.diskPath })
+      acc.set(key, { moves: [move], sourceDisk: move.file.diskPath, targetDisk: move.targetDiskPath })
     }
     return acc
-  }, new Map<string, { moves: FileMove[]; sourceDisk: string }>())
+  }, new Map<string, { moves: FileMove[]; sourceDisk: string; targetDisk: string }>())
 
-  return Array.from(batches.entries()).map(([targetDisk, { moves: batchMoves, sourceDisk }]) => ({
+  return Array.from(batches.values()).map(({ moves: batchMoves, sourceDisk, targetDisk }) => ({
     sourceDisk,
     targetDisk,
     moves: batchMoves,
@@ -150,6 +185,31 @@ const groupMovesByTargetDisk = (moves: readonly FileMove[]): DiskBatch[] => {
   }))
 }
 
+// =============================================================================
+// Concurrency limits
+// =============================================================================
+
+/**
+ * One semaphore per disk, or none when the disk role is unlimited.
+ */
+const makeDiskSlots = (
+  disks: readonly string[],
+  permits: number | undefined
+): Effect.Effect<ReadonlyMap<string, Effect.Semaphore>> =>
+  permits === undefined
+    ? Effect.succeed(new Map())
+    : pipe(
+        Effect.forEach(new Set(disks), (disk) =>
+          Effect.map(Effect.makeSemaphore(permits), (semaphore) => [disk, semaphore] as const)
+        ),
+        Effect.map((entries) => new Map(entries))
+      )
+
+const withSlot =
+  (semaphore: Effect.Semaphore | undefined) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    semaphore ? semaphore.withPermits(1)(effect) : effect
+
 // =============================================================================
 // Rsync implementation
 // =============================================================================
@@ -158,25 +218,30 @@ const groupMovesByTargetDisk = (moves: readonly FileMove[]): DiskBatch[] => {
  * RsyncTransferService - TransferService implementation using rsync.
  *
  * Features:
- * - Batched transfers per target disk using --files-from
- * - Parallel execution across target disks
+ * - Batched transfers per source/target disk pair using --files-from
+ * - Parallel execution bounded overall and per source and target disk
  * - Atomic moves with rsync --remove-source-files
+ * - Optional checksum verification before sources are removed
+ *   (needs a ChecksumService)
  */
 export const RsyncTransferService = Layer.effect(
   TransferServiceTag,
   Effect.gen(function* () {
     const shell = yield* ShellServiceTag
+    const checksums = yield* Effect.serviceOption(ChecksumServiceTag)
 
     /**
-     * Execute a batch of moves to a single target disk using --files-from.
+     * Run rsync over the given paths of a disk pair, via a --files-from list.
      */
-    const executeBatch = (
+    const runRsync = (
       batch: DiskBatch,
-      options: TransferOptions
-    ): Effect.Effect<TransferResult[], never> => {
+      relativePaths: readonly string[],
+      options: TransferOptions & { deleteSource: boolean },
+      onLine?: (line: string) => void
+    ): Effect.Effect<ShellResult, ShellError> => {
       // Create temp file with relative paths
       const tempFile = `/tmp/rsync-files-${Date.now()}-${Math.random().toString(36).slice(2)}.txt`
-      const filesContent = batch.relativePaths.join("\n")
+      const filesContent = relativePaths.join("\n")
 
       return pipe(
         // Write files-from list
@@ -190,10 +255,11 @@ export const RsyncTransferService = Layer.effect(
               preserveAttrs: options.preserveAttrs,
               deleteSource: options.deleteSource,
               dryRun: options.dryRun,
+              reportProgress: onLine !== undefined,
             }
           )
 
-          return shell.exec(command)
+          return shell.exec(command, onLine)
         }),
         Effect.flatMap((result) => {
           // Clean up temp file
@@ -201,31 +267,181 @@ export const RsyncTransferService = Layer.effect(
             shell.exec(`rm -f "${tempFile}"`),
             Effect.map(() => result)
           )
-        }),
-        Effect.map((result): TransferResult[] => {
+        })
+      )
+    }
+
+    /**
+     * Delete the copies of moves whose sources stay, so a later apply finds
+     * nothing in the way and copies them again.
+     */
+    const removeCopies = (results: readonly TransferResult[]): Effect.Effect<void> =>
+      Effect.forEach(
+        results,
+        ({ move }) =>
+          pipe(
+            shell.exec(`rm -f -- ${shellQuote(move.destinationPath)}`),
+            Effect.map((result) => (result.exitCode === 0 ? undefined : result.stderr)),
+            Effect.catchAll((e) => Effect.succeed(e.message)),
+            Effect.flatMap((failure) =>
+              failure === undefined
+                ? Effect.void
+                : Effect.logWarning(`Could not remove unverified copy ${move.destinationPath}: ${failure}`)
+            )
+          ),
+        { discard: true }
+      )
+
+    /**
+     * Hash both ends of each copied move, then remove the sources that match.
+     * Copies that cannot be verified are deleted.
+     */
+    const verifyCopies = (
+      batch: DiskBatch,
+      options: TransferOptions,
+      report: (update: Partial<BatchProgress>) => void
+    ): Effect.Effect<TransferResult[], never> =>
+      Effect.gen(function* () {
+        if (Option.isNone(checksums)) {
+          const unverified = batch.moves.map((move) => ({
+            move,
+            success: false,
+            error: "checksum verification is unavailable (source kept)",
+          }))
+          yield* removeCopies(unverified)
+          return unverified
+        }
+        const hasher = checksums.value
+
+        // One file at a time: each hash reads a whole file from two disks
+        const checked = yield* Effect.forEach(batch.moves, (move) =>
+          pipe(
+            Effect.sync(() => report({ currentFile: `verifying ${move.file.relativePath}` })),
+            Effect.zipRight(
+              Effect.all({
+                source: hasher.hashFile(move.file.absolutePath),
+                destination: hasher.hashFile(move.destinationPath),
+              })
+            ),
+            Effect.map((hashes): TransferResult =>
+              hashes.source === hashes.destination
+                ? { move, success: true, checksums: hashes }
+                : {
+                    move,
+                    success: false,
+                    checksums: hashes,
+                    error: `checksum mismatch: source ${hasher.algorithm} ${hashes.source}, destination ${hashes.destination} (source kept)`,
+                  }
+            ),
+            Effect.catchAll((e) =>
+              Effect.succeed<TransferResult>({
+                move,
+                success: false,
+                error: `could not checksum ${e.path}: ${e.reason} (source kept)`,
+              })
+            )
+          )
+        )
+
+        yield* removeCopies(checked.filter((r) => !r.success))
+
+        const matched = checked.filter((r) => r.success)
+        if (!options.deleteSource || matched.length === 0) return checked
+
+        // The copies are already in place, so this pass only removes sources
+        const removal = yield* pipe(
+          runRsync(batch, matched.map((r) => r.move.file.relativePath), { ...options, deleteSource: true }),
+          Effect.map((result) => (result.exitCode === 0 ? undefined : `exit ${result.exitCode}: ${result.stderr}`)),
+          Effect.catchAll((e) => Effect.succeed(e.message))
+        )
+        if (removal === undefined) return checked
+
+        return checked.map((r) =>
+          r.success ? { ...r, success: false, error: `copy verified, but removing the source failed (${removal})` } : r
+        )
+      })
+
+    /**
+     * Execute a batch of moves to a single target disk using --files-from.
+     */
+    const executeBatch = (
+      batch: DiskBatch,
+      options: TransferOptions
+    ): Effect.Effect<TransferResult[], never> => {
+      const totalBytes = uniqueBytes(batch.moves.map((m) => m.file))
+      let latest: BatchProgress = {
+        sourceDisk: batch.sourceDisk,
+        targetDisk: batch.targetDisk,
+        totalBytes,
+        bytesTransferred: 0,
+        speedBytesPerSec: 0,
+        currentFile: "",
+        status: "running",
+      }
+      const report = (update: Partial<BatchProgress>) => {
+        latest = { ...latest, ...update }
+        options.onBatchProgress?.(latest)
+      }
+
+      // rsync prints a file name when it starts a file, then redraws the
+      // running total for the whole batch
+      const onLine = options.onBatchProgress
+        ? (line: string) => {
+            const progress = parseRsyncProgress(line)
+            if (progress) {
+              report({ bytesTransferred: progress.bytesTransferred, speedBytesPerSec: progress.speedBytesPerSec })
+            } else {
+              report({ currentFile: line.trim() })
+            }
+          }
+        : undefined
+
+      // Verified moves copy first and remove their sources once hashes match
+      const verify = options.verify === true
+
+      return pipe(
+        Effect.sync(() => report({})),
+        Effect.zipRight(
+          runRsync(batch, batch.relativePaths, { ...options, deleteSource: options.deleteSource && !verify }, onLine)
+        ),
+        Effect.tap((result) =>
+          Effect.sync(() =>
+            result.exitCode === 0
+              ? report({ status: "done", bytesTransferred: totalBytes, speedBytesPerSec: 0 })
+              : report({ status: "error", speedBytesPerSec: 0, error: `rsync exited with ${result.exitCode}` })
+          )
+        ),
+        Effect.flatMap((result): Effect.Effect<TransferResult[]> => {
           if (result.exitCode !== 0) {
             // Batch failed - mark all moves as failed
-            return batch.moves.map((move) => ({
-              move,
-              success: false,
-              error: `rsync batch failed (exit ${result.exitCode}): ${result.stderr}`,
-            }))
+            return Effect.succeed(
+              batch.moves.map((move) => ({
+                move,
+                success: false,
+                error: `rsync batch failed (exit ${result.exitCode}): ${result.stderr}`,
+              }))
+            )
           }
 
+          if (verify) return verifyCopies(batch, options, report)
+
           // Batch succeeded - mark all moves as successful
-          return batch.moves.map((move) => ({
-            move,
-            success: true,
-          }))
+          return Effect.succeed(
+            batch.moves.map((move) => ({
+              move,
+              success: true,
+            }))
+          )
         }),
         Effect.catchAll((e) =>
-          Effect.succeed(
-            batch.moves.map((move) => ({
+          Effect.sync(() => {
+            report({ status: "error", speedBytesPerSec: 0, error: e.message })
+            return batch.moves.map((move) => ({
               move,
               success: false,
               error: e.message,
             }))
-          )
+          })
         )
       )
     }
@@ -269,46 +485,83 @@ export const RsyncTransferService = Layer.effect(
         } as TransferReport)
       }
 
-      // Group moves by target disk for batched transfer
-      const batches = groupMovesByTargetDisk(pendingMoves)
-
-      // Execute batches in parallel (one per target disk)
-      return pipe(
-        Effect.forEach(batches, (batch) => executeBatch(batch, options), {
-          concurrency: options.concurrency,
-        }),
-        Effect.map((batchResults): TransferReport => {
-          // Flatten batch results
-          const pendingResults = batchResults.flat()
-
-          // Call progress callback for completed moves
-          if (options.onProgress) {
-            const completed = pendingResults.length
-            const total = pendingMoves.length
-            const lastMove = pendingMoves[pendingMoves.length - 1]
-            if (lastMove) {
-              options.onProgress(completed, total, lastMove)
-            }
-          }
-
-          const skippedResults: TransferResult[] = skippedMoves.map((move) => ({
-            move,
-            success: false,
-            error: move.reason,
-          }))
-
-          const allResults = [...pendingResults, ...skippedResults]
-          const successful = pendingResults.filter((r) => r.success).length
-          const failed = pendingResults.filter((r) => !r.success).length
-
-          return {
-            results: allResults,
-            successful,
-            failed,
-            skipped: skippedMoves.length,
-          }
+      // Group moves by disk pair for batched transfer
+      const batches = groupMovesByDiskPair(pendingMoves)
+
+      /** Transfer a batch, minus the moves the pre-batch check rejects */
+      const checkAndExecute = (batch: DiskBatch): Effect.Effect<TransferResult[], never> =>
+        Effect.gen(function* () {
+          const reasons = options.checkBatch ? yield* options.checkBatch(batch.moves) : new Map<string, string>()
+          const keep = batch.moves.filter((m) => !reasons.has(m.file.absolutePath))
+          const skipped = batch.moves.flatMap((move): TransferResult[] => {
+            const reason = reasons.get(move.file.absolutePath)
+            return reason === undefined ? [] : [{ move: skipMove(move, reason), success: false, error: reason }]
+          })
+          if (keep.length === 0) return skipped
+
+          if (options.onBatchStart) yield* options.onBatchStart(keep)
+          const transferred = yield* executeBatch(
+            reasons.size === 0 ? batch : { ...batch, moves: keep, relativePaths: keep.map((m) => m.file.relativePath) },
+            options
+          )
+          return [...transferred, ...skipped]
         })
-      )
+
+      return Effect.gen(function* () {
+        const slots = yield* Effect.makeSemaphore(options.concurrency)
+        const sourceSlots = yield* makeDiskSlots(batches.map((b) => b.sourceDisk), options.sourceConcurrency)
+        const targetSlots = yield* makeDiskSlots(batches.map((b) => b.targetDisk), options.targetConcurrency)
+
+        let completed = 0
+
+        // Slots are always taken source -> target -> overall, so batches
+        // waiting on each other can never deadlock
+        const pendingResults = yield* Effect.forEach(
+          batches,
+          (batch) =>
+            pipe(
+              checkAndExecute(batch),
+              withSlot(slots),
+              withSlot(targetSlots.get(batch.targetDisk)),
+              withSlot(sourceSlots.get(batch.sourceDisk)),
+              Effect.tap(() =>
+                Effect.sync(() => {
+                  completed += batch.moves.length
+                  const lastMove = batch.moves[batch.moves.length - 1]
+                  if (options.onProgress && lastMove) {
+                    options.onProgress(completed, pendingMoves.length, lastMove)
+                  }
+                })
+              ),
+              Effect.tap((results) => options.onBatchComplete?.(results) ?? Effect.void)
+            ),
+          { concurrency: "unbounded" }
+        ).pipe(Effect.map((batchResults) => batchResults.flat()))
+
+        const skippedResults: TransferResult[] = skippedMoves.map((move) => ({
+          move,
+          success: false,
+          error: move.reason,
+        }))
+
+        const skippedAtBatch = pendingResults.filter((r) => r.move.status === "skipped").length
+        const hashed = pendingResults.filter((r) => r.checksums !== undefined)
+
+        return {
+          results: [...pendingResults, ...skippedResults],
+          successful: pendingResults.filter((r) => r.success).length,
+          failed: pendingResults.filter((r) => !r.success).length - skippedAtBatch,
+          skipped: skippedMoves.length + skippedAtBatch,
+          ...(options.verify
+            ? {
+                verification: {
+                  verified: hashed.filter((r) => r.checksums?.source === r.checksums?.destination).length,
+                  mismatched: hashed.filter((r) => r.checksums?.source !== r.checksums?.destination).length,
+                },
+              }
+            : {}),
+        }
+      })
     }
 
     return { executeAll }
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { Effect } from "effect"
+import { BunContext } from "@effect/platform-bun"
+import { link, mkdir, mkdtemp, rm, stat, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { planUndo } from "./UndoPlanner"
+import type { SerializedPlan } from "../infra/PlanStorageService"
+import { MB } from "../test/fixtures"
+
+let root: string
+let disk1: string
+let disk2: string
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "undo-test-"))
+  disk1 = join(root, "disk1")
+  disk2 = join(root, "disk2")
+  await mkdir(disk1)
+  await mkdir(disk2)
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+const writeBytes = async (path: string, bytes: number) => {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, new Uint8Array(bytes))
+}
+
+type Status = SerializedPlan["moves"][string]["status"]
+
+/** A plan that moved each path from disk1 to disk2 */
+const planOf = (
+  moves: ReadonlyArray<{ path: string; sizeBytes: number; status?: Status; mtimeMs?: number; unitId?: string }>
+): SerializedPlan => ({
+  version: 3,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  sourceDisk: disk1,
+  moves: Object.fromEntries(
+    moves.map((m) => [
+      join(disk1, m.path),
+      {
+        sourceRelPath: m.path,
+        sourceDisk: disk1,
+        targetDisk: disk2,
+        destAbsPath: join(disk2, m.path),
+        sizeBytes: m.sizeBytes,
+        mtimeMs: m.mtimeMs,
+        unitId: m.unitId,
+        status: m.status ?? "completed",
+      },
+    ])
+  ),
+  diskStats: {},
+})
+
+const undo = (plan: SerializedPlan, freeBytes: number, reservedBytes = 0) =>
+  Effect.runPromise(
+    planUndo(plan, [{ path: disk1, totalBytes: 1000 * MB, freeBytes }], new Map([[disk1, reservedBytes]])).pipe(
+      Effect.provide(BunContext.layer)
+    )
+  )
+
+describe("planUndo", () => {
+  test("moves each completed move back to its original disk and ignores the rest", async () => {
+    await writeBytes(join(disk2, "Movies/a.mkv"), 1000)
+    await writeBytes(join(disk1, "Movies/b.mkv"), 1000)
+
+    const result = await undo(
+      planOf([
+        { path: "Movies/a.mkv", sizeBytes: 1000 },
+        { path: "Movies/b.mkv", sizeBytes: 1000, status: "failed" },
+      ]),
+      500 * MB
+    )
+
+    expect(result.completedMoves).toBe(1)
+    expect(result.moves.map((m) => [m.file.absolutePath, m.destinationPath, m.status])).toEqual([
+      [join(disk2, "Movies/a.mkv"), join(disk1, "Movies/a.mkv"), "pending"],
+    ])
+  })
+
+  test("leaves files that are gone, changed or whose original path is taken", async () => {
+    await writeBytes(join(disk2, "resized.mkv"), 2000)
+    await writeBytes(join(disk2, "taken.mkv"), 1000)
+    await writeBytes(join(disk1, "taken.mkv"), 1000)
+    const touched = join(disk2, "touched.mkv")
+    await writeBytes(touched, 1000)
+    const movedMtime = (await stat(touched)).mtimeMs
+    await utimes(touched, new Date(), new Date(movedMtime + 60_000))
+
+    const result = await undo(
+      planOf([
+        { path: "gone.mkv", sizeBytes: 1000 },
+        { path: "resized.mkv", sizeBytes: 1000 },
+        { path: "taken.mkv", sizeBytes: 1000 },
+        { path: "touched.mkv", sizeBytes: 1000, mtimeMs: movedMtime },
+      ]),
+      500 * MB
+    )
+
+    expect(result.moves.map((m) => [m.file.relativePath, m.reason])).toEqual([
+      ["gone.mkv", "file is no longer where it was moved to"],
+      ["resized.mkv", "file changed size since it was moved"],
+      ["taken.mkv", "original path is occupied"],
+      ["touched.mkv", "file was modified since it was moved"],
+    ])
+  })
+
+  test("skips the moves the original disk has no room for, in plan order", async () => {
+    await writeBytes(join(disk2, "a.bin"), 1000)
+    await writeBytes(join(disk2, "b.bin"), 1000)
+    await writeBytes(join(disk2, "c.bin"), 500)
+
+    const result = await undo(
+      planOf([
+        { path: "a.bin", sizeBytes: 1000 },
+        { path: "b.bin", sizeBytes: 1000 },
+        { path: "c.bin", sizeBytes: 500 },
+      ]),
+      2000,
+      500
+    )
+
+    expect(result.moves.map((m) => [m.file.relativePath, m.status])).toEqual([
+      ["a.bin", "pending"],
+      ["b.bin", "skipped"],
+      ["c.bin", "pending"],
+    ])
+    expect(result.moves[1]?.reason).toBe(`not enough free space left on ${disk1}`)
+  })
+
+  test("brings a unit back whole or not at all", async () => {
+    await writeBytes(join(disk2, "Film/film.mkv"), 2000)
+    await writeBytes(join(disk2, "Film/film.nfo"), 100)
+    await writeBytes(join(disk2, "Show/ep02.mkv"), 1000)
+
+    const result = await undo(
+      planOf([
+        { path: "Film/film.mkv", sizeBytes: 1000, unitId: "film" },
+        { path: "Film/film.nfo", sizeBytes: 100, unitId: "film" },
+        { path: "Show/ep01.mkv", sizeBytes: 1000, unitId: "show" },
+        { path: "Show/ep02.mkv", sizeBytes: 1000, unitId: "show" },
+      ]),
+      500 * MB
+    )
+
+    expect(result.moves.map((m) => [m.file.relativePath, m.status])).toEqual([
+      ["Film/film.mkv", "skipped"],
+      ["Film/film.nfo", "skipped"],
+      ["Show/ep01.mkv", "skipped"],
+      ["Show/ep02.mkv", "pending"], // ep01 is gone, so nothing of the show stays behind
+    ])
+    expect(result.moves[1]?.reason).toBe(
+      `moves back together with ${join(disk2, "Film/film.mkv")}: file changed size since it was moved`
+    )
+  })
+
+  test("counts hardlinked paths once and keeps them together", async () => {
+    await writeBytes(join(disk2, "a.mkv"), 1000)
+    await link(join(disk2, "a.mkv"), join(disk2, "a-link.mkv"))
+    await writeBytes(join(disk2, "b.mkv"), 1000)
+    await link(join(disk2, "b.mkv"), join(disk2, "b-link.mkv"))
+    await writeBytes(join(disk1, "b-link.mkv"), 1000)
+
+    const result = await undo(
+      planOf([
+        { path: "a.mkv", sizeBytes: 1000 },
+        { path: "a-link.mkv", sizeBytes: 1000 },
+        { path: "b.mkv", sizeBytes: 1000 },
+        { path: "b-link.mkv", sizeBytes: 1000 },
+      ]),
+      1500
+    )
+
+    expect(result.moves.map((m) => [m.file.relativePath, m.status])).toEqual([
+      ["a.mkv", "pending"],
+      ["a-link.mkv", "pending"],
+      ["b.mkv", "skipped"],
+      ["b-link.mkv", "skipped"],
+    ])
+    expect(result.moves[2]?.reason).toBe(`moves back together with ${join(disk2, "b-link.mkv")}: original path is occupied`)
+  })
+})
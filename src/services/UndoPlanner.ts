@@ -0,0 +1,138 @@
+/**
+ * UndoPlanner - reverse the completed moves of an earlier plan
+ *
+ * Each completed move becomes a move from where it landed back to its
+ * original disk, at the same relative path. The result is an ordinary plan,
+ * so apply and export run it like any other.
+ *
+ * A file is only moved back when it is still the file that was moved: at its
+ * destination with the recorded size (and modification time, which rsync -a
+ * keeps), with nothing back at its original path. A folder or hardlink group
+ * the plan moved as one unit comes back whole or not at all. Each original
+ * disk must have room for what returns to it, above its min-space
+ * reservation; the units that do not fit are skipped, in plan order.
+ */
+
+import { Effect, Option, pipe } from "effect"
+import { FileSystem } from "@effect/platform"
+import type { Disk } from "../domain/Disk"
+import { uniqueBytes } from "../domain/FileEntry"
+import { createFileMove, movesByUnit, skipMove, type FileMove } from "../domain/MovePlan"
+import type { SerializedPlan } from "../infra/PlanStorageService"
+import { DEFAULT_STAT_CONCURRENCY } from "./ScannerService"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UndoResult {
+  /** Reverse moves; those that cannot run are skipped with the reason */
+  readonly moves: ReadonlyArray<FileMove>
+  /** Completed moves in the earlier plan */
+  readonly completedMoves: number
+}
+
+const GONE = "file is no longer where it was moved to"
+
+// =============================================================================
+// Reversal
+// =============================================================================
+
+/**
+ * The reverse of every completed move in `plan`, in plan order.
+ * `disks` are the live stats of the original source disks.
+ */
+export const planUndo = (
+  plan: SerializedPlan,
+  disks: ReadonlyArray<Disk>,
+  reservedBytesByDisk: ReadonlyMap<string, number> = new Map()
+): Effect.Effect<UndoResult, never, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+
+    const completed = Object.entries(plan.moves).filter(([_, m]) => m.status === "completed")
+    const reversed = completed.map(([sourceAbsPath, m]) => ({
+      originalPath: sourceAbsPath,
+      move: createFileMove(
+        {
+          absolutePath: m.destAbsPath,
+          relativePath: m.sourceRelPath,
+          sizeBytes: m.sizeBytes,
+          diskPath: m.targetDisk,
+          mtimeMs: m.mtimeMs,
+        },
+        m.sourceDisk,
+        m.unitId
+      ),
+    }))
+
+    const checked = yield* Effect.forEach(
+      reversed,
+      ({ originalPath, move }) =>
+        Effect.gen(function* () {
+          const info = yield* pipe(fs.stat(move.file.absolutePath), Effect.option)
+          if (Option.isNone(info)) return skipMove(move, GONE)
+
+          // The plan does not record links, so they are read where the files are now
+          const linked: FileMove = {
+            ...move,
+            file: {
+              ...move.file,
+              device: info.value.dev,
+              inode: Option.getOrUndefined(info.value.ino),
+              linkCount: Option.getOrUndefined(info.value.nlink),
+            },
+          }
+          if (Number(info.value.size) !== move.file.sizeBytes) {
+            return skipMove(linked, "file changed size since it was moved")
+          }
+          const mtimeMs = Option.getOrUndefined(Option.map(info.value.mtime, (d) => d.getTime()))
+          if (move.file.mtimeMs !== undefined && mtimeMs !== undefined && mtimeMs !== move.file.mtimeMs) {
+            return skipMove(linked, "file was modified since it was moved")
+          }
+
+          // The reverse lands exactly on the original path
+          const occupied = yield* pipe(fs.exists(originalPath), Effect.orElseSucceed(() => false))
+          return occupied ? skipMove(linked, "original path is occupied") : linked
+        }),
+      { concurrency: DEFAULT_STAT_CONCURRENCY }
+    )
+
+    // Units come back whole, and only when each original disk has room for
+    // its part, in plan order. A file that is gone leaves nothing to keep.
+    const room = new Map(disks.map((d) => [d.path, d.freeBytes - (reservedBytesByDisk.get(d.path) ?? 0)]))
+    const decided = new Map<string, FileMove>()
+    for (const unit of movesByUnit(checked)) {
+      const blocker = unit.find((m) => m.status !== "pending" && m.reason !== GONE)
+      const pending = unit.filter((m) => m.status === "pending")
+      const bytesPerDisk = new Map(
+        [...new Set(pending.map((m) => m.targetDiskPath))].map((disk) => [
+          disk,
+          uniqueBytes(pending.filter((m) => m.targetDiskPath === disk).map((m) => m.file)),
+        ])
+      )
+      const missing = [...bytesPerDisk.keys()].find((disk) => !room.has(disk))
+      const full = [...bytesPerDisk].find(([disk, bytes]) => bytes > (room.get(disk) ?? 0))?.[0]
+
+      const reason = blocker
+        ? `moves back together with ${blocker.file.absolutePath}: ${blocker.reason}`
+        : missing !== undefined
+          ? `original disk ${missing} was not found`
+          : full !== undefined
+            ? `not enough free space left on ${full}`
+            : undefined
+      if (reason === undefined) {
+        for (const [disk, bytes] of bytesPerDisk) room.set(disk, (room.get(disk) ?? 0) - bytes)
+      }
+      for (const move of unit) {
+        decided.set(move.file.absolutePath, reason !== undefined && move.status === "pending" ? skipMove(move, reason) : move)
+      }
+    }
+    const moves = checked.map((move) => decided.get(move.file.absolutePath) ?? move)
+
+    yield* Effect.logDebug(
+      `Undo: ${moves.filter((m) => m.status === "pending").length} of ${completed.length} completed moves can go back`
+    )
+
+    return { moves, completedMoves: completed.length }
+  })
@@ -17,14 +17,14 @@
  *   expect(ctx.calls.shell).toContain("rsync ...")
  */
 
-import { Effect, Layer } from "effect"
+import { Effect, Layer, Stream } from "effect"
 import { FileSystem } from "@effect/platform"
 
 import { DiskStatsServiceTag } from "../infra/DiskStatsService"
 import { FileStatServiceTag, FileNotFound, FilePermissionDenied } from "../infra/FileStatService"
-import { GlobServiceTag, GlobNotFound, GlobPermissionDenied } from "../infra/GlobService"
+import { GlobServiceTag, GlobNotFound, GlobPermissionDenied, type GlobError } from "../infra/GlobService"
 import { ShellServiceTag, type ShellResult } from "../infra/ShellService"
-import { PlanStorageServiceTag, type SerializedPlan, PlanNotFound, PlanPermissionDenied } from "../infra/PlanStorageService"
+import { PlanStorageServiceTag, type SerializedPlan, type MoveStatus, type MoveStatusUpdate, PlanNotFound, PlanPermissionDenied } from "../infra/PlanStorageService"
 
 // =============================================================================
 // Virtual filesystem types
@@ -57,13 +57,14 @@ export interface SavedMove {
 export interface CallLog {
   diskStats: Array<{ method: "getStats"; path: string }>
   fileStat: Array<{ method: "stat"; path: string }>
-  glob: Array<{ method: "scan"; pattern: string; cwd: string }>
+  glob: Array<{ method: "scan" | "stream"; pattern: string; cwd: string }>
   shell: Array<{ method: "exec"; command: string }>
   planStorage: Array<
     | { method: "save"; path: string; moveCount: number; moves: SavedMove[]; sourceDisk: string }
     | { method: "load"; path: string }
     | { method: "exists"; path: string }
-    | { method: "updateMoveStatus"; path: string; sourceAbsPath: string; status: "completed" | "failed"; error?: string }
+    | { method: "updateMoveStatus"; path: string; sourceAbsPath: string; status: MoveStatus; error?: string }
+    | { method: "updateMoveStatuses"; path: string; updates: ReadonlyArray<MoveStatusUpdate> }
     | { method: "delete"; path: string }
   >
   fileSystem: Array<{ method: string; path: string }>
@@ -200,27 +201,34 @@ export function createTestContext(): TestContext {
   // Mock GlobService
   // ---------------------------------------------------------------------------
   // Uses the actual error classes so TypeScript enforces correctness.
+  const globFiles = (cwd: string): Effect.Effect<string[], GlobError> => {
+    // Check if the cwd itself has permission denied
+    if (isPermissionDenied(cwd)) {
+      return Effect.fail(new GlobPermissionDenied({ path: cwd }))
+    }
+
+    // Check if cwd exists (is a disk path)
+    if (!disks.has(cwd)) {
+      return Effect.fail(new GlobNotFound({ path: cwd }))
+    }
+
+    // Return files that match the cwd prefix (excluding permission-denied files)
+    const cwdPrefix = cwd.endsWith("/") ? cwd : `${cwd}/`
+    const matchingFiles = Array.from(files.entries())
+      .filter(([absPath, file]) => absPath.startsWith(cwdPrefix) && !file.permissionDenied)
+      .map(([absPath]) => absPath.slice(cwdPrefix.length))
+
+    return Effect.succeed(matchingFiles)
+  }
+
   const mockGlobService = Layer.succeed(GlobServiceTag, {
     scan: (pattern: string, cwd: string, _options?: { onlyFiles?: boolean }) => {
       calls.glob.push({ method: "scan", pattern, cwd })
-
-      // Check if the cwd itself has permission denied
-      if (isPermissionDenied(cwd)) {
-        return Effect.fail(new GlobPermissionDenied({ path: cwd }))
-      }
-
-      // Check if cwd exists (is a disk path)
-      if (!disks.has(cwd)) {
-        return Effect.fail(new GlobNotFound({ path: cwd }))
-      }
-
-      // Return files that match the cwd prefix (excluding permission-denied files)
-      const cwdPrefix = cwd.endsWith("/") ? cwd : `${cwd}/`
-      const matchingFiles = Array.from(files.entries())
-        .filter(([absPath, file]) => absPath.startsWith(cwdPrefix) && !file.permissionDenied)
-        .map(([absPath]) => absPath.slice(cwdPrefix.length))
-
-      return Effect.succeed(matchingFiles)
+      return globFiles(cwd)
+    },
+    stream: (pattern: string, cwd: string, _options?: { onlyFiles?: boolean }) => {
+      calls.glob.push({ method: "stream", pattern, cwd })
+      return Stream.unwrap(Effect.map(globFiles(cwd), Stream.fromIterable))
     },
   })
 
@@ -298,11 +306,16 @@ export function createTestContext(): TestContext {
       return Effect.succeed(savedPlan !== null)
     },
 
-    updateMoveStatus: (path: string, sourceAbsPath: string, status: "completed" | "failed", error?: string) => {
+    updateMoveStatus: (path: string, sourceAbsPath: string, status: MoveStatus, error?: string) => {
       calls.planStorage.push({ method: "updateMoveStatus", path, sourceAbsPath, status, error })
       return Effect.succeed(undefined)
     },
 
+    updateMoveStatuses: (path: string, updates: ReadonlyArray<MoveStatusUpdate>) => {
+      calls.planStorage.push({ method: "updateMoveStatuses", path, updates })
+      return Effect.succeed(undefined)
+    },
+
     delete: (path: string) => {
       calls.planStorage.push({ method: "delete", path })
       savedPlan = null
@@ -0,0 +1,26 @@
+/**
+ * Shared fixtures for consolidation tests - files on virtual disks, sized in MB.
+ */
+
+import type { FileEntry } from "../domain/FileEntry"
+
+export const MB = 1024 * 1024
+
+export const createFile = (
+  diskPath: string,
+  relativePath: string,
+  sizeMB: number
+): FileEntry => ({
+  diskPath,
+  relativePath,
+  absolutePath: `${diskPath}/${relativePath}`,
+  sizeBytes: sizeMB * MB,
+})
+
+export const createLinkedFile = (
+  diskPath: string,
+  relativePath: string,
+  sizeMB: number,
+  inode: number,
+  linkCount: number
+): FileEntry => ({ ...createFile(diskPath, relativePath, sizeMB), device: 1, inode, linkCount })